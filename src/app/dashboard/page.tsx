@@ -5,6 +5,18 @@ import { TelemetryProvider } from '@/presentation/contexts/TelemetryContext';
 import LapSelector from '@/presentation/components/dashboard/LapSelector';
 import TelemetryCharts from '@/presentation/components/dashboard/TelemetryCharts';
 import TrackMap from '@/presentation/components/dashboard/TrackMap';
+import LapOverlayLegend from '@/presentation/components/dashboard/LapOverlayLegend';
+import CornerBreakdownTable from '@/presentation/components/dashboard/CornerBreakdownTable';
+import TheoreticalBestPanel from '@/presentation/components/dashboard/TheoreticalBestPanel';
+import DegradationChart from '@/presentation/components/dashboard/DegradationChart';
+import StintPanel from '@/presentation/components/dashboard/StintPanel';
+import RacePositionCharts from '@/presentation/components/dashboard/RacePositionCharts';
+import OvertakeTable from '@/presentation/components/dashboard/OvertakeTable';
+import TrackLimitsPanel from '@/presentation/components/dashboard/TrackLimitsPanel';
+import TrafficPanel from '@/presentation/components/dashboard/TrafficPanel';
+import RacePacePanel from '@/presentation/components/dashboard/RacePacePanel';
+import StrategyPanel from '@/presentation/components/dashboard/StrategyPanel';
+import RaceOutcomePanel from '@/presentation/components/dashboard/RaceOutcomePanel';
 
 /**
  * Main Dashboard Page
@@ -39,8 +51,20 @@ export default function DashboardPage() {
 
                         {/* Main Content: Charts and Map */}
                         <div className="lg:col-span-2 space-y-8">
+                            <LapOverlayLegend />
                             <TrackMap />
                             <TelemetryCharts />
+                            <CornerBreakdownTable />
+                            <TheoreticalBestPanel />
+                            <RacePositionCharts />
+                            <OvertakeTable />
+                            <TrackLimitsPanel />
+                            <RacePacePanel />
+                            <TrafficPanel />
+                            <StintPanel />
+                            <DegradationChart />
+                            <StrategyPanel />
+                            <RaceOutcomePanel />
                         </div>
                     </div>
                 </main>
@@ -1,5 +1,14 @@
 import { ILapRepository } from '@/domain/repositories/ILapRepository';
 import { RaceSession } from '@/domain/entities/RaceSession';
+import { TelemetryFrame } from '@/domain/entities/TelemetryFrame';
+import { StintSummary } from '@/domain/entities/Stint';
+import { FuelCorrectionModel, FuelCorrectionOptions } from '@/domain/services/FuelCorrectionModel';
+import { PitDetectionOptions, PitStop } from '@/domain/services/PitStopDetector';
+import { GeoPoint } from '@/domain/services/GeoCalculator';
+import { RacePositionService, LapPosition } from '@/domain/services/RacePositionService';
+import { CautionDetectionOptions, CautionPeriod } from '@/domain/services/CautionDetector';
+import { RacePaceService, RacePaceOptions, VehiclePace } from '@/domain/services/RacePaceService';
+import { LoadRaceSession, LoadedRaceSession } from './LoadRaceSession';
 
 /**
  * Use Case: AnalyzeRaceSession
@@ -15,52 +24,89 @@ export class AnalyzeRaceSession {
 
     /**
      * Execute race session analysis
+     * @param options Fuel model, pit and caution detection inputs, pace options
+     *                and lap filters; every part has defaults when omitted
      */
-    async execute(sessionData: SessionInput): Promise<SessionAnalysis> {
-        // Create race session aggregate
-        const session = new RaceSession({
-            sessionId: sessionData.sessionId,
-            sessionName: sessionData.sessionName,
-            trackName: sessionData.trackName,
-            trackLengthKm: sessionData.trackLengthKm,
-            sessionDate: sessionData.sessionDate
+    async execute(sessionData: SessionInput, options: AnalyzeRaceSessionOptions = {}): Promise<SessionAnalysis> {
+        const loaded = await new LoadRaceSession(this.lapRepository).execute(sessionData, {
+            pitDetection: options.pitDetection,
+            cautions: options.cautions?.options
         });
+        return this.analyze(loaded, options);
+    }
 
-        // Load all laps
-        const allLaps = await this.lapRepository.getAllLaps();
+    /**
+     * Analyse a session that is already loaded
+     * Pit and caution detection inputs in the options are not used here;
+     * they only apply when execute loads the session.
+     */
+    analyze(loaded: LoadedRaceSession, options: AnalyzeRaceSessionOptions = {}): SessionAnalysis {
+        const { fuel = {}, cautions = {}, pace = {}, validity = {} } = options;
+        const includeCautionLaps = cautions.includeCautionLaps ?? false;
+        const includeInvalidLaps = validity.includeInvalidLaps ?? false;
+        const { session } = loaded;
+        const allLaps = session.vehicles.flatMap(vehicle => [...session.getLapsByVehicle(vehicle.id)]);
 
-        // Add laps to session
-        for (const lap of allLaps) {
-            session.addLap(lap);
+        // Same session with fuel-corrected laps (all cars corrected to the last lap)
+        const corrected = new RaceSession({
+            sessionId: session.sessionId,
+            sessionName: session.sessionName,
+            trackName: session.trackName,
+            trackLengthKm: session.trackLengthKm,
+            sessionDate: session.sessionDate
+        });
+        for (const lap of new FuelCorrectionModel(fuel).correctLaps(allLaps)) {
+            corrected.addLap(lap);
         }
+        const fastestCorrectedLap = corrected.getFastestLap(includeCautionLaps, includeInvalidLaps);
 
         // Get session statistics
-        const stats = session.getStatistics();
+        const stats = session.getStatistics(includeCautionLaps, includeInvalidLaps);
 
         // Get fastest lap
-        const fastestLap = session.getFastestLap();
+        const fastestLap = session.getFastestLap(includeCautionLaps, includeInvalidLaps);
+
+        // Running order at the end of every lap
+        const positionService = new RacePositionService();
+        const positionHistory = positionService.calculate(session);
+        const finalPositions = positionService.finalPositions(positionHistory);
 
         // Analyze each vehicle
         const vehicleAnalysis: VehicleAnalysis[] = [];
+        const paceService = new RacePaceService();
 
         for (const vehicle of session.vehicles) {
             const vehicleId = vehicle.id;
             const laps = session.getLapsByVehicle(vehicleId);
-            const fastestVehicleLap = session.getFastestLapForVehicle(vehicleId);
-            const avgLapTime = session.getAverageLapTime(vehicleId);
-            const consistency = session.getLapConsistency(vehicleId);
+            const fastestVehicleLap = session.getFastestLapForVehicle(vehicleId, includeCautionLaps, includeInvalidLaps);
+            const avgLapTime = session.getAverageLapTime(vehicleId, includeCautionLaps);
+            const consistency = session.getLapConsistency(vehicleId, includeCautionLaps);
+            const fastestCorrected = corrected.getFastestLapForVehicle(vehicleId, includeCautionLaps, includeInvalidLaps);
 
             vehicleAnalysis.push({
                 vehicleId,
                 chassis: vehicle.chassis,
                 carNumber: vehicle.carNumber,
                 totalLaps: laps.length,
+                cautionLaps: laps.filter(lap => lap.isCautionLap).length,
+                trafficLaps: laps.filter(lap => lap.isTrafficLap).length,
+                invalidLaps: laps.filter(lap => !lap.isValid).length,
                 fastestLapTime: fastestVehicleLap?.durationMs ?? null,
                 averageLapTime: avgLapTime,
                 consistency: consistency,
                 gapToLeader: fastestLap && fastestVehicleLap
                     ? fastestVehicleLap.durationMs - fastestLap.durationMs
-                    : null
+                    : null,
+                fastestLapTimeCorrected: fastestCorrected?.durationMs ?? null,
+                averageLapTimeCorrected: corrected.getAverageLapTime(vehicleId, includeCautionLaps),
+                consistencyCorrected: corrected.getLapConsistency(vehicleId, includeCautionLaps),
+                gapToLeaderCorrected: fastestCorrectedLap && fastestCorrected
+                    ? fastestCorrected.durationMs - fastestCorrectedLap.durationMs
+                    : null,
+                stints: session.getStints(vehicleId).map(stint => stint.toJSON()),
+                pitStops: [...session.getPitStops(vehicleId)],
+                finalPosition: finalPositions.get(vehicleId) ?? null,
+                racePace: paceService.analyzeVehicle(laps, session.getStints(vehicleId), pace)
             });
         }
 
@@ -74,9 +120,11 @@ export class AnalyzeRaceSession {
         return {
             sessionStats: stats,
             vehicleAnalysis,
+            positionHistory,
+            cautionPeriods: [...session.cautionPeriods],
             trackInfo: {
-                name: sessionData.trackName,
-                lengthKm: sessionData.trackLengthKm
+                name: session.trackName,
+                lengthKm: session.trackLengthKm
             }
         };
     }
@@ -90,6 +138,14 @@ export interface SessionInput {
     sessionDate: string | Date;
 }
 
+export interface AnalyzeRaceSessionOptions {
+    fuel?: Partial<FuelCorrectionOptions>; // fuel model for the corrected figures
+    pitDetection?: PitDetectionSessionInput; // the telemetry also feeds caution detection
+    cautions?: CautionSessionInput;
+    pace?: Partial<RacePaceOptions>; // green-flag race pace figures
+    validity?: LapValiditySessionInput;
+}
+
 export interface SessionAnalysis {
     sessionStats: {
         totalVehicles: number;
@@ -99,6 +155,8 @@ export interface SessionAnalysis {
         sessionDuration: number;
     };
     vehicleAnalysis: VehicleAnalysis[];
+    positionHistory: LapPosition[]; // by lap, then position
+    cautionPeriods: CautionPeriod[];
     trackInfo: {
         name: string;
         lengthKm: number;
@@ -110,8 +168,35 @@ export interface VehicleAnalysis {
     chassis: string;
     carNumber: number;
     totalLaps: number;
+    cautionLaps: number;
+    trafficLaps: number; // spent in traffic or in a slipstream
+    invalidLaps: number; // track-limits excursions
     fastestLapTime: number | null;
     averageLapTime: number | null;
     consistency: number | null;
     gapToLeader: number | null;
+    // Same figures on a fuel-corrected basis
+    fastestLapTimeCorrected: number | null;
+    averageLapTimeCorrected: number | null;
+    consistencyCorrected: number | null;
+    gapToLeaderCorrected: number | null;
+    stints: StintSummary[];
+    pitStops: PitStop[];
+    finalPosition: number | null; // running order after the car's last lap
+    racePace: VehiclePace | null; // green-flag pace from clean laps
+}
+
+export interface PitDetectionSessionInput {
+    telemetry?: ReadonlyMap<string, TelemetryFrame[]>; // vehicleId-lap -> frames
+    pitLane?: GeoPoint[];
+    options?: Partial<PitDetectionOptions>;
+}
+
+export interface CautionSessionInput {
+    includeCautionLaps?: boolean; // count caution laps in pace figures (default false)
+    options?: Partial<CautionDetectionOptions>;
+}
+
+export interface LapValiditySessionInput {
+    includeInvalidLaps?: boolean; // let laps invalidated by track limits be fastest laps (default false)
 }
@@ -0,0 +1,71 @@
+import { ILapRepository } from '@/domain/repositories/ILapRepository';
+import { Lap } from '@/domain/entities/Lap';
+import { TyreDegradationService, DegradationOptions, VehicleDegradation } from '@/domain/services/TyreDegradationService';
+import { FuelCorrectionModel, FuelCorrectionOptions } from '@/domain/services/FuelCorrectionModel';
+import { SessionInput, PitDetectionSessionInput } from './AnalyzeRaceSession';
+import { LoadRaceSession, LoadedRaceSession } from './LoadRaceSession';
+
+/**
+ * Use Case: AnalyzeTyreDegradation
+ * Fits a per-stint degradation model for every car in the session.
+ * Caution laps are tagged across the field first so the fit leaves them out,
+ * and stints come from pit detection with the loaded telemetry.
+ *
+ * Design Pattern: Command Pattern
+ * SOLID Principles:
+ * - Single Responsibility: Only orchestrates the degradation analysis
+ * - Dependency Inversion: Depends on the lap repository interface
+ */
+export class AnalyzeTyreDegradation {
+    private readonly degradationService: TyreDegradationService;
+
+    constructor(private readonly lapRepository: ILapRepository) {
+        this.degradationService = new TyreDegradationService();
+    }
+
+    /**
+     * Execute degradation analysis
+     * @param fuel Fit fuel-corrected lap times with this model; raw times when null
+     * @param pitDetection Loaded telemetry and pit lane for stint detection
+     * @returns One entry per car, ordered by vehicle id
+     */
+    async execute(
+        sessionData: SessionInput,
+        options: Partial<DegradationOptions> = {},
+        fuel: Partial<FuelCorrectionOptions> | null = null,
+        pitDetection: PitDetectionSessionInput = {}
+    ): Promise<VehicleDegradation[]> {
+        const loaded = await new LoadRaceSession(this.lapRepository).execute(sessionData, { pitDetection });
+        return this.analyze(loaded, options, fuel);
+    }
+
+    /**
+     * Fit the stints of a session that is already loaded
+     * Stints come from pit detection on the raw laps; corrected laps are
+     * matched to them by lap number.
+     */
+    analyze(
+        loaded: LoadedRaceSession,
+        options: Partial<DegradationOptions> = {},
+        fuel: Partial<FuelCorrectionOptions> | null = null
+    ): VehicleDegradation[] {
+        const { session } = loaded;
+        const allLaps = session.vehicles.flatMap(vehicle => [...session.getLapsByVehicle(vehicle.id)]);
+        const laps = fuel ? new FuelCorrectionModel(fuel).correctLaps(allLaps) : allLaps;
+
+        const byVehicle = new Map<string, Lap[]>();
+        for (const lap of laps) {
+            const list = byVehicle.get(lap.vehicle.id) ?? [];
+            list.push(lap);
+            byVehicle.set(lap.vehicle.id, list);
+        }
+
+        const results: VehicleDegradation[] = [];
+        for (const [vehicleId, vehicleLaps] of byVehicle) {
+            const analysis = this.degradationService.analyzeVehicle(vehicleLaps, options, session.getStints(vehicleId));
+            if (analysis) results.push(analysis);
+        }
+
+        return results.sort((a, b) => a.vehicleId.localeCompare(b.vehicleId, undefined, { numeric: true }));
+    }
+}
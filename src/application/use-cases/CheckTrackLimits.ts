@@ -0,0 +1,69 @@
+import { ITelemetryRepository } from '@/domain/repositories/ITelemetryRepository';
+import { ILapRepository } from '@/domain/repositories/ILapRepository';
+import { Lap } from '@/domain/entities/Lap';
+import { TelemetryFrame } from '@/domain/entities/TelemetryFrame';
+import { TrackBoundary } from '@/domain/entities/TrackBoundary';
+import {
+    LapLimitsCheck,
+    TrackExcursion,
+    TrackLimitsChecker,
+    TrackLimitsOptions
+} from '@/domain/services/TrackLimitsChecker';
+import { TagLapsFromTelemetry } from './TagLapsFromTelemetry';
+
+/**
+ * Use Case: CheckTrackLimits
+ * Checks every lap with loaded telemetry against the track boundary and
+ * marks laps with an excursion invalid in the lap repository, so fastest
+ * lap and reference lap choices that read it skip them.
+ *
+ * Design Pattern: Command Pattern
+ * SOLID Principles:
+ * - Single Responsibility: Only orchestrates the track-limits check
+ * - Dependency Inversion: Depends on repository interfaces
+ */
+export class CheckTrackLimits extends TagLapsFromTelemetry<LapLimitsCheck, TrackLimitsRun> {
+    private readonly checker: TrackLimitsChecker;
+
+    constructor(telemetryRepository: ITelemetryRepository, lapRepository: ILapRepository) {
+        super(telemetryRepository, lapRepository);
+        this.checker = new TrackLimitsChecker();
+    }
+
+    /**
+     * Execute the track-limits check
+     * @returns Per-lap checks, every excursion, and the (re)validated laps of every car checked
+     */
+    async execute(boundary: TrackBoundary, options: Partial<TrackLimitsOptions> = {}): Promise<CheckTrackLimitsResponse> {
+        const { results, laps } = await this.run({ boundary, options });
+        return {
+            checks: results,
+            excursions: results.flatMap(c => c.excursions),
+            laps
+        };
+    }
+
+    protected async analyzeLap(
+        _lap: Lap,
+        frames: TelemetryFrame[],
+        _vehicleIds: string[],
+        { boundary, options }: TrackLimitsRun
+    ): Promise<LapLimitsCheck | null> {
+        return this.checker.checkLap(frames, boundary, options);
+    }
+
+    protected tagLaps(laps: Lap[], checks: LapLimitsCheck[]): Lap[] {
+        return this.checker.validateLaps(laps, checks);
+    }
+}
+
+interface TrackLimitsRun {
+    boundary: TrackBoundary;
+    options: Partial<TrackLimitsOptions>;
+}
+
+export interface CheckTrackLimitsResponse {
+    checks: LapLimitsCheck[]; // laps with loaded telemetry
+    excursions: TrackExcursion[];
+    laps: Lap[]; // every lap of the cars checked, marked valid or invalid
+}
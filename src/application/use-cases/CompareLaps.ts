@@ -1,12 +1,12 @@
 import { ITelemetryRepository } from '@/domain/repositories/ITelemetryRepository';
-import { TelemetryAnalysisService, LapComparison } from '@/domain/services/TelemetryAnalysisService';
+import { TelemetryAnalysisService, LapComparison, LapAlignment, DeltaPoint } from '@/domain/services/TelemetryAnalysisService';
 
 /**
  * Use Case: CompareLaps
  * Compares telemetry data between two laps.
  * 
  * Design Pattern: Command Pattern
- * Algorithm: Time-series alignment and delta calculation
+ * Algorithm: Distance (or track position) alignment and running time delta
  * 
  * SOLID Principles:
  * - Single Responsibility: Only handles lap comparison
@@ -47,7 +47,9 @@ export class CompareLaps {
         }
 
         // Perform comparison
-        const comparison = this.analysisService.compareLaps(lap1Frames, lap2Frames);
+        const comparison = this.analysisService.compareLaps(lap1Frames, lap2Frames, {
+            alignment: request.alignment
+        });
 
         return {
             vehicleId1: request.vehicleId1,
@@ -55,6 +57,7 @@ export class CompareLaps {
             vehicleId2: request.vehicleId2,
             lap2: request.lap2,
             comparison,
+            deltaTrace: comparison.deltaTrace,
             lap1FrameCount: lap1Frames.length,
             lap2FrameCount: lap2Frames.length
         };
@@ -81,6 +84,7 @@ export interface CompareLapsRequest {
     lap1: number;
     vehicleId2: string;
     lap2: number;
+    alignment?: LapAlignment;
 }
 
 export interface CompareLapsResponse {
@@ -89,6 +93,7 @@ export interface CompareLapsResponse {
     vehicleId2: string;
     lap2: number;
     comparison: LapComparison;
+    deltaTrace: DeltaPoint[];
     lap1FrameCount: number;
     lap2FrameCount: number;
 }
@@ -0,0 +1,60 @@
+import { ILapRepository } from '@/domain/repositories/ILapRepository';
+import { TrackLayout } from '@/domain/entities/TrackLayout';
+import { OvertakeDetector, Overtake, OvertakeOptions } from '@/domain/services/OvertakeDetector';
+import { SessionInput, PitDetectionSessionInput } from './AnalyzeRaceSession';
+import { LoadRaceSession, LoadedRaceSession } from './LoadRaceSession';
+
+/**
+ * Use Case: DetectOvertakes
+ * Finds every pass between cars in the loaded laps, with each car's in and
+ * out laps from pit detection so passes in the pit sequence can be told apart.
+ *
+ * Design Pattern: Command Pattern
+ * SOLID Principles:
+ * - Single Responsibility: Only orchestrates overtake detection
+ * - Dependency Inversion: Depends on the lap repository interface
+ */
+export class DetectOvertakes {
+    constructor(private readonly lapRepository: ILapRepository) { }
+
+    /**
+     * Execute overtake detection
+     * @param pitDetection Loaded telemetry (vehicleId-lap -> frames) and pit lane
+     * @returns Passes in session-clock order
+     */
+    async execute(
+        sessionData: SessionInput,
+        pitDetection: PitDetectionSessionInput = {},
+        layout: TrackLayout | null = null,
+        options: Partial<OvertakeOptions> = {}
+    ): Promise<Overtake[]> {
+        const loaded = await new LoadRaceSession(this.lapRepository).execute(sessionData, { pitDetection });
+        return this.detect(loaded, layout, options);
+    }
+
+    /**
+     * Detect the passes of a session that is already loaded
+     * @returns Passes in session-clock order
+     */
+    detect(
+        loaded: LoadedRaceSession,
+        layout: TrackLayout | null = null,
+        options: Partial<OvertakeOptions> = {}
+    ): Overtake[] {
+        const { session, telemetry } = loaded;
+
+        // In laps and out laps of every car
+        const pitLaps = new Map<string, Set<number>>();
+        for (const vehicle of session.vehicles) {
+            const set = new Set<number>();
+            for (const stint of session.getStints(vehicle.id)) {
+                if (stint.startsFromPit) set.add(stint.startLap);
+                if (stint.endsInPit) set.add(stint.endLap);
+            }
+            pitLaps.set(vehicle.id, set);
+        }
+
+        const laps = session.vehicles.flatMap(vehicle => [...session.getLapsByVehicle(vehicle.id)]);
+        return new OvertakeDetector().detect(laps, telemetry, layout, pitLaps, options);
+    }
+}
@@ -0,0 +1,87 @@
+import { ITelemetryRepository } from '@/domain/repositories/ITelemetryRepository';
+import { ILapRepository } from '@/domain/repositories/ILapRepository';
+import { Lap } from '@/domain/entities/Lap';
+import { TelemetryFrame } from '@/domain/entities/TelemetryFrame';
+import { TrafficDetector, LapTraffic, TrafficDetectionOptions } from '@/domain/services/TrafficDetector';
+import { TagLapsFromTelemetry } from './TagLapsFromTelemetry';
+
+/**
+ * Use Case: DetectTraffic
+ * Gap to the car ahead through every lap with loaded telemetry, against
+ * the other cars' laps that overlap it on the official lap times, read by
+ * session time range. Laps
+ * spent mostly close behind another car are tagged in the lap repository,
+ * so the pace and comparison analyses that read it see the tags.
+ *
+ * Design Pattern: Command Pattern
+ * SOLID Principles:
+ * - Single Responsibility: Only orchestrates traffic detection
+ * - Dependency Inversion: Depends on repository interfaces
+ */
+export class DetectTraffic extends TagLapsFromTelemetry<LapTraffic, Partial<TrafficDetectionOptions>> {
+    // How far a logger clock may be off the official lap times
+    private static readonly CLOCK_TOLERANCE_MS = 60000;
+
+    private readonly detector: TrafficDetector;
+
+    constructor(telemetryRepository: ITelemetryRepository, lapRepository: ILapRepository) {
+        super(telemetryRepository, lapRepository);
+        this.detector = new TrafficDetector();
+    }
+
+    /**
+     * Execute traffic detection
+     * @returns Per-lap results and the (re)tagged laps of every car analysed
+     */
+    async execute(options: Partial<TrafficDetectionOptions> = {}): Promise<DetectTrafficResponse> {
+        const { results, laps } = await this.run(options);
+        return { traffic: results, laps };
+    }
+
+    protected async analyzeLap(
+        lap: Lap,
+        frames: TelemetryFrame[],
+        vehicleIds: string[],
+        options: Partial<TrafficDetectionOptions>
+    ): Promise<LapTraffic | null> {
+        if (frames.length < 2) return null;
+        const vehicleId = lap.vehicle.id;
+
+        // Everyone else's laps overlapping this one on the official lap times,
+        // read in one time-range query per car. Whole laps are kept, since
+        // frames are put on the session clock per lap: the query spans the
+        // overlapping laps plus the logger clock tolerance, and frames of
+        // other laps at its edges are dropped.
+        const padMs = options.maxGapMs ?? 2000;
+        const start = lap.startTime.getTime() - padMs;
+        const end = lap.endTime.getTime() + padMs;
+        const lapStarts = new Map([[`${vehicleId}-${lap.lapNumber}`, lap.startTime]]);
+        const others = new Map<string, TelemetryFrame[]>();
+        for (const otherId of vehicleIds) {
+            if (otherId === vehicleId) continue;
+            const overlapping = (await this.lapRepository.getLapsByVehicle(otherId))
+                .filter(other => other.endTime.getTime() >= start && other.startTime.getTime() <= end);
+            if (overlapping.length === 0) continue;
+
+            overlapping.forEach(other => lapStarts.set(`${otherId}-${other.lapNumber}`, other.startTime));
+            const lapNumbers = new Set(overlapping.map(other => other.lapNumber));
+            const from = Math.min(...overlapping.map(other => other.startTime.getTime())) - DetectTraffic.CLOCK_TOLERANCE_MS;
+            const to = Math.max(...overlapping.map(other => other.endTime.getTime())) + DetectTraffic.CLOCK_TOLERANCE_MS;
+            const window = (await this.telemetryRepository.getTelemetryByTimeRange(otherId, new Date(from), new Date(to)))
+                .filter(frame => lapNumbers.has(frame.lap));
+            if (window.length > 0) others.set(otherId, window);
+        }
+
+        const result = this.detector.analyzeLap(frames, others, lapStarts, options);
+        return result ? { ...result, vehicleId, lapNumber: lap.lapNumber } : null;
+    }
+
+    protected tagLaps(laps: Lap[], traffic: LapTraffic[]): Lap[] {
+        return this.detector.tagLaps(laps, traffic);
+    }
+}
+
+export interface DetectTrafficResponse {
+    traffic: LapTraffic[]; // laps with loaded telemetry
+    laps: Lap[]; // every lap of the cars analysed, with traffic tags
+}
@@ -0,0 +1,78 @@
+import { ILapRepository } from '@/domain/repositories/ILapRepository';
+import { RaceSession } from '@/domain/entities/RaceSession';
+import { TelemetryFrame } from '@/domain/entities/TelemetryFrame';
+import { PitStopDetector } from '@/domain/services/PitStopDetector';
+import { CautionDetector, CautionDetectionOptions } from '@/domain/services/CautionDetector';
+import { SessionInput, PitDetectionSessionInput } from './AnalyzeRaceSession';
+
+/**
+ * Use Case: LoadRaceSession
+ * Builds the race session every session analysis starts from: all loaded
+ * laps with caution laps tagged across the field, and each car's stints and
+ * pit stops. Loaded telemetry feeds both detectors.
+ *
+ * Design Pattern: Command Pattern
+ * SOLID Principles:
+ * - Single Responsibility: Only assembles the session
+ * - Dependency Inversion: Depends on the lap repository interface
+ */
+export class LoadRaceSession {
+    constructor(private readonly lapRepository: ILapRepository) { }
+
+    /**
+     * Execute session loading
+     * @param options Pit detection inputs (telemetry, pit lane) and caution
+     *                detection options
+     */
+    async execute(sessionData: SessionInput, options: LoadRaceSessionOptions = {}): Promise<LoadedRaceSession> {
+        const { pitDetection = {}, cautions } = options;
+        const rawLaps = await this.lapRepository.getAllLaps();
+
+        // Loaded telemetry per car and lap
+        const telemetry = new Map<string, Map<number, TelemetryFrame[]>>();
+        for (const lap of rawLaps) {
+            const frames = pitDetection.telemetry?.get(`${lap.vehicle.id}-${lap.lapNumber}`);
+            if (!frames || frames.length === 0) continue;
+            const byLap = telemetry.get(lap.vehicle.id) ?? new Map<number, TelemetryFrame[]>();
+            byLap.set(lap.lapNumber, frames);
+            telemetry.set(lap.vehicle.id, byLap);
+        }
+
+        // Tag caution laps across the field
+        const { periods, laps } = new CautionDetector().analyze(rawLaps, { telemetry, options: cautions });
+        const session = new RaceSession({
+            sessionId: sessionData.sessionId,
+            sessionName: sessionData.sessionName,
+            trackName: sessionData.trackName,
+            trackLengthKm: sessionData.trackLengthKm,
+            sessionDate: sessionData.sessionDate
+        });
+        for (const lap of laps) {
+            session.addLap(lap);
+        }
+        session.setCautionPeriods(periods);
+
+        // Pit stops and stints per car
+        const detector = new PitStopDetector();
+        for (const vehicle of session.vehicles) {
+            const { pitStops, stints } = detector.analyze(session.getLapsByVehicle(vehicle.id), {
+                telemetry: telemetry.get(vehicle.id),
+                pitLane: pitDetection.pitLane,
+                options: pitDetection.options
+            });
+            session.setStints(vehicle.id, stints, pitStops);
+        }
+
+        return { session, telemetry };
+    }
+}
+
+export interface LoadRaceSessionOptions {
+    pitDetection?: PitDetectionSessionInput; // the telemetry also feeds caution detection
+    cautions?: Partial<CautionDetectionOptions>;
+}
+
+export interface LoadedRaceSession {
+    session: RaceSession; // caution laps tagged, stints and pit stops set
+    telemetry: Map<string, Map<number, TelemetryFrame[]>>; // vehicleId -> lap -> frames
+}
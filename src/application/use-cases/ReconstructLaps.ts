@@ -0,0 +1,108 @@
+import { ITelemetryRepository } from '@/domain/repositories/ITelemetryRepository';
+import { ILapRepository } from '@/domain/repositories/ILapRepository';
+import { TimingLine } from '@/domain/entities/TimingLine';
+import { Vehicle } from '@/domain/entities/Vehicle';
+import { Lap } from '@/domain/entities/Lap';
+import { TelemetryFrame } from '@/domain/entities/TelemetryFrame';
+import {
+    LapDiscrepancy,
+    LapReconstructionService
+} from '@/domain/services/LapReconstructionService';
+import { LapDistanceCalculator, LapDistanceMethod } from '@/domain/services/LapDistanceCalculator';
+
+/**
+ * Use Case: ReconstructLaps
+ * Rebuilds a vehicle's laps from GPS timing line crossings and checks them
+ * against the laps loaded from the timing files. When replacing, the laps
+ * and the relabelled frames both go to the repositories, so analyses that
+ * read frames by lap see the new boundaries.
+ *
+ * Design Pattern: Command Pattern
+ * SOLID Principles:
+ * - Single Responsibility: Only handles lap reconstruction
+ * - Dependency Inversion: Depends on repository interfaces
+ */
+export class ReconstructLaps {
+    private readonly reconstructionService: LapReconstructionService;
+
+    constructor(
+        private readonly telemetryRepository: ITelemetryRepository,
+        private readonly lapRepository: ILapRepository
+    ) {
+        this.reconstructionService = new LapReconstructionService();
+    }
+
+    /**
+     * Execute lap reconstruction
+     */
+    async execute(request: ReconstructLapsRequest): Promise<ReconstructLapsResponse> {
+        if (!request.vehicleId || request.vehicleId.trim() === '') {
+            throw new Error('Vehicle ID is required');
+        }
+
+        // Every loaded frame for the vehicle, regardless of its logged lap number
+        const frames = await this.telemetryRepository.getTelemetryByTimeRange(
+            request.vehicleId,
+            new Date(0),
+            new Date(8.64e15)
+        );
+        if (frames.length === 0) {
+            throw new Error(`No telemetry data found for vehicle ${request.vehicleId}`);
+        }
+
+        const timedLaps = await this.lapRepository.getLapsByVehicle(request.vehicleId);
+        const vehicle = timedLaps[0]?.vehicle ?? Vehicle.fromId(request.vehicleId);
+
+        const reconstruction = this.reconstructionService.reconstruct(
+            frames,
+            vehicle,
+            request.timingLine,
+            { firstLapNumber: request.firstLapNumber, minLapTimeMs: request.minLapTimeMs }
+        );
+
+        if (reconstruction.laps.length === 0) {
+            throw new Error('Fewer than two timing line crossings found; check the line position');
+        }
+
+        const discrepancies = this.reconstructionService.compareWithTimedLaps(
+            reconstruction.laps,
+            timedLaps
+        );
+
+        // Distances restart at the new lap boundaries
+        const relabelled = new LapDistanceCalculator().apply(reconstruction.frames, request.lapDistance);
+        let laps = reconstruction.laps;
+
+        if (request.replaceLaps) {
+            laps = this.reconstructionService.withTimedLapData(laps, timedLaps);
+            await this.lapRepository.replaceLaps(request.vehicleId, laps);
+            await this.telemetryRepository.clearVehicle(request.vehicleId);
+            await this.telemetryRepository.saveTelemetry(relabelled);
+        }
+
+        return {
+            vehicleId: request.vehicleId,
+            laps,
+            frames: relabelled,
+            crossingCount: reconstruction.crossings.length,
+            discrepancies
+        };
+    }
+}
+
+export interface ReconstructLapsRequest {
+    vehicleId: string;
+    timingLine: TimingLine;
+    firstLapNumber?: number;
+    minLapTimeMs?: number;
+    replaceLaps?: boolean;
+    lapDistance?: LapDistanceMethod; // for the relabelled frames (default 'speed')
+}
+
+export interface ReconstructLapsResponse {
+    vehicleId: string;
+    laps: Lap[];
+    frames: TelemetryFrame[]; // relabelled, with lap distances
+    crossingCount: number;
+    discrepancies: LapDiscrepancy[];
+}
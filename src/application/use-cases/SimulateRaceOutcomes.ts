@@ -0,0 +1,107 @@
+import { ILapRepository } from '@/domain/repositories/ILapRepository';
+import { RaceSession } from '@/domain/entities/RaceSession';
+import { FuelCorrectionModel, FuelCorrectionOptions } from '@/domain/services/FuelCorrectionModel';
+import { StrategySimulator } from '@/domain/services/StrategySimulator';
+import {
+    MonteCarloRaceSimulator,
+    MonteCarloCar,
+    MonteCarloInput,
+    MonteCarloOptions,
+    MonteCarloResult
+} from '@/domain/services/MonteCarloRaceSimulator';
+import { SessionInput, PitDetectionSessionInput } from './AnalyzeRaceSession';
+import { LoadRaceSession } from './LoadRaceSession';
+
+/**
+ * Use Case: SimulateRaceOutcomes
+ * Monte Carlo finishing positions for the whole field under each car's
+ * candidate strategies.
+ *
+ * Lap-time variance is the car's lap consistency (RaceSession.getLapConsistency)
+ * over its fuel-corrected green-flag laps, in and out laps left out, so the
+ * fuel effect and pit laps the model already simulates are not counted again
+ * as noise. Cars without enough such laps fall back to the spread about their
+ * degradation fit.
+ *
+ * Design Pattern: Command Pattern
+ * SOLID Principles:
+ * - Single Responsibility: Builds the simulation input, the runner runs it
+ * - Dependency Inversion: Depends on the lap repository and runner interfaces
+ */
+export class SimulateRaceOutcomes {
+    constructor(
+        private readonly lapRepository: ILapRepository,
+        private readonly runner: IMonteCarloRunner
+    ) { }
+
+    /**
+     * Execute the simulation
+     * @param onProgress Called with completed and total runs
+     */
+    async execute(
+        sessionData: SessionInput,
+        options: Partial<MonteCarloOptions> = {},
+        fuel: Partial<FuelCorrectionOptions> = {},
+        pitDetection: PitDetectionSessionInput = {},
+        onProgress?: (completed: number, total: number) => void
+    ): Promise<MonteCarloResult> {
+        const { session } = await new LoadRaceSession(this.lapRepository).execute(sessionData, { pitDetection });
+        const strategySimulator = new StrategySimulator();
+        const models = session.vehicles
+            .map(vehicle => StrategySimulator.modelFromSession(session, vehicle.id, fuel))
+            .filter((model): model is NonNullable<typeof model> => model !== null);
+        const raceLaps = Math.max(0, ...models.map(m => m.raceLaps));
+        const consistency = this.greenFlagSession(session, fuel);
+
+        const cars: MonteCarloCar[] = models
+            .map(model => ({ ...model, raceLaps }))
+            .map(model => ({
+                vehicleId: model.vehicleId,
+                model,
+                lapStdMs: consistency.getLapConsistency(model.vehicleId, false) ?? model.lapNoiseMs,
+                strategies: MonteCarloRaceSimulator.strategiesFor(strategySimulator.sweep(model))
+            }))
+            .sort((a, b) => a.vehicleId.localeCompare(b.vehicleId, undefined, { numeric: true }));
+
+        if (cars.length === 0) {
+            throw new Error('No car has enough clean laps to simulate');
+        }
+
+        return this.runner.run({ raceLaps, cars, options }, onProgress);
+    }
+
+    /**
+     * Session of fuel-corrected laps without each car's in and out laps
+     */
+    private greenFlagSession(session: RaceSession, fuel: Partial<FuelCorrectionOptions>): RaceSession {
+        const pitLaps = new Map<string, Set<number>>();
+        for (const vehicle of session.vehicles) {
+            const set = new Set<number>();
+            for (const stint of session.getStints(vehicle.id)) {
+                if (stint.startsFromPit) set.add(stint.startLap);
+                if (stint.endsInPit) set.add(stint.endLap);
+            }
+            pitLaps.set(vehicle.id, set);
+        }
+
+        const greenFlag = new RaceSession({
+            sessionId: session.sessionId,
+            sessionName: session.sessionName,
+            trackName: session.trackName,
+            trackLengthKm: session.trackLengthKm,
+            sessionDate: session.sessionDate
+        });
+        const allLaps = session.vehicles.flatMap(vehicle => [...session.getLapsByVehicle(vehicle.id)]);
+        for (const lap of new FuelCorrectionModel(fuel).correctLaps(allLaps)) {
+            if (!pitLaps.get(lap.vehicle.id)?.has(lap.lapNumber)) greenFlag.addLap(lap);
+        }
+        return greenFlag;
+    }
+}
+
+/**
+ * Runs a Monte Carlo input, e.g. in a Web Worker
+ */
+export interface IMonteCarloRunner {
+    run(input: MonteCarloInput, onProgress?: (completed: number, total: number) => void): Promise<MonteCarloResult>;
+}
@@ -0,0 +1,53 @@
+import { ILapRepository } from '@/domain/repositories/ILapRepository';
+import { RaceSession } from '@/domain/entities/RaceSession';
+import { FuelCorrectionOptions } from '@/domain/services/FuelCorrectionModel';
+import { StrategySimulator, StrategyModel, ModelOptions } from '@/domain/services/StrategySimulator';
+import { SessionInput, PitDetectionSessionInput } from './AnalyzeRaceSession';
+import { LoadRaceSession } from './LoadRaceSession';
+
+/**
+ * Use Case: SimulateRaceStrategy
+ * Measures a strategy model (base pace, degradation, fuel effect, pit loss)
+ * for every car in the session. The pit-lap sweep itself is cheap and runs
+ * on the returned models, so inputs can be edited without re-measuring.
+ *
+ * Design Pattern: Command Pattern
+ * SOLID Principles:
+ * - Single Responsibility: Only orchestrates model measurement
+ * - Dependency Inversion: Depends on the lap repository interface
+ */
+export class SimulateRaceStrategy {
+    constructor(private readonly lapRepository: ILapRepository) { }
+
+    /**
+     * Execute model measurement
+     * @returns One model per car with enough clean laps, ordered by vehicle id
+     */
+    async execute(
+        sessionData: SessionInput,
+        fuel: Partial<FuelCorrectionOptions> = {},
+        pitDetection: PitDetectionSessionInput = {},
+        options: Partial<ModelOptions> = {}
+    ): Promise<StrategyModel[]> {
+        const { session } = await new LoadRaceSession(this.lapRepository).execute(sessionData, { pitDetection });
+        return this.measure(session, fuel, options);
+    }
+
+    /**
+     * Measure the models of a session that is already loaded
+     * @param session Session with caution laps tagged and stints set (see LoadRaceSession)
+     */
+    measure(
+        session: RaceSession,
+        fuel: Partial<FuelCorrectionOptions> = {},
+        options: Partial<ModelOptions> = {}
+    ): StrategyModel[] {
+        const models: StrategyModel[] = [];
+        for (const vehicle of session.vehicles) {
+            const model = StrategySimulator.modelFromSession(session, vehicle.id, fuel, options);
+            if (model) models.push(model);
+        }
+
+        return models.sort((a, b) => a.vehicleId.localeCompare(b.vehicleId, undefined, { numeric: true }));
+    }
+}
@@ -0,0 +1,86 @@
+import { ITelemetryRepository } from '@/domain/repositories/ITelemetryRepository';
+import { ILapRepository } from '@/domain/repositories/ILapRepository';
+import { Lap } from '@/domain/entities/Lap';
+import { TelemetryFrame } from '@/domain/entities/TelemetryFrame';
+
+/**
+ * Abstract Base Class: TagLapsFromTelemetry
+ * The loop shared by use cases that tag laps from their telemetry (traffic,
+ * track limits): every lap with loaded frames is analysed, then each car's
+ * laps are tagged and saved.
+ *
+ * Two of these started by the same telemetry change would otherwise
+ * interleave their reads and writes of the lap repository, and whichever
+ * saved last would drop the other's tag. So runs are queued one after the
+ * other, and each car's laps are re-read just before they are tagged.
+ *
+ * Design Pattern: Template Method
+ * - run() defines the loop
+ * - Subclasses analyse one lap and tag a car's laps from the results
+ */
+export abstract class TagLapsFromTelemetry<TResult, TOptions> {
+    // Runs of every subclass, one after the other
+    private static queue: Promise<unknown> = Promise.resolve();
+
+    constructor(
+        protected readonly telemetryRepository: ITelemetryRepository,
+        protected readonly lapRepository: ILapRepository
+    ) { }
+
+    /**
+     * Analyse one lap's frames
+     * @param vehicleIds Every car with loaded telemetry
+     * @returns null when the lap cannot be judged
+     */
+    protected abstract analyzeLap(
+        lap: Lap,
+        frames: TelemetryFrame[],
+        vehicleIds: string[],
+        options: TOptions
+    ): Promise<TResult | null>;
+
+    /**
+     * Copies of a car's laps with this use case's field set from the results;
+     * laps without a result must come back unchanged
+     */
+    protected abstract tagLaps(laps: Lap[], results: TResult[]): Lap[];
+
+    /**
+     * Template Method: Analyse every lap with telemetry, then tag and save
+     * each car's laps; queued behind any run already in progress
+     */
+    protected run(options: TOptions): Promise<TaggedLaps<TResult>> {
+        const run = TagLapsFromTelemetry.queue.then(() => this.tagAll(options));
+        TagLapsFromTelemetry.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    private async tagAll(options: TOptions): Promise<TaggedLaps<TResult>> {
+        const vehicleIds = await this.telemetryRepository.getAllVehicleIds();
+        const results: TResult[] = [];
+        const laps: Lap[] = [];
+
+        for (const vehicleId of vehicleIds) {
+            const vehicleResults: TResult[] = [];
+            for (const lap of await this.lapRepository.getLapsByVehicle(vehicleId)) {
+                const frames = await this.telemetryRepository.getTelemetryByVehicleAndLap(vehicleId, lap.lapNumber);
+                const result = await this.analyzeLap(lap, frames, vehicleIds, options);
+                if (result) vehicleResults.push(result);
+            }
+            if (vehicleResults.length === 0) continue;
+
+            // The latest laps, so fields set elsewhere in the meantime are kept
+            const tagged = this.tagLaps(await this.lapRepository.getLapsByVehicle(vehicleId), vehicleResults);
+            await this.lapRepository.saveLaps(tagged);
+            results.push(...vehicleResults);
+            laps.push(...tagged);
+        }
+
+        return { results, laps };
+    }
+}
+
+export interface TaggedLaps<TResult> {
+    results: TResult[]; // laps with loaded telemetry
+    laps: Lap[]; // every lap of the cars analysed, tagged
+}
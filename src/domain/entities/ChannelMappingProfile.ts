@@ -0,0 +1,189 @@
+/**
+ * Domain Entity: ChannelMappingProfile
+ * Describes how a series' logger channel and column names map onto
+ * TelemetryFrameData fields, including a unit conversion per field.
+ *
+ * OOP Principles Applied:
+ * - Encapsulation: Mapping tables are private, exposed through lookups
+ * - Immutability: Edits produce a new profile (see withChanges)
+ * - Business Logic: Channel resolution and profile matching
+ */
+export class ChannelMappingProfile {
+    private readonly _id: string;
+    private readonly _name: string;
+    private readonly _builtIn: boolean;
+    private readonly _channels: Record<MappedField, ChannelMapping>;
+    private readonly _headers: Record<HeaderField, string[]>;
+
+    constructor(data: ChannelMappingProfileData) {
+        if (!data.id || data.id.trim() === '') {
+            throw new Error('Profile ID is required');
+        }
+        if (!data.name || data.name.trim() === '') {
+            throw new Error('Profile name is required');
+        }
+        for (const field of MAPPED_FIELDS) {
+            const mapping = data.channels[field];
+            if (!mapping || !Number.isFinite(mapping.scale) || !Number.isFinite(mapping.offset)) {
+                throw new Error(`Invalid mapping for ${field}`);
+            }
+        }
+
+        this._id = data.id;
+        this._name = data.name;
+        this._builtIn = data.builtIn ?? false;
+        this._channels = data.channels;
+        this._headers = data.headers;
+    }
+
+    get id(): string { return this._id; }
+    get name(): string { return this._name; }
+    get builtIn(): boolean { return this._builtIn; }
+
+    /**
+     * Get the mapping configured for a frame field
+     */
+    getMapping(field: MappedField): ChannelMapping {
+        return this._channels[field];
+    }
+
+    /**
+     * Get the accepted column names for a header field
+     */
+    getHeaderAliases(field: HeaderField): string[] {
+        return this._headers[field];
+    }
+
+    /**
+     * Business Logic: Read a header field from a raw CSV row using the aliases
+     */
+    readHeader<T>(raw: Record<string, T>, field: HeaderField): T | undefined {
+        for (const alias of this._headers[field]) {
+            if (raw[alias] !== undefined && raw[alias] !== null && raw[alias] !== '') {
+                return raw[alias];
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Business Logic: Resolve a field from channel values, converted to frame units
+     * @param metrics Channel name (lowercase) -> raw value
+     * @returns Converted value, or undefined if no source channel is present
+     */
+    resolve(field: MappedField, metrics: ReadonlyMap<string, number>): number | undefined {
+        const mapping = this._channels[field];
+        const values = mapping.sources
+            .map(source => metrics.get(source.toLowerCase()))
+            .filter((value): value is number => typeof value === 'number' && Number.isFinite(value));
+
+        if (values.length === 0) return undefined;
+
+        const raw = mapping.combine === 'max' ? Math.max(...values) : values[0];
+        return raw * mapping.scale + mapping.offset;
+    }
+
+    /**
+     * Check whether a channel name is a source for any field
+     */
+    fieldForChannel(channel: string): MappedField | undefined {
+        const name = channel.toLowerCase();
+        return MAPPED_FIELDS.find(field =>
+            this._channels[field].sources.some(source => source.toLowerCase() === name)
+        );
+    }
+
+    /**
+     * Business Logic: Score how well this profile covers a set of channel names
+     * @returns Fraction (0-1) of mapped fields with at least one source present
+     */
+    matchScore(channelNames: string[]): number {
+        const available = new Set(channelNames.map(name => name.toLowerCase()));
+        const matched = MAPPED_FIELDS.filter(field =>
+            this._channels[field].sources.some(source => available.has(source.toLowerCase()))
+        );
+        return matched.length / MAPPED_FIELDS.length;
+    }
+
+    /**
+     * Create an edited copy of this profile
+     */
+    withChanges(changes: Partial<ChannelMappingProfileData>): ChannelMappingProfile {
+        return new ChannelMappingProfile({ ...this.toJSON(), ...changes });
+    }
+
+    /**
+     * Pick the profile that best covers the given channels
+     * Ties keep the earlier profile, so list preferred profiles first.
+     */
+    static suggest(
+        profiles: readonly ChannelMappingProfile[],
+        channelNames: string[]
+    ): ChannelMappingProfile | null {
+        let best: ChannelMappingProfile | null = null;
+        let bestScore = 0;
+
+        for (const profile of profiles) {
+            const score = profile.matchScore(channelNames);
+            if (score > bestScore) {
+                best = profile;
+                bestScore = score;
+            }
+        }
+
+        return best;
+    }
+
+    toJSON(): ChannelMappingProfileData {
+        return {
+            id: this._id,
+            name: this._name,
+            builtIn: this._builtIn,
+            channels: this._channels,
+            headers: this._headers
+        };
+    }
+}
+
+/**
+ * TelemetryFrameData fields that are filled from logger channels
+ */
+export const MAPPED_FIELDS = [
+    'speed',
+    'throttlePos',
+    'brakePos',
+    'gpsLatitude',
+    'gpsLongitude',
+    'steeringAngle',
+    'gear'
+] as const;
+
+export type MappedField = typeof MAPPED_FIELDS[number];
+
+/**
+ * Row identity fields read from CSV columns
+ */
+export const HEADER_FIELDS = [
+    'timestamp',
+    'vehicleId',
+    'lap',
+    'telemetryName',
+    'telemetryValue'
+] as const;
+
+export type HeaderField = typeof HEADER_FIELDS[number];
+
+export interface ChannelMapping {
+    sources: string[];          // Channel names, matched case-insensitively
+    scale: number;              // frameValue = raw * scale + offset
+    offset: number;
+    combine?: 'first' | 'max';  // How to merge several present sources (default: first)
+}
+
+export interface ChannelMappingProfileData {
+    id: string;
+    name: string;
+    builtIn?: boolean;
+    channels: Record<MappedField, ChannelMapping>;
+    headers: Record<HeaderField, string[]>;
+}
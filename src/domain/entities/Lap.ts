@@ -8,6 +8,12 @@ import { Vehicle } from './Vehicle';
  * - Encapsulation: Private fields with getters
  * - Business Logic: Calculated properties (duration, pace)
  * - Value Object Pattern: LapTime is a value object
+ *
+ * A lap run (partly) behind a full-course caution or red flag carries a
+ * caution tag so pace analyses can leave it out. Likewise a lap spent mostly
+ * close behind another car carries a traffic tag (held up, or in a tow).
+ * A lap with a track-limits excursion is marked invalid and is not used as a
+ * fastest or reference lap unless asked for.
  */
 export class Lap {
     private readonly _lapNumber: number;
@@ -15,6 +21,9 @@ export class Lap {
     private readonly _startTime: Date;
     private readonly _endTime: Date;
     private readonly _sectorTimes: Map<string, number>; // sector -> milliseconds
+    private readonly _caution: CautionType | null;
+    private readonly _traffic: TrafficCondition | null;
+    private readonly _valid: boolean;
 
     constructor(data: LapData) {
         if (data.lapNumber < 0) {
@@ -38,12 +47,20 @@ export class Lap {
         this._startTime = new Date(data.startTime);
         this._endTime = new Date(data.endTime);
         this._sectorTimes = new Map(Object.entries(data.sectorTimes || {}));
+        this._caution = data.caution ?? null;
+        this._traffic = data.traffic ?? null;
+        this._valid = data.valid ?? true;
     }
 
     get lapNumber(): number { return this._lapNumber; }
     get vehicle(): Vehicle { return this._vehicle; }
     get startTime(): Date { return this._startTime; }
     get endTime(): Date { return this._endTime; }
+    get caution(): CautionType | null { return this._caution; }
+    get isCautionLap(): boolean { return this._caution !== null; }
+    get traffic(): TrafficCondition | null { return this._traffic; }
+    get isTrafficLap(): boolean { return this._traffic !== null; }
+    get isValid(): boolean { return this._valid; }
 
     /**
      * Business Logic: Calculate lap duration in milliseconds
@@ -99,6 +116,41 @@ export class Lap {
         return this.durationMs < other.durationMs;
     }
 
+    /**
+     * Copy of this lap with a different caution tag
+     */
+    withCaution(caution: CautionType | null): Lap {
+        return this.copy({ caution });
+    }
+
+    /**
+     * Copy of this lap with a different traffic tag
+     */
+    withTraffic(traffic: TrafficCondition | null): Lap {
+        return this.copy({ traffic });
+    }
+
+    /**
+     * Copy of this lap marked valid or invalid
+     */
+    withValidity(valid: boolean): Lap {
+        return this.copy({ valid });
+    }
+
+    private copy(changes: Partial<LapData>): Lap {
+        return new Lap({
+            lapNumber: this._lapNumber,
+            vehicle: this._vehicle,
+            startTime: this._startTime,
+            endTime: this._endTime,
+            sectorTimes: Object.fromEntries(this._sectorTimes),
+            caution: this._caution,
+            traffic: this._traffic,
+            valid: this._valid,
+            ...changes
+        });
+    }
+
     toJSON(): LapDataJSON {
         return {
             lapNumber: this._lapNumber,
@@ -106,7 +158,10 @@ export class Lap {
             startTime: this._startTime.toISOString(),
             endTime: this._endTime.toISOString(),
             durationMs: this.durationMs,
-            sectorTimes: Object.fromEntries(this._sectorTimes)
+            sectorTimes: Object.fromEntries(this._sectorTimes),
+            caution: this._caution,
+            traffic: this._traffic,
+            valid: this._valid
         };
     }
 }
@@ -117,8 +172,15 @@ export interface LapData {
     startTime: string | Date;
     endTime: string | Date;
     sectorTimes?: Record<string, number>;
+    caution?: CautionType | null;
+    traffic?: TrafficCondition | null;
+    valid?: boolean; // false after a track-limits excursion (default true)
 }
 
+export type CautionType = 'caution' | 'redFlag';
+
+export type TrafficCondition = 'traffic' | 'slipstream';
+
 export interface LapDataJSON {
     lapNumber: number;
     vehicle: { chassis: string; carNumber: number };
@@ -126,4 +188,7 @@ export interface LapDataJSON {
     endTime: string;
     durationMs: number;
     sectorTimes: Record<string, number>;
+    caution: CautionType | null;
+    traffic: TrafficCondition | null;
+    valid: boolean;
 }
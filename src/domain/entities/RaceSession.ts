@@ -1,5 +1,8 @@
 import { Lap } from './Lap';
 import { Vehicle } from './Vehicle';
+import { Stint } from './Stint';
+import type { PitStop } from '../services/PitStopDetector';
+import type { CautionPeriod } from '../services/CautionDetector';
 
 /**
  * Domain Entity: RaceSession (Aggregate Root)
@@ -13,6 +16,10 @@ import { Vehicle } from './Vehicle';
  * OOP Principles Applied:
  * - Encapsulation: Manages internal collections privately
  * - Business Logic: Race statistics, fastest lap, consistency analysis
+ *
+ * Pace figures take includeCautionLaps; pass false to leave out laps tagged
+ * as caution or red-flag laps. Fastest-lap lookups skip laps invalidated by
+ * track limits unless includeInvalidLaps is set.
  */
 export class RaceSession {
     private readonly _sessionId: string;
@@ -22,6 +29,11 @@ export class RaceSession {
     private readonly _sessionDate: Date;
     private readonly _laps: Map<string, Lap[]>; // vehicleId -> laps[]
     private readonly _vehicles: Map<string, Vehicle>; // vehicleId -> vehicle
+    private _results: RaceResult[];
+    private _weather: WeatherSample[];
+    private readonly _stints: Map<string, Stint[]>; // vehicleId -> stints
+    private readonly _pitStops: Map<string, PitStop[]>; // vehicleId -> pit stops
+    private _cautionPeriods: CautionPeriod[];
 
     constructor(data: RaceSessionData) {
         if (!data.sessionId || data.sessionId.trim() === '') {
@@ -41,6 +53,11 @@ export class RaceSession {
         this._sessionDate = new Date(data.sessionDate);
         this._laps = new Map();
         this._vehicles = new Map();
+        this._results = [];
+        this._weather = [];
+        this._stints = new Map();
+        this._pitStops = new Map();
+        this._cautionPeriods = [];
     }
 
     get sessionId(): string { return this._sessionId; }
@@ -67,6 +84,70 @@ export class RaceSession {
         this._laps.set(vehicleId, vehicleLaps);
     }
 
+    /**
+     * Attach the official classification
+     */
+    setResults(results: RaceResult[]): void {
+        this._results = [...results].sort((a, b) => a.position - b.position);
+    }
+
+    /**
+     * Official classification, ordered by finishing position
+     */
+    get results(): readonly RaceResult[] {
+        return this._results;
+    }
+
+    /**
+     * Attach weather station samples
+     */
+    setWeather(samples: WeatherSample[]): void {
+        this._weather = [...samples].sort((a, b) => a.time.getTime() - b.time.getTime());
+    }
+
+    /**
+     * Weather samples, ordered by time
+     */
+    get weather(): readonly WeatherSample[] {
+        return this._weather;
+    }
+
+    /**
+     * Attach a car's pit stops and the stints they split its race into
+     */
+    setStints(vehicleId: string, stints: Stint[], pitStops: PitStop[]): void {
+        this._stints.set(vehicleId, [...stints].sort((a, b) => a.stintNumber - b.stintNumber));
+        this._pitStops.set(vehicleId, [...pitStops].sort((a, b) => a.inLap - b.inLap));
+    }
+
+    /**
+     * Stints of a car, in order (empty until set)
+     */
+    getStints(vehicleId: string): readonly Stint[] {
+        return this._stints.get(vehicleId) || [];
+    }
+
+    /**
+     * Pit stops of a car, in order (empty until set)
+     */
+    getPitStops(vehicleId: string): readonly PitStop[] {
+        return this._pitStops.get(vehicleId) || [];
+    }
+
+    /**
+     * Attach the caution periods found in the session
+     */
+    setCautionPeriods(periods: CautionPeriod[]): void {
+        this._cautionPeriods = [...periods].sort((a, b) => a.start.getTime() - b.start.getTime());
+    }
+
+    /**
+     * Caution and red-flag periods, ordered by time
+     */
+    get cautionPeriods(): readonly CautionPeriod[] {
+        return this._cautionPeriods;
+    }
+
     /**
      * Get all laps for a specific vehicle
      */
@@ -95,11 +176,13 @@ export class RaceSession {
     /**
      * Business Logic: Find the fastest lap in the session
      */
-    getFastestLap(): Lap | null {
+    getFastestLap(includeCautionLaps: boolean = true, includeInvalidLaps: boolean = false): Lap | null {
         let fastest: Lap | null = null;
 
         for (const laps of this._laps.values()) {
             for (const lap of laps) {
+                if (!includeCautionLaps && lap.isCautionLap) continue;
+                if (!includeInvalidLaps && !lap.isValid) continue;
                 if (!fastest || lap.isFasterThan(fastest)) {
                     fastest = lap;
                 }
@@ -112,9 +195,13 @@ export class RaceSession {
     /**
      * Business Logic: Find the fastest lap for a specific vehicle
      */
-    getFastestLapForVehicle(vehicleId: string): Lap | null {
-        const laps = this._laps.get(vehicleId);
-        if (!laps || laps.length === 0) return null;
+    getFastestLapForVehicle(
+        vehicleId: string,
+        includeCautionLaps: boolean = true,
+        includeInvalidLaps: boolean = false
+    ): Lap | null {
+        const laps = this.pacedLaps(vehicleId, includeCautionLaps).filter(lap => includeInvalidLaps || lap.isValid);
+        if (laps.length === 0) return null;
 
         return laps.reduce((fastest, current) =>
             current.isFasterThan(fastest) ? current : fastest
@@ -124,9 +211,9 @@ export class RaceSession {
     /**
      * Business Logic: Calculate average lap time for a vehicle
      */
-    getAverageLapTime(vehicleId: string): number | null {
-        const laps = this._laps.get(vehicleId);
-        if (!laps || laps.length === 0) return null;
+    getAverageLapTime(vehicleId: string, includeCautionLaps: boolean = true): number | null {
+        const laps = this.pacedLaps(vehicleId, includeCautionLaps);
+        if (laps.length === 0) return null;
 
         const total = laps.reduce((sum, lap) => sum + lap.durationMs, 0);
         return total / laps.length;
@@ -136,11 +223,11 @@ export class RaceSession {
      * Business Logic: Calculate lap time consistency (standard deviation)
      * Lower values indicate more consistent lap times
      */
-    getLapConsistency(vehicleId: string): number | null {
-        const laps = this._laps.get(vehicleId);
-        if (!laps || laps.length < 2) return null;
+    getLapConsistency(vehicleId: string, includeCautionLaps: boolean = true): number | null {
+        const laps = this.pacedLaps(vehicleId, includeCautionLaps);
+        if (laps.length < 2) return null;
 
-        const avg = this.getAverageLapTime(vehicleId);
+        const avg = this.getAverageLapTime(vehicleId, includeCautionLaps);
         if (avg === null) return null;
 
         const variance = laps.reduce((sum, lap) => {
@@ -153,9 +240,10 @@ export class RaceSession {
 
     /**
      * Get session summary statistics
+     * The fastest lap follows the same caution and validity rules as getFastestLap.
      */
-    getStatistics(): SessionStatistics {
-        const fastestLap = this.getFastestLap();
+    getStatistics(includeCautionLaps: boolean = true, includeInvalidLaps: boolean = false): SessionStatistics {
+        const fastestLap = this.getFastestLap(includeCautionLaps, includeInvalidLaps);
 
         return {
             totalVehicles: this._vehicles.size,
@@ -166,6 +254,14 @@ export class RaceSession {
         };
     }
 
+    /**
+     * A vehicle's laps, optionally without caution laps
+     */
+    private pacedLaps(vehicleId: string, includeCautionLaps: boolean): Lap[] {
+        const laps = this._laps.get(vehicleId) || [];
+        return includeCautionLaps ? laps : laps.filter(lap => !lap.isCautionLap);
+    }
+
     /**
      * Calculate total session duration
      */
@@ -193,6 +289,28 @@ export interface RaceSessionData {
     sessionDate: string | Date;
 }
 
+export interface RaceResult {
+    position: number;
+    carNumber: number;
+    status: string;
+    laps: number;
+    totalTime: string;
+    gapFirst: string;
+    fastestLapNumber: number | null;
+    fastestLapMs: number | null;
+}
+
+export interface WeatherSample {
+    time: Date;
+    airTemp: number;
+    trackTemp: number;
+    humidity: number;
+    pressure: number;
+    windSpeed: number;
+    windDirection: number;
+    rain: boolean;
+}
+
 export interface SessionStatistics {
     totalVehicles: number;
     totalLaps: number;
@@ -0,0 +1,111 @@
+import { Lap } from './Lap';
+
+/**
+ * Domain Entity: Stint
+ * A run of consecutive laps on one set of tyres, between the start or a pit
+ * stop and the next pit stop or the finish.
+ *
+ * OOP Principles Applied:
+ * - Encapsulation: Private fields with getters
+ * - Immutability: Laps are copied on construction
+ * - Business Logic: Pace over the representative laps
+ *
+ * Average pace leaves out the out lap and in lap, which include pit lane time,
+ * and caution laps; a stint made only of those falls back to all of its laps.
+ */
+export class Stint {
+    private readonly _vehicleId: string;
+    private readonly _stintNumber: number;
+    private readonly _laps: Lap[];
+    private readonly _startsFromPit: boolean;
+    private readonly _endsInPit: boolean;
+
+    constructor(data: StintData) {
+        if (data.laps.length === 0) {
+            throw new Error('A stint needs at least one lap');
+        }
+        if (data.stintNumber < 1) {
+            throw new Error('Stint number must be positive');
+        }
+
+        this._vehicleId = data.vehicleId;
+        this._stintNumber = data.stintNumber;
+        this._laps = [...data.laps].sort((a, b) => a.lapNumber - b.lapNumber);
+        this._startsFromPit = data.startsFromPit;
+        this._endsInPit = data.endsInPit;
+    }
+
+    get vehicleId(): string { return this._vehicleId; }
+    get stintNumber(): number { return this._stintNumber; }
+    get laps(): readonly Lap[] { return this._laps; }
+    get startLap(): number { return this._laps[0].lapNumber; }
+    get endLap(): number { return this._laps[this._laps.length - 1].lapNumber; }
+    get lapsCompleted(): number { return this._laps.length; }
+    get startsFromPit(): boolean { return this._startsFromPit; }
+    get endsInPit(): boolean { return this._endsInPit; }
+
+    /**
+     * Laps that represent the stint's pace (no out lap, in lap or caution lap)
+     */
+    get representativeLaps(): readonly Lap[] {
+        const laps = this._laps.filter((lap, i) =>
+            !(i === 0 && this._startsFromPit) && !(i === this._laps.length - 1 && this._endsInPit) && !lap.isCautionLap
+        );
+        return laps.length > 0 ? laps : this._laps;
+    }
+
+    /**
+     * Business Logic: Average lap time in ms over the representative laps
+     */
+    get averagePaceMs(): number {
+        const laps = this.representativeLaps;
+        return laps.reduce((sum, lap) => sum + lap.durationMs, 0) / laps.length;
+    }
+
+    /**
+     * Fastest valid lap (any lap when track limits invalidated them all)
+     */
+    get fastestLap(): Lap {
+        const valid = this._laps.filter(lap => lap.isValid);
+        const laps = valid.length > 0 ? valid : this._laps;
+        return laps.reduce((fastest, lap) => (lap.isFasterThan(fastest) ? lap : fastest));
+    }
+
+    containsLap(lapNumber: number): boolean {
+        return lapNumber >= this.startLap && lapNumber <= this.endLap;
+    }
+
+    toJSON(): StintSummary {
+        return {
+            vehicleId: this._vehicleId,
+            stintNumber: this._stintNumber,
+            startLap: this.startLap,
+            endLap: this.endLap,
+            lapsCompleted: this.lapsCompleted,
+            averagePaceMs: this.averagePaceMs,
+            fastestLapMs: this.fastestLap.durationMs,
+            startsFromPit: this._startsFromPit,
+            endsInPit: this._endsInPit
+        };
+    }
+}
+
+export interface StintData {
+    vehicleId: string;
+    stintNumber: number;
+    laps: readonly Lap[];
+    startsFromPit: boolean; // first lap is an out lap
+    endsInPit: boolean; // last lap is an in lap
+}
+
+export interface StintSummary {
+    vehicleId: string;
+    stintNumber: number;
+    startLap: number;
+    endLap: number;
+    lapsCompleted: number;
+    averagePaceMs: number;
+    fastestLapMs: number;
+    startsFromPit: boolean;
+    endsInPit: boolean;
+}
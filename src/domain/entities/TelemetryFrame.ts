@@ -1,3 +1,5 @@
+import type { MappedField } from './ChannelMappingProfile';
+
 /**
  * Domain Entity: TelemetryFrame
  * Represents a single telemetry data point from the racing dataset.
@@ -18,6 +20,8 @@ export class TelemetryFrame {
   private readonly _gpsLongitude: number;
   private readonly _steeringAngle?: number;
   private readonly _gear?: number;
+  private readonly _interpolatedFields: ReadonlySet<MappedField>;
+  private readonly _lapDistance?: number; // metres from lap start
 
   constructor(data: TelemetryFrameData) {
     // Validation
@@ -50,6 +54,8 @@ export class TelemetryFrame {
     this._gpsLongitude = data.gpsLongitude;
     this._steeringAngle = data.steeringAngle;
     this._gear = data.gear;
+    this._interpolatedFields = new Set(data.interpolatedFields || []);
+    this._lapDistance = data.lapDistance;
   }
 
   // Getters (Encapsulation)
@@ -63,6 +69,16 @@ export class TelemetryFrame {
   get gpsLongitude(): number { return this._gpsLongitude; }
   get steeringAngle(): number | undefined { return this._steeringAngle; }
   get gear(): number | undefined { return this._gear; }
+  get interpolatedFields(): ReadonlySet<MappedField> { return this._interpolatedFields; }
+  get lapDistance(): number | undefined { return this._lapDistance; }
+
+  /**
+   * Check whether a field was filled in by resampling rather than measured
+   * Frames built directly from logged rows report no interpolated fields.
+   */
+  isInterpolated(field: MappedField): boolean {
+    return this._interpolatedFields.has(field);
+  }
 
   /**
    * Business Logic: Check if the driver is braking
@@ -99,7 +115,9 @@ export class TelemetryFrame {
       gpsLatitude: this._gpsLatitude,
       gpsLongitude: this._gpsLongitude,
       steeringAngle: this._steeringAngle,
-      gear: this._gear
+      gear: this._gear,
+      interpolatedFields: Array.from(this._interpolatedFields),
+      lapDistance: this._lapDistance
     };
   }
 }
@@ -118,4 +136,6 @@ export interface TelemetryFrameData {
   gpsLongitude: number;
   steeringAngle?: number;
   gear?: number;
+  interpolatedFields?: MappedField[];
+  lapDistance?: number;
 }
@@ -0,0 +1,93 @@
+import { GeoCalculator, GeoPoint, LocalPoint } from '../services/GeoCalculator';
+
+/**
+ * Domain Entity: TimingLine
+ * A start/finish (or any timing) line defined by two GPS end points.
+ *
+ * OOP Principles Applied:
+ * - Value Object Pattern: Defined entirely by its end points
+ * - Business Logic: Segment crossing test with interpolated crossing position
+ */
+export class TimingLine {
+    private readonly _start: GeoPoint;
+    private readonly _end: GeoPoint;
+
+    constructor(data: TimingLineData) {
+        if (!GeoCalculator.isValidFix(data.start) || !GeoCalculator.isValidFix(data.end)) {
+            throw new Error('Timing line end points must be valid GPS coordinates');
+        }
+        if (GeoCalculator.haversineDistance(data.start, data.end) < 1) {
+            throw new Error('Timing line must be at least 1 m wide');
+        }
+
+        this._start = { ...data.start };
+        this._end = { ...data.end };
+    }
+
+    get start(): GeoPoint { return this._start; }
+    get end(): GeoPoint { return this._end; }
+
+    get center(): GeoPoint {
+        return {
+            latitude: (this._start.latitude + this._end.latitude) / 2,
+            longitude: (this._start.longitude + this._end.longitude) / 2
+        };
+    }
+
+    /**
+     * Create a line perpendicular to the direction of travel
+     * @param headingDeg Direction of travel, degrees clockwise from north
+     * @param widthM Total line width in metres
+     */
+    static fromCenter(center: GeoPoint, headingDeg: number, widthM: number = 30): TimingLine {
+        const heading = headingDeg * Math.PI / 180;
+        // Unit vector across the track (heading rotated 90°)
+        const across: LocalPoint = { x: Math.cos(heading), y: -Math.sin(heading) };
+        const half = widthM / 2;
+
+        return new TimingLine({
+            start: GeoCalculator.fromLocalMeters(center, { x: -across.x * half, y: -across.y * half }),
+            end: GeoCalculator.fromLocalMeters(center, { x: across.x * half, y: across.y * half })
+        });
+    }
+
+    /**
+     * Business Logic: Test whether the path from a to b crosses the line
+     * @returns Fraction along a→b where the crossing happens and the crossing
+     *          direction (+1 / -1, by which side of the line a started), or null
+     */
+    intersect(a: GeoPoint, b: GeoPoint): { fraction: number; direction: 1 | -1 } | null {
+        const origin = this.center;
+        const p = GeoCalculator.toLocalMeters(origin, a);
+        const q = GeoCalculator.toLocalMeters(origin, b);
+        const s = GeoCalculator.toLocalMeters(origin, this._start);
+        const e = GeoCalculator.toLocalMeters(origin, this._end);
+
+        const motion = { x: q.x - p.x, y: q.y - p.y };
+        const line = { x: e.x - s.x, y: e.y - s.y };
+        const denom = this.cross(motion, line);
+        if (denom === 0) return null; // Parallel
+
+        const diff = { x: s.x - p.x, y: s.y - p.y };
+        const t = this.cross(diff, line) / denom;   // along motion
+        const u = this.cross(diff, motion) / denom; // along line
+
+        // Half-open on the motion segment so a fix exactly on the line counts once
+        if (t <= 0 || t > 1 || u < 0 || u > 1) return null;
+
+        return { fraction: t, direction: denom > 0 ? 1 : -1 };
+    }
+
+    toJSON(): TimingLineData {
+        return { start: { ...this._start }, end: { ...this._end } };
+    }
+
+    private cross(a: LocalPoint, b: LocalPoint): number {
+        return a.x * b.y - a.y * b.x;
+    }
+}
+
+export interface TimingLineData {
+    start: GeoPoint;
+    end: GeoPoint;
+}
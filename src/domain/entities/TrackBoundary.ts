@@ -0,0 +1,61 @@
+import { GeoCalculator, GeoPoint } from '../services/GeoCalculator';
+
+/**
+ * Domain Entity: TrackBoundary
+ * The track surface as polygons: inside the outer edge and, for a circuit,
+ * outside the inner edge (the infield). Either imported or built from the
+ * envelope of many laps.
+ *
+ * OOP Principles Applied:
+ * - Value Object Pattern: Immutable once built
+ * - Business Logic: Decide whether a GPS position is on track
+ */
+export class TrackBoundary {
+    private readonly _outer: GeoPoint[];
+    private readonly _inner: GeoPoint[];
+    private readonly _source: BoundarySource;
+
+    constructor(data: TrackBoundaryData) {
+        if (data.outer.length < 3) {
+            throw new Error('Outer boundary needs at least three points');
+        }
+        if (data.inner.length > 0 && data.inner.length < 3) {
+            throw new Error('Inner boundary needs at least three points');
+        }
+        if ([...data.outer, ...data.inner].some(p => !GeoCalculator.isValidFix(p))) {
+            throw new Error('Boundary points must be valid coordinates');
+        }
+
+        this._outer = data.outer.map(p => ({ ...p }));
+        this._inner = data.inner.map(p => ({ ...p }));
+        this._source = data.source;
+    }
+
+    get outer(): readonly GeoPoint[] { return this._outer; }
+    get inner(): readonly GeoPoint[] { return this._inner; }
+    get source(): BoundarySource { return this._source; }
+
+    /**
+     * Business Logic: Whether a position is on the track surface
+     */
+    contains(point: GeoPoint): boolean {
+        if (!GeoCalculator.isInsidePolygon(point, this._outer)) return false;
+        return this._inner.length === 0 || !GeoCalculator.isInsidePolygon(point, this._inner);
+    }
+
+    toJSON(): TrackBoundaryData {
+        return {
+            outer: this._outer.map(p => ({ ...p })),
+            inner: this._inner.map(p => ({ ...p })),
+            source: this._source
+        };
+    }
+}
+
+export type BoundarySource = 'imported' | 'envelope';
+
+export interface TrackBoundaryData {
+    outer: GeoPoint[];
+    inner: GeoPoint[]; // empty when there is no infield (a point-to-point stage)
+    source: BoundarySource;
+}
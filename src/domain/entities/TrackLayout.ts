@@ -0,0 +1,91 @@
+/**
+ * Domain Entity: TrackLayout
+ * A circuit split into corners and straights, each a distance range from the
+ * start/finish line.
+ *
+ * OOP Principles Applied:
+ * - Value Object Pattern: Immutable once built
+ * - Business Logic: Locate the segment for a lap distance
+ *
+ * Laps differ slightly in measured length, so lookups can scale a lap's
+ * distance onto the layout length first.
+ */
+export class TrackLayout {
+    private readonly _lengthM: number;
+    private readonly _segments: TrackSegment[];
+
+    constructor(data: TrackLayoutData) {
+        if (!(data.lengthM > 0)) {
+            throw new Error('Track length must be positive');
+        }
+        const segments = [...data.segments].sort((a, b) => a.startDistance - b.startDistance);
+        for (let i = 0; i < segments.length; i++) {
+            if (segments[i].endDistance <= segments[i].startDistance) {
+                throw new Error(`Segment ${segments[i].id} has no length`);
+            }
+            if (i > 0 && segments[i].startDistance < segments[i - 1].endDistance) {
+                throw new Error(`Segments ${segments[i - 1].id} and ${segments[i].id} overlap`);
+            }
+        }
+
+        this._lengthM = data.lengthM;
+        this._segments = segments.map(s => ({ ...s }));
+    }
+
+    get lengthM(): number { return this._lengthM; }
+    get segments(): readonly TrackSegment[] { return this._segments; }
+
+    get corners(): readonly TrackSegment[] {
+        return this._segments.filter(s => s.kind === 'corner');
+    }
+
+    get straights(): readonly TrackSegment[] {
+        return this._segments.filter(s => s.kind === 'straight');
+    }
+
+    getSegment(id: string): TrackSegment | undefined {
+        return this._segments.find(s => s.id === id);
+    }
+
+    /**
+     * Business Logic: Find the segment containing a lap distance
+     * @param lapLengthM Length of the lap the distance comes from (defaults to the layout length)
+     */
+    segmentAt(distance: number, lapLengthM: number = this._lengthM): TrackSegment | null {
+        const d = lapLengthM > 0 ? distance * this._lengthM / lapLengthM : distance;
+
+        let lo = 0;
+        let hi = this._segments.length - 1;
+        while (lo <= hi) {
+            const mid = (lo + hi) >> 1;
+            const segment = this._segments[mid];
+            if (d < segment.startDistance) hi = mid - 1;
+            else if (d >= segment.endDistance) lo = mid + 1;
+            else return segment;
+        }
+        return null;
+    }
+
+    toJSON(): TrackLayoutData {
+        return { lengthM: this._lengthM, segments: this._segments.map(s => ({ ...s })) };
+    }
+}
+
+export type SegmentKind = 'corner' | 'straight';
+
+export interface TrackSegment {
+    id: string; // T1..Tn for corners, "T1-T2" style for straights
+    kind: SegmentKind;
+    startDistance: number; // metres from start/finish
+    endDistance: number;
+    apexDistance?: number; // corners only
+    minSpeed?: number; // km/h, averaged over the laps used
+    direction?: 'left' | 'right';
+    apexLatitude?: number;
+    apexLongitude?: number;
+}
+
+export interface TrackLayoutData {
+    lengthM: number;
+    segments: TrackSegment[];
+}
@@ -30,6 +30,21 @@ export class Vehicle {
     get carNumber(): number { return this._carNumber; }
     get id(): string { return this._id; }
 
+    /**
+     * Recreate a vehicle from its composite ID (chassis-carNumber)
+     */
+    static fromId(vehicleId: string): Vehicle {
+        const separator = vehicleId.lastIndexOf('-');
+        if (separator <= 0) {
+            return new Vehicle({ chassis: vehicleId, carNumber: 0 });
+        }
+        const carNumber = parseInt(vehicleId.slice(separator + 1), 10);
+        return new Vehicle({
+            chassis: vehicleId.slice(0, separator),
+            carNumber: Number.isNaN(carNumber) ? 0 : carNumber
+        });
+    }
+
     /**
      * Business Logic: Check if car number is assigned
      * In the dataset, car number 000 means unassigned
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { GeoCalculator, GeoPoint } from '../../services/GeoCalculator';
+import { TimingLine } from '../TimingLine';
+
+const CENTER: GeoPoint = { latitude: 30.1335, longitude: -97.6411 };
+
+// Position x metres east and y metres north of the line centre
+const at = (x: number, y: number) => GeoCalculator.fromLocalMeters(CENTER, { x, y });
+
+describe('TimingLine', () => {
+    // Cars drive north over a line running east-west
+    const line = TimingLine.fromCenter(CENTER, 0, 30);
+
+    it('spans the given width across the direction of travel', () => {
+        expect(GeoCalculator.haversineDistance(line.start, line.end)).toBeCloseTo(30, 1);
+        expect(line.center.latitude).toBeCloseTo(CENTER.latitude, 9);
+        expect(line.center.longitude).toBeCloseTo(CENTER.longitude, 9);
+    });
+
+    it('reports where along the step the line is crossed', () => {
+        const hit = line.intersect(at(0, -10), at(0, 30));
+
+        expect(hit).not.toBeNull();
+        expect(hit!.fraction).toBeCloseTo(0.25, 3);
+    });
+
+    it('gives opposite directions for opposite crossings', () => {
+        const north = line.intersect(at(5, -5), at(5, 5));
+        const south = line.intersect(at(5, 5), at(5, -5));
+
+        expect(north).not.toBeNull();
+        expect(south).not.toBeNull();
+        expect(north!.direction).toBe(-south!.direction);
+    });
+
+    it('ignores steps that pass beside the line or stop short of it', () => {
+        expect(line.intersect(at(20, -5), at(20, 5))).toBeNull();
+        expect(line.intersect(at(0, -10), at(0, -1))).toBeNull();
+        expect(line.intersect(at(-10, 3), at(10, 3))).toBeNull();
+    });
+
+    it('counts a fix exactly on the line once', () => {
+        expect(line.intersect(at(0, -5), at(0, 0))).not.toBeNull();
+        expect(line.intersect(at(0, 0), at(0, 5))).toBeNull();
+    });
+
+    it('rejects invalid or too narrow lines', () => {
+        expect(() => new TimingLine({ start: { latitude: 0, longitude: 0 }, end: CENTER })).toThrow();
+        expect(() => new TimingLine({ start: CENTER, end: at(0.5, 0) })).toThrow();
+    });
+});
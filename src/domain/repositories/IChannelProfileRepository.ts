@@ -0,0 +1,37 @@
+import { ChannelMappingProfile } from '../entities/ChannelMappingProfile';
+
+/**
+ * Repository Interface: IChannelProfileRepository
+ * Defines contract for storing channel mapping profiles.
+ *
+ * Design Pattern: Repository Pattern
+ * SOLID Principles:
+ * - Interface Segregation: Separate from telemetry and lap repositories
+ * - Dependency Inversion: Domain depends on abstraction
+ */
+export interface IChannelProfileRepository {
+    /**
+     * Get all profiles (built-in defaults merged with saved ones)
+     * @returns Promise resolving to array of profiles
+     */
+    getAllProfiles(): Promise<ChannelMappingProfile[]>;
+
+    /**
+     * Get a profile by ID
+     * @param id Profile identifier
+     * @returns Promise resolving to the profile or null if not found
+     */
+    getProfile(id: string): Promise<ChannelMappingProfile | null>;
+
+    /**
+     * Save a profile (saving a built-in ID stores an edited override)
+     * @param profile Profile to save
+     */
+    saveProfile(profile: ChannelMappingProfile): Promise<void>;
+
+    /**
+     * Delete a saved profile (deleting a built-in override restores the default)
+     * @param id Profile identifier
+     */
+    deleteProfile(id: string): Promise<void>;
+}
@@ -37,6 +37,13 @@ export interface ILapRepository {
      */
     saveLaps(laps: Lap[]): Promise<void>;
 
+    /**
+     * Replace a vehicle's whole lap set (laps not in the new set are removed)
+     * @param vehicleId Vehicle identifier
+     * @param laps The vehicle's new laps
+     */
+    replaceLaps(vehicleId: string, laps: Lap[]): Promise<void>;
+
     /**
      * Get all unique vehicle IDs
      * @returns Promise resolving to array of vehicle IDs
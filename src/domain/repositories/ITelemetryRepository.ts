@@ -54,6 +54,19 @@ export interface ITelemetryRepository {
      */
     saveTelemetry(frames: TelemetryFrame[]): Promise<void>;
 
+    /**
+     * Clear one vehicle's telemetry, keeping every other vehicle's
+     * @param vehicleId Vehicle identifier
+     */
+    clearVehicle(vehicleId: string): Promise<void>;
+
+    /**
+     * Clear one lap of a vehicle's telemetry (before it is loaded again)
+     * @param vehicleId Vehicle identifier
+     * @param lap Lap number
+     */
+    clearLap(vehicleId: string, lap: number): Promise<void>;
+
     /**
      * Clear all telemetry data (useful for testing or reloading data)
      */
@@ -0,0 +1,239 @@
+import { Lap, CautionType } from '../entities/Lap';
+import { TelemetryFrame } from '../entities/TelemetryFrame';
+
+/**
+ * Domain Service: CautionDetector
+ * Finds full-course cautions and red flags: time windows where most of the
+ * field slows down at once.
+ *
+ * Algorithm:
+ * 1. Sample the session clock every stepMs. At each sample, every car on a
+ *    lap is green, slow or stopped:
+ *    - with telemetry for that lap: mean speed around the sample against the
+ *      car's median speed (frames are placed on the lap clock by their time
+ *      since the lap's first frame, so logger clock offsets do not matter)
+ *    - without: the lap's time against the car's median lap
+ * 2. A sample is under caution when at least fieldFraction of the cars on
+ *    track are slow or stopped, and a red flag when that many are stopped
+ * 3. Runs of caution samples become periods; short gaps are bridged and
+ *    blips dropped. One car slowing (a pit stop, a spin) never reaches the
+ *    field threshold.
+ * 4. A lap is tagged when a period covers enough of it; a red flag wins
+ *    over a caution.
+ */
+export class CautionDetector {
+    /**
+     * Business Logic: Detect caution periods across the field
+     * @param laps Laps of every car
+     */
+    detect(laps: readonly Lap[], input: CautionDetectionInput = {}): CautionPeriod[] {
+        const opts = { ...DEFAULT_OPTIONS, ...input.options };
+        const cars = this.buildCars(laps, input.telemetry);
+        if (cars.length < opts.minCars) return [];
+
+        const start = Math.min(...laps.map(l => l.startTime.getTime()));
+        const end = Math.max(...laps.map(l => l.endTime.getTime()));
+
+        // Classify the field at every sample
+        const samples: Array<{ time: number; state: 'green' | CautionType }> = [];
+        for (let t = start; t <= end; t += opts.stepMs) {
+            let onTrack = 0;
+            let slow = 0;
+            let stopped = 0;
+            for (const car of cars) {
+                const state = this.carStateAt(car, t, opts);
+                if (state === null) continue;
+                onTrack++;
+                if (state !== 'green') slow++;
+                if (state === 'stopped') stopped++;
+            }
+            const caution = onTrack >= opts.minCars && slow / onTrack >= opts.fieldFraction;
+            const red = onTrack >= opts.minCars && stopped / onTrack >= opts.fieldFraction;
+            samples.push({ time: t, state: red ? 'redFlag' : (caution ? 'caution' : 'green') });
+        }
+
+        // Runs of caution samples, gaps bridged, blips dropped
+        const runs: Array<{ start: number; end: number; red: boolean }> = [];
+        for (const sample of samples) {
+            if (sample.state === 'green') continue;
+            const last = runs[runs.length - 1];
+            if (last && sample.time - last.end <= opts.mergeGapMs) {
+                last.end = sample.time + opts.stepMs;
+                last.red = last.red || sample.state === 'redFlag';
+            } else {
+                runs.push({ start: sample.time, end: sample.time + opts.stepMs, red: sample.state === 'redFlag' });
+            }
+        }
+
+        return runs
+            .filter(run => run.end - run.start >= opts.minDurationMs)
+            .map(run => {
+                const type: CautionType = run.red ? 'redFlag' : 'caution';
+                const covered = laps.filter(lap => this.coverage(lap, run.start, run.end) >= opts.minLapCoverage);
+                const leadLap = Math.max(0, ...covered.map(l => l.lapNumber));
+                const leader = covered.find(l => l.lapNumber === leadLap)?.vehicle.id;
+                const leaderLaps = covered.filter(l => l.vehicle.id === leader).map(l => l.lapNumber);
+                return {
+                    type,
+                    start: new Date(run.start),
+                    end: new Date(run.end),
+                    startLap: leaderLaps.length > 0 ? Math.min(...leaderLaps) : null,
+                    endLap: leaderLaps.length > 0 ? Math.max(...leaderLaps) : null
+                };
+            });
+    }
+
+    /**
+     * Tagged copies of the laps; a lap is tagged when a period covers
+     * at least minLapCoverage of it
+     */
+    tagLaps(laps: readonly Lap[], periods: readonly CautionPeriod[], options: Partial<CautionDetectionOptions> = {}): Lap[] {
+        const opts = { ...DEFAULT_OPTIONS, ...options };
+        return laps.map(lap => {
+            let caution: CautionType | null = null;
+            for (const period of periods) {
+                if (this.coverage(lap, period.start.getTime(), period.end.getTime()) < opts.minLapCoverage) continue;
+                if (caution !== 'redFlag') caution = period.type;
+            }
+            return caution === lap.caution ? lap : lap.withCaution(caution);
+        });
+    }
+
+    /**
+     * Detect periods and tag laps in one call
+     */
+    analyze(laps: readonly Lap[], input: CautionDetectionInput = {}): { periods: CautionPeriod[]; laps: Lap[] } {
+        const periods = this.detect(laps, input);
+        return { periods, laps: this.tagLaps(laps, periods, input.options) };
+    }
+
+    private buildCars(laps: readonly Lap[], telemetry?: CautionDetectionInput['telemetry']): CarTimeline[] {
+        const byVehicle = new Map<string, Lap[]>();
+        for (const lap of laps) {
+            const list = byVehicle.get(lap.vehicle.id) ?? [];
+            list.push(lap);
+            byVehicle.set(lap.vehicle.id, list);
+        }
+
+        return Array.from(byVehicle.entries()).map(([vehicleId, carLaps]) => {
+            const sorted = carLaps.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+            const durations = sorted.map(l => l.durationMs).sort((a, b) => a - b);
+
+            // Telemetry on the lap clock: offset from the lap start
+            const frames = new Map<number, Array<{ offsetMs: number; speed: number }>>();
+            const speeds: number[] = [];
+            telemetry?.get(vehicleId)?.forEach((lapFrames, lapNumber) => {
+                if (lapFrames.length === 0) return;
+                const first = Math.min(...lapFrames.map(f => f.timestamp.getTime()));
+                const points = lapFrames
+                    .map(f => ({ offsetMs: f.timestamp.getTime() - first, speed: f.speed }))
+                    .sort((a, b) => a.offsetMs - b.offsetMs);
+                frames.set(lapNumber, points);
+                points.forEach(p => speeds.push(p.speed));
+            });
+            speeds.sort((a, b) => a - b);
+
+            return {
+                laps: sorted,
+                medianLapMs: durations[Math.floor(durations.length / 2)],
+                frames,
+                medianSpeed: speeds.length > 0 ? speeds[Math.floor(speeds.length / 2)] : null
+            };
+        });
+    }
+
+    /**
+     * Green, slow or stopped at time t; null when the car is not on a lap
+     */
+    private carStateAt(car: CarTimeline, t: number, opts: CautionDetectionOptions): CarState | null {
+        const lap = this.lapAt(car.laps, t);
+        if (!lap) return null;
+
+        const frames = car.frames.get(lap.lapNumber);
+        if (frames && car.medianSpeed !== null && car.medianSpeed > 0) {
+            const offset = t - lap.startTime.getTime();
+            const half = opts.speedWindowMs / 2;
+            const window = frames.filter(f => f.offsetMs >= offset - half && f.offsetMs <= offset + half);
+            if (window.length > 0) {
+                const mean = window.reduce((sum, f) => sum + f.speed, 0) / window.length;
+                if (mean <= opts.stoppedSpeedKmh) return 'stopped';
+                return mean < car.medianSpeed * opts.slowSpeedFactor ? 'slow' : 'green';
+            }
+        }
+
+        const ratio = lap.durationMs / car.medianLapMs;
+        if (ratio >= opts.redFlagLapFactor) return 'stopped';
+        return ratio >= opts.slowLapFactor ? 'slow' : 'green';
+    }
+
+    private lapAt(laps: Lap[], t: number): Lap | null {
+        let lo = 0;
+        let hi = laps.length - 1;
+        while (lo <= hi) {
+            const mid = (lo + hi) >> 1;
+            const lap = laps[mid];
+            if (t < lap.startTime.getTime()) hi = mid - 1;
+            else if (t >= lap.endTime.getTime()) lo = mid + 1;
+            else return lap;
+        }
+        return null;
+    }
+
+    /**
+     * Share of the lap inside [start, end)
+     */
+    private coverage(lap: Lap, start: number, end: number): number {
+        const overlap = Math.min(end, lap.endTime.getTime()) - Math.max(start, lap.startTime.getTime());
+        return overlap > 0 ? overlap / lap.durationMs : 0;
+    }
+}
+
+type CarState = 'green' | 'slow' | 'stopped';
+
+interface CarTimeline {
+    laps: Lap[]; // by start time
+    medianLapMs: number;
+    frames: Map<number, Array<{ offsetMs: number; speed: number }>>; // lap number -> frames on the lap clock
+    medianSpeed: number | null;
+}
+
+const DEFAULT_OPTIONS: CautionDetectionOptions = {
+    stepMs: 5000,
+    fieldFraction: 0.6,
+    minCars: 3,
+    slowLapFactor: 1.15,
+    redFlagLapFactor: 3,
+    slowSpeedFactor: 0.6,
+    stoppedSpeedKmh: 10,
+    speedWindowMs: 10000,
+    mergeGapMs: 30000,
+    minDurationMs: 20000,
+    minLapCoverage: 0.25
+};
+
+export interface CautionDetectionOptions {
+    stepMs: number; // sampling interval of the session clock
+    fieldFraction: number; // share of cars on track that must be slow
+    minCars: number; // fewer cars on track never make a caution
+    slowLapFactor: number; // lap slower than the car's median x factor
+    redFlagLapFactor: number; // lap this much slower counts as stopped
+    slowSpeedFactor: number; // speed below the car's median speed x factor
+    stoppedSpeedKmh: number;
+    speedWindowMs: number; // telemetry averaged over this window
+    mergeGapMs: number; // bridge green gaps up to this long
+    minDurationMs: number; // drop shorter periods
+    minLapCoverage: number; // share of a lap a period must cover to tag it
+}
+
+export interface CautionDetectionInput {
+    telemetry?: ReadonlyMap<string, ReadonlyMap<number, TelemetryFrame[]>>; // vehicleId -> lap number -> frames
+    options?: Partial<CautionDetectionOptions>;
+}
+
+export interface CautionPeriod {
+    type: CautionType;
+    start: Date;
+    end: Date;
+    startLap: number | null; // the leader's laps under the period
+    endLap: number | null;
+}
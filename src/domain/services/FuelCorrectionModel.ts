@@ -0,0 +1,83 @@
+import { Lap } from '../entities/Lap';
+
+/**
+ * Domain Service: FuelCorrectionModel
+ * Removes the effect of fuel load from lap times so laps from early and late
+ * in a race can be compared.
+ *
+ * Model: every lap burns burnKgPerLap, and every kilogram on board costs
+ * secondsPerKg. Laps are corrected to the fuel load of a reference lap (the
+ * last lap of the session by default), so earlier laps get faster:
+ *   corrected = raw - (referenceLap - lap) x burnKgPerLap x secondsPerKg
+ *
+ * Corrected laps are new Lap entities, so everything that works on laps
+ * (session statistics, degradation) can run on either basis.
+ */
+export class FuelCorrectionModel {
+    /**
+     * Defaults for a GR86 Cup car: about 1.2 kg of fuel per lap of COTA and
+     * roughly 0.03 s per kg
+     */
+    static readonly DEFAULTS: FuelCorrectionOptions = {
+        burnKgPerLap: 1.2,
+        secondsPerKg: 0.03
+    };
+
+    private readonly _options: FuelCorrectionOptions;
+
+    constructor(options: Partial<FuelCorrectionOptions> = {}) {
+        const merged = { ...FuelCorrectionModel.DEFAULTS, ...options };
+        if (merged.burnKgPerLap < 0 || merged.secondsPerKg < 0) {
+            throw new Error('Fuel burn and time penalty must be non-negative');
+        }
+        this._options = merged;
+    }
+
+    get options(): FuelCorrectionOptions { return { ...this._options }; }
+
+    /**
+     * Business Logic: Time the extra fuel costs on a lap compared to the reference lap
+     */
+    correctionMs(lapNumber: number, referenceLap: number): number {
+        const extraFuelKg = (referenceLap - lapNumber) * this._options.burnKgPerLap;
+        return extraFuelKg * this._options.secondsPerKg * 1000;
+    }
+
+    /**
+     * Corrected copy of a lap (same start, earlier end)
+     * Sector times are scaled by the same ratio as the lap.
+     */
+    correct(lap: Lap, referenceLap: number): Lap {
+        const correctedMs = Math.max(1, lap.durationMs - this.correctionMs(lap.lapNumber, referenceLap));
+        const ratio = lap.durationMs > 0 ? correctedMs / lap.durationMs : 1;
+
+        const sectorTimes: Record<string, number> = {};
+        lap.sectorTimes.forEach((ms, id) => { sectorTimes[id] = ms * ratio; });
+
+        return new Lap({
+            lapNumber: lap.lapNumber,
+            vehicle: lap.vehicle,
+            startTime: lap.startTime,
+            endTime: new Date(lap.startTime.getTime() + Math.round(correctedMs)),
+            sectorTimes,
+            caution: lap.caution,
+            traffic: lap.traffic,
+            valid: lap.isValid
+        });
+    }
+
+    /**
+     * Correct a set of laps to a common reference lap
+     * @param referenceLap Defaults to the highest lap number in the set
+     */
+    correctLaps(laps: readonly Lap[], referenceLap?: number): Lap[] {
+        if (laps.length === 0) return [];
+        const reference = referenceLap ?? Math.max(...laps.map(l => l.lapNumber));
+        return laps.map(lap => this.correct(lap, reference));
+    }
+}
+
+export interface FuelCorrectionOptions {
+    burnKgPerLap: number;
+    secondsPerKg: number; // lap time cost of each kg on board
+}
@@ -0,0 +1,83 @@
+/**
+ * Domain Service: GeoCalculator
+ * Stateless geodesy helpers shared by GPS-based analyses.
+ *
+ * Algorithms:
+ * - Haversine great-circle distance
+ * - Equirectangular projection to local metres (accurate over a circuit's extent)
+ * - Ray-casting point-in-polygon test
+ */
+export class GeoCalculator {
+    static readonly EARTH_RADIUS_M = 6371000;
+
+    /**
+     * Great-circle distance between two points in metres
+     */
+    static haversineDistance(a: GeoPoint, b: GeoPoint): number {
+        const toRad = (deg: number) => deg * Math.PI / 180;
+        const dLat = toRad(b.latitude - a.latitude);
+        const dLon = toRad(b.longitude - a.longitude);
+        const h = Math.sin(dLat / 2) ** 2 +
+            Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+        return 2 * GeoCalculator.EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+    }
+
+    /**
+     * Project a point to local x/y metres (x = east, y = north) around an origin
+     */
+    static toLocalMeters(origin: GeoPoint, point: GeoPoint): LocalPoint {
+        const metersPerDegLat = Math.PI * GeoCalculator.EARTH_RADIUS_M / 180;
+        const metersPerDegLon = metersPerDegLat * Math.cos(origin.latitude * Math.PI / 180);
+        return {
+            x: (point.longitude - origin.longitude) * metersPerDegLon,
+            y: (point.latitude - origin.latitude) * metersPerDegLat
+        };
+    }
+
+    /**
+     * Inverse of toLocalMeters
+     */
+    static fromLocalMeters(origin: GeoPoint, local: LocalPoint): GeoPoint {
+        const metersPerDegLat = Math.PI * GeoCalculator.EARTH_RADIUS_M / 180;
+        const metersPerDegLon = metersPerDegLat * Math.cos(origin.latitude * Math.PI / 180);
+        return {
+            latitude: origin.latitude + local.y / metersPerDegLat,
+            longitude: origin.longitude + local.x / metersPerDegLon
+        };
+    }
+
+    /**
+     * Check whether a point lies inside a polygon (ray casting on lat/lon,
+     * fine for areas the size of a pit lane)
+     */
+    static isInsidePolygon(point: GeoPoint, polygon: readonly GeoPoint[]): boolean {
+        let inside = false;
+        for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+            const a = polygon[i];
+            const b = polygon[j];
+            const crosses = (a.latitude > point.latitude) !== (b.latitude > point.latitude) &&
+                point.longitude < (b.longitude - a.longitude) * (point.latitude - a.latitude) / (b.latitude - a.latitude) + a.longitude;
+            if (crosses) inside = !inside;
+        }
+        return inside;
+    }
+
+    /**
+     * Check whether a GPS fix is usable (loggers write 0/0 when there is no fix)
+     */
+    static isValidFix(point: GeoPoint): boolean {
+        return Number.isFinite(point.latitude) && Number.isFinite(point.longitude) &&
+            !(point.latitude === 0 && point.longitude === 0) &&
+            Math.abs(point.latitude) <= 90 && Math.abs(point.longitude) <= 180;
+    }
+}
+
+export interface GeoPoint {
+    latitude: number;
+    longitude: number;
+}
+
+export interface LocalPoint {
+    x: number; // metres east
+    y: number; // metres north
+}
@@ -0,0 +1,185 @@
+import { TelemetryFrame } from '../entities/TelemetryFrame';
+import { TheoreticalBestService, ScaledLap, SegmentBest } from './TheoreticalBestService';
+import { SeriesMath } from './SeriesMath';
+
+/**
+ * Domain Service: IdealLapBuilder
+ * Builds a synthetic lap by stitching together the telemetry of a vehicle's
+ * fastest mini-sectors.
+ *
+ * Algorithm:
+ * 1. Scale the laps to a common length and find the best lap per mini-sector
+ * 2. Walk a distance grid; each point takes its channels from the lap that
+ *    owns that mini-sector
+ * 3. Around each boundary, cross-fade linearly from one source lap to the next
+ *    over blendM metres so speed and position do not jump
+ * 4. Elapsed time accumulates the (blended) time steps of the source laps
+ *
+ * The result uses a derived vehicle id so it can sit in telemetry data and be
+ * selected like any loaded lap.
+ */
+export class IdealLapBuilder {
+    static readonly LAP_NUMBER = 0;
+    private static readonly ID_SUFFIX = '~ideal';
+
+    private readonly _theoreticalBest = new TheoreticalBestService();
+
+    /**
+     * Vehicle id the ideal lap of a vehicle is stored under
+     */
+    static vehicleIdFor(vehicleId: string): string {
+        return `${vehicleId}${IdealLapBuilder.ID_SUFFIX}`;
+    }
+
+    static isIdeal(vehicleId: string): boolean {
+        return vehicleId.endsWith(IdealLapBuilder.ID_SUFFIX);
+    }
+
+    /**
+     * Source vehicle of an ideal lap id (other ids are returned unchanged)
+     */
+    static sourceVehicleId(vehicleId: string): string {
+        return IdealLapBuilder.isIdeal(vehicleId)
+            ? vehicleId.slice(0, -IdealLapBuilder.ID_SUFFIX.length)
+            : vehicleId;
+    }
+
+    /**
+     * Business Logic: Build the ideal lap from one vehicle's laps
+     * @returns null when fewer than two complete laps are available, or a
+     *          best segment's lap is not among them
+     */
+    build(laps: TelemetryFrame[][], options: Partial<IdealLapOptions> = {}): IdealLap | null {
+        const { miniSectors, blendM, stepM } = { ...DEFAULT_OPTIONS, ...options };
+
+        const scaled = this._theoreticalBest.scaleLaps(laps);
+        if (!scaled || scaled.laps.length < 2) return null;
+
+        const best = this._theoreticalBest.calculate(this._theoreticalBest.fromTelemetry(laps, miniSectors));
+        if (!best) return null;
+
+        const edges = this._theoreticalBest.miniSectorEdges(scaled.lengthM, miniSectors);
+        const sources: ScaledLap[] = [];
+        for (const segment of best.segments) {
+            const source = scaled.laps.find(l => l.vehicleId === segment.vehicleId && l.lapNumber === segment.lapNumber);
+            if (!source) return null;
+            sources.push(source);
+        }
+        const minSegment = Math.min(...edges.slice(1).map((e, i) => e - edges[i]));
+        const half = Math.min(blendM, minSegment) / 2;
+
+        const grid: number[] = [];
+        for (let d = 0; d < scaled.lengthM; d += stepM) grid.push(d);
+        grid.push(scaled.lengthM);
+
+        const sourceVehicleId = sources[0].vehicleId;
+        const startTime = sources[0].frames[0].timestamp.getTime();
+        const frames: TelemetryFrame[] = [];
+        let elapsed = 0;
+
+        grid.forEach((d, index) => {
+            const weights = this.weightsAt(d, edges, sources, half);
+            const mix = (channel: (f: TelemetryFrame, lap: ScaledLap, i: number) => number) =>
+                weights.reduce((sum, [lap, w]) => sum + w * this.valueAt(lap, d, channel), 0);
+
+            if (index > 0) {
+                // Time step from the same blend of laps over this grid step
+                const from = grid[index - 1];
+                elapsed += weights.reduce((sum, [lap, w]) => sum + w * (
+                    this.valueAt(lap, d, (_, l, i) => l.elapsed[i]) -
+                    this.valueAt(lap, from, (_, l, i) => l.elapsed[i])
+                ), 0);
+            }
+
+            const dominant = weights.reduce((a, b) => (b[1] > a[1] ? b : a))[0];
+            const nearest = dominant.frames[SeriesMath.indexAt(dominant.distance, d)];
+
+            frames.push(new TelemetryFrame({
+                timestamp: new Date(startTime + Math.round(elapsed)),
+                vehicleId: IdealLapBuilder.vehicleIdFor(sourceVehicleId),
+                lap: IdealLapBuilder.LAP_NUMBER,
+                speed: Math.max(0, mix(f => f.speed)),
+                throttlePos: Math.min(100, Math.max(0, mix(f => f.throttlePos))),
+                brakePos: Math.min(100, Math.max(0, mix(f => f.brakePos))),
+                gpsLatitude: mix(f => f.gpsLatitude),
+                gpsLongitude: mix(f => f.gpsLongitude),
+                steeringAngle: nearest.steeringAngle !== undefined ? mix(f => f.steeringAngle ?? 0) : undefined,
+                gear: nearest.gear,
+                lapDistance: d
+            }));
+        });
+
+        return {
+            vehicleId: sourceVehicleId,
+            frames,
+            segments: best.segments,
+            theoreticalMs: best.theoreticalMs,
+            idealMs: elapsed
+        };
+    }
+
+    /**
+     * Source laps and their weights at a distance
+     * Inside a blend zone the weight moves linearly from the lap before the
+     * boundary to the lap after it.
+     */
+    private weightsAt(d: number, edges: number[], sources: ScaledLap[], half: number): Array<[ScaledLap, number]> {
+        let k = 0;
+        while (k < sources.length - 1 && d >= edges[k + 1]) k++;
+
+        if (half > 0 && k > 0 && d < edges[k] + half) {
+            const w = (d - (edges[k] - half)) / (2 * half);
+            return this.blend(sources[k - 1], sources[k], w);
+        }
+        if (half > 0 && k < sources.length - 1 && d > edges[k + 1] - half) {
+            const w = (d - (edges[k + 1] - half)) / (2 * half);
+            return this.blend(sources[k], sources[k + 1], w);
+        }
+        return [[sources[k], 1]];
+    }
+
+    private blend(from: ScaledLap, to: ScaledLap, w: number): Array<[ScaledLap, number]> {
+        if (from === to) return [[from, 1]];
+        return [[from, 1 - w], [to, w]];
+    }
+
+    /**
+     * Linear interpolation of a channel at a scaled distance (clamped at the ends)
+     */
+    private valueAt(
+        lap: ScaledLap,
+        d: number,
+        channel: (frame: TelemetryFrame, lap: ScaledLap, index: number) => number
+    ): number {
+        const xs = lap.distance;
+        const last = xs.length - 1;
+        if (d <= xs[0]) return channel(lap.frames[0], lap, 0);
+        if (d >= xs[last]) return channel(lap.frames[last], lap, last);
+
+        const i = SeriesMath.indexAt(xs, d);
+        const a = channel(lap.frames[i], lap, i);
+        const b = channel(lap.frames[i + 1], lap, i + 1);
+        const span = xs[i + 1] - xs[i];
+        return span > 0 ? a + (b - a) * (d - xs[i]) / span : a;
+    }
+}
+
+const DEFAULT_OPTIONS: IdealLapOptions = {
+    miniSectors: 20,
+    blendM: 20,
+    stepM: 2
+};
+
+export interface IdealLapOptions {
+    miniSectors: number | number[]; // count, or boundary distances in metres
+    blendM: number; // cross-fade length around each mini-sector boundary
+    stepM: number; // distance between synthetic frames
+}
+
+export interface IdealLap {
+    vehicleId: string; // source vehicle
+    frames: TelemetryFrame[];
+    segments: SegmentBest[]; // lap each mini-sector came from
+    theoreticalMs: number; // sum of best mini-sectors
+    idealMs: number; // duration of the stitched lap
+}
@@ -0,0 +1,87 @@
+import { TelemetryFrame } from '../entities/TelemetryFrame';
+import { GeoCalculator } from './GeoCalculator';
+
+/**
+ * Domain Service: LapDistanceCalculator
+ * Computes cumulative distance from the start of the lap for every frame.
+ *
+ * Strategy Pattern: the distance source is selectable
+ * - 'speed': trapezoidal integration of speed over time (works without GPS)
+ * - 'gps':   sum of haversine distances between consecutive valid fixes
+ *
+ * Distance restarts at 0 for each vehicle/lap, so traces from different laps
+ * share an X axis.
+ */
+export class LapDistanceCalculator {
+    /**
+     * Return frames with lapDistance set (input order is preserved)
+     */
+    apply(frames: TelemetryFrame[], method: LapDistanceMethod = 'speed'): TelemetryFrame[] {
+        const byLap = new Map<string, number[]>();
+        frames.forEach((frame, i) => {
+            const key = `${frame.vehicleId}-${frame.lap}`;
+            const indices = byLap.get(key) || [];
+            indices.push(i);
+            byLap.set(key, indices);
+        });
+
+        const result = [...frames];
+        for (const indices of byLap.values()) {
+            indices.sort((a, b) => frames[a].timestamp.getTime() - frames[b].timestamp.getTime());
+            const lapFrames = indices.map(i => frames[i]);
+            const distances = method === 'gps'
+                ? this.fromGps(lapFrames)
+                : this.fromSpeed(lapFrames);
+
+            indices.forEach((frameIndex, k) => {
+                result[frameIndex] = new TelemetryFrame({ ...frames[frameIndex].toJSON(), lapDistance: distances[k] });
+            });
+        }
+
+        return result;
+    }
+
+    /**
+     * Integrate speed (km/h) over time, trapezoidal rule
+     * @param frames One lap, sorted by time
+     */
+    fromSpeed(frames: TelemetryFrame[]): number[] {
+        const distances: number[] = [];
+        let total = 0;
+
+        for (let i = 0; i < frames.length; i++) {
+            if (i > 0) {
+                const dtSeconds = (frames[i].timestamp.getTime() - frames[i - 1].timestamp.getTime()) / 1000;
+                const avgSpeedMs = (frames[i].speed + frames[i - 1].speed) / 2 / 3.6;
+                total += avgSpeedMs * dtSeconds;
+            }
+            distances.push(total);
+        }
+
+        return distances;
+    }
+
+    /**
+     * Sum great-circle steps between valid GPS fixes
+     * Frames without a fix keep the distance of the last valid one.
+     * @param frames One lap, sorted by time
+     */
+    fromGps(frames: TelemetryFrame[]): number[] {
+        const distances: number[] = [];
+        let total = 0;
+        let last: { latitude: number; longitude: number } | null = null;
+
+        for (const frame of frames) {
+            const fix = { latitude: frame.gpsLatitude, longitude: frame.gpsLongitude };
+            if (GeoCalculator.isValidFix(fix)) {
+                if (last) total += GeoCalculator.haversineDistance(last, fix);
+                last = fix;
+            }
+            distances.push(total);
+        }
+
+        return distances;
+    }
+}
+
+export type LapDistanceMethod = 'speed' | 'gps';
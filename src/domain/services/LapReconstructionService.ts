@@ -0,0 +1,199 @@
+import { Lap } from '../entities/Lap';
+import { TelemetryFrame } from '../entities/TelemetryFrame';
+import { TimingLine } from '../entities/TimingLine';
+import { Vehicle } from '../entities/Vehicle';
+import { GeoCalculator } from './GeoCalculator';
+
+/**
+ * Domain Service: LapReconstructionService
+ * Rebuilds laps from GPS crossings of a timing line instead of trusting
+ * the logger's lap counter.
+ *
+ * Algorithm:
+ * 1. Walk consecutive GPS fixes and intersect each step with the timing line
+ * 2. Interpolate the crossing time along the step
+ * 3. Keep crossings in the dominant direction, at least minLapTimeMs apart
+ * 4. Each pair of consecutive crossings is one lap
+ *
+ * Frames before the first crossing belong to the out-lap and frames after the
+ * last crossing to the in-lap; both are relabelled but produce no Lap entity
+ * because one of their ends is not a timing-line crossing.
+ */
+export class LapReconstructionService {
+    /**
+     * Find timing line crossings in a vehicle's frames
+     */
+    findCrossings(
+        frames: TelemetryFrame[],
+        timingLine: TimingLine,
+        minLapTimeMs: number = 30000
+    ): LineCrossing[] {
+        const sorted = this.withValidFixes(frames);
+        const raw: LineCrossing[] = [];
+
+        for (let i = 1; i < sorted.length; i++) {
+            const prev = sorted[i - 1];
+            const curr = sorted[i];
+            const hit = timingLine.intersect(
+                { latitude: prev.gpsLatitude, longitude: prev.gpsLongitude },
+                { latitude: curr.gpsLatitude, longitude: curr.gpsLongitude }
+            );
+            if (!hit) continue;
+
+            const t0 = prev.timestamp.getTime();
+            const t1 = curr.timestamp.getTime();
+            raw.push({
+                time: new Date(t0 + (t1 - t0) * hit.fraction),
+                direction: hit.direction
+            });
+        }
+
+        // Racing direction is whichever way most crossings go
+        const forward = raw.filter(c => c.direction === 1).length >= raw.filter(c => c.direction === -1).length ? 1 : -1;
+
+        const crossings: LineCrossing[] = [];
+        for (const crossing of raw) {
+            if (crossing.direction !== forward) continue;
+            const last = crossings[crossings.length - 1];
+            // Debounce GPS jitter around the line
+            if (last && crossing.time.getTime() - last.time.getTime() < minLapTimeMs) continue;
+            crossings.push(crossing);
+        }
+
+        return crossings;
+    }
+
+    /**
+     * Re-split a vehicle's frames into laps bounded by timing line crossings
+     */
+    reconstruct(
+        frames: TelemetryFrame[],
+        vehicle: Vehicle,
+        timingLine: TimingLine,
+        options: ReconstructionOptions = {}
+    ): LapReconstruction {
+        const { firstLapNumber = 1, minLapTimeMs = 30000 } = options;
+        const sorted = [...frames].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+        const crossings = this.findCrossings(sorted, timingLine, minLapTimeMs);
+
+        const laps: Lap[] = [];
+        for (let i = 1; i < crossings.length; i++) {
+            laps.push(new Lap({
+                lapNumber: firstLapNumber + i - 1,
+                vehicle,
+                startTime: crossings[i - 1].time,
+                endTime: crossings[i].time
+            }));
+        }
+
+        // Relabel frames: lap n runs from crossing n-1 (exclusive of earlier frames) to crossing n
+        const relabelled: TelemetryFrame[] = [];
+        let crossingIndex = 0;
+        for (const frame of sorted) {
+            const time = frame.timestamp.getTime();
+            while (crossingIndex < crossings.length && crossings[crossingIndex].time.getTime() <= time) {
+                crossingIndex++;
+            }
+            const lap = Math.max(firstLapNumber - 1 + crossingIndex, 0);
+            relabelled.push(lap === frame.lap ? frame : new TelemetryFrame({ ...frame.toJSON(), lap }));
+        }
+
+        return { laps, frames: relabelled, crossings };
+    }
+
+    /**
+     * Check reconstructed laps against laps from timing files
+     * Laps are paired by nearest end time; unmatched or mismatched pairs are reported.
+     */
+    compareWithTimedLaps(
+        reconstructed: readonly Lap[],
+        timed: readonly Lap[],
+        toleranceMs: number = 500
+    ): LapDiscrepancy[] {
+        const discrepancies: LapDiscrepancy[] = [];
+
+        for (const lap of reconstructed) {
+            const match = this.matchTimedLap(lap, timed);
+            if (!match) {
+                discrepancies.push({ reconstructedLap: lap.lapNumber, timedLap: null, kind: 'missing', deltaMs: null });
+                continue;
+            }
+
+            const deltaMs = lap.durationMs - match.durationMs;
+            if (match.lapNumber !== lap.lapNumber) {
+                discrepancies.push({ reconstructedLap: lap.lapNumber, timedLap: match.lapNumber, kind: 'lap-number', deltaMs });
+            } else if (Math.abs(deltaMs) > toleranceMs) {
+                discrepancies.push({ reconstructedLap: lap.lapNumber, timedLap: match.lapNumber, kind: 'duration', deltaMs });
+            }
+        }
+
+        return discrepancies;
+    }
+
+    /**
+     * Reconstructed laps with the sector times and the caution, traffic and
+     * validity tags of the timed lap each one pairs with (laps without a
+     * pair come back unchanged)
+     */
+    withTimedLapData(reconstructed: readonly Lap[], timed: readonly Lap[]): Lap[] {
+        return reconstructed.map(lap => {
+            const match = this.matchTimedLap(lap, timed);
+            if (!match) return lap;
+            return new Lap({
+                lapNumber: lap.lapNumber,
+                vehicle: lap.vehicle,
+                startTime: lap.startTime,
+                endTime: lap.endTime,
+                sectorTimes: Object.fromEntries(match.sectorTimes),
+                caution: match.caution,
+                traffic: match.traffic,
+                valid: match.isValid
+            });
+        });
+    }
+
+    /**
+     * Timed lap ending nearest this one, if within half its duration
+     */
+    private matchTimedLap(lap: Lap, timed: readonly Lap[]): Lap | null {
+        let match: Lap | null = null;
+        let bestGap = Infinity;
+        for (const candidate of timed) {
+            const gap = Math.abs(candidate.endTime.getTime() - lap.endTime.getTime());
+            if (gap < bestGap) {
+                bestGap = gap;
+                match = candidate;
+            }
+        }
+        return match && bestGap <= lap.durationMs / 2 ? match : null;
+    }
+
+    private withValidFixes(frames: TelemetryFrame[]): TelemetryFrame[] {
+        return frames
+            .filter(f => GeoCalculator.isValidFix({ latitude: f.gpsLatitude, longitude: f.gpsLongitude }))
+            .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    }
+}
+
+export interface LineCrossing {
+    time: Date;
+    direction: 1 | -1;
+}
+
+export interface ReconstructionOptions {
+    firstLapNumber?: number;
+    minLapTimeMs?: number;
+}
+
+export interface LapReconstruction {
+    laps: Lap[];
+    frames: TelemetryFrame[];
+    crossings: LineCrossing[];
+}
+
+export interface LapDiscrepancy {
+    reconstructedLap: number;
+    timedLap: number | null;
+    kind: 'missing' | 'lap-number' | 'duration';
+    deltaMs: number | null;
+}
@@ -0,0 +1,234 @@
+import { SeededRandom } from './SeededRandom';
+import { StrategySimulator, StrategyModel, StrategySweep } from './StrategySimulator';
+
+/**
+ * Domain Service: MonteCarloRaceSimulator
+ * Runs the whole field through many random races and counts where each car
+ * finishes under each of its candidate strategies.
+ *
+ * Each run samples:
+ * - Lap-time noise per car and lap (normal, the car's lap consistency)
+ * - Full-course yellows: a caution can start on any green lap and lasts a
+ *   few laps; the field laps at caution pace and closes up behind the
+ *   leader, and pit stops under it lose less time
+ * - Pit-loss noise per car (normal)
+ *
+ * Algorithm: one baseline block where every car runs its baseline strategy,
+ * then one block per car and alternative strategy with the others on
+ * baseline. Every block restarts from the same seed and draws the same
+ * numbers in the same order whatever the strategies (common random
+ * numbers), so run i of each block sees the same cautions and noise and
+ * strategies are compared on identical races.
+ *
+ * Inputs and results are plain data so the simulation can run in a worker.
+ */
+export class MonteCarloRaceSimulator {
+    private readonly strategySimulator = new StrategySimulator();
+
+    /**
+     * Candidate strategies for a car from its deterministic sweep
+     * The first one (the best pit lap) is the baseline.
+     */
+    static strategiesFor(sweep: StrategySweep, offsetLaps: number = 5, cautionLookbackLaps: number = 8): RaceStrategy[] {
+        const best = sweep.bestPitLap;
+        const noStop: RaceStrategy = { id: 'no-stop', label: 'No stop', pitLap: null, cautionFromLap: null };
+        if (best === null) return [noStop];
+
+        const strategies: RaceStrategy[] = [
+            { id: 'optimal', label: `Optimal (L${best})`, pitLap: best, cautionFromLap: null }
+        ];
+        if (best - offsetLaps >= 1) {
+            strategies.push({ id: 'early', label: `Early (L${best - offsetLaps})`, pitLap: best - offsetLaps, cautionFromLap: null });
+        }
+        if (best + offsetLaps < sweep.model.raceLaps) {
+            strategies.push({ id: 'late', label: `Late (L${best + offsetLaps})`, pitLap: best + offsetLaps, cautionFromLap: null });
+        }
+        const from = Math.max(1, best - cautionLookbackLaps);
+        strategies.push({ id: 'caution', label: `Caution from L${from}, else L${best}`, pitLap: best, cautionFromLap: from });
+        strategies.push(noStop);
+        return strategies;
+    }
+
+    /**
+     * Business Logic: Finishing-position distribution per car and strategy
+     * @param onProgress Called with completed and total runs
+     */
+    run(input: MonteCarloInput, onProgress?: (completed: number, total: number) => void): MonteCarloResult {
+        const opts = { ...DEFAULT_OPTIONS, ...input.options };
+        const cars = input.cars;
+        const blocks = 1 + cars.reduce((sum, car) => sum + Math.max(0, car.strategies.length - 1), 0);
+        const total = blocks * opts.runs;
+        let completed = 0;
+        const step = Math.max(1, Math.floor(opts.runs / 10));
+
+        const runBlock = (strategyIndex: number[], record: (positions: number[]) => void) => {
+            const rng = new SeededRandom(opts.seed);
+            for (let r = 0; r < opts.runs; r++) {
+                record(this.simulateRace(cars, strategyIndex, input.raceLaps, opts, rng));
+                completed++;
+                if (onProgress && (completed % step === 0 || completed === total)) onProgress(completed, total);
+            }
+        };
+        const emptyCounts = () => new Array<number>(cars.length).fill(0);
+
+        // Baseline: every car on strategy 0
+        const baselineCounts = cars.map(emptyCounts);
+        const baseline = cars.map(() => 0);
+        runBlock(baseline, positions => positions.forEach((p, i) => { baselineCounts[i][p]++; }));
+
+        const results: CarOutcome[] = cars.map((car, carIndex) => ({
+            vehicleId: car.vehicleId,
+            strategies: car.strategies.map((strategy, strategyIndex) => {
+                let counts = baselineCounts[carIndex];
+                if (strategyIndex > 0) {
+                    counts = emptyCounts();
+                    const assignment = [...baseline];
+                    assignment[carIndex] = strategyIndex;
+                    const own = counts;
+                    runBlock(assignment, positions => { own[positions[carIndex]]++; });
+                }
+                const probabilities = counts.map(c => c / opts.runs);
+                return {
+                    strategy,
+                    positionProbabilities: probabilities,
+                    meanPosition: probabilities.reduce((sum, p, i) => sum + p * (i + 1), 0)
+                };
+            })
+        }));
+
+        return { runs: opts.runs, seed: opts.seed, cars: results };
+    }
+
+    /**
+     * One race; returns each car's finishing position index (0 = winner)
+     */
+    private simulateRace(
+        cars: readonly MonteCarloCar[],
+        strategyIndex: readonly number[],
+        raceLaps: number,
+        opts: MonteCarloOptions,
+        rng: SeededRandom
+    ): number[] {
+        const cautionChance = Math.min(1, opts.cautionsPerRace / raceLaps);
+        const cautionLapMs = Math.min(...cars.map(c => c.model.basePaceMs)) * opts.cautionLapFactor;
+
+        const pitLoss = cars.map(car => Math.max(0, car.model.pitLossMs + rng.nextNormal() * opts.pitLossStdMs));
+        const totals = cars.map(() => 0);
+        const tyreAge = cars.map(() => 1);
+        const pitted = cars.map(() => false);
+        let cautionLapsLeft = 0;
+
+        for (let lap = 1; lap <= raceLaps; lap++) {
+            if (cautionLapsLeft === 0 && rng.next() < cautionChance) {
+                cautionLapsLeft = rng.nextInt(opts.cautionMinLaps, opts.cautionMaxLaps);
+            }
+            const caution = cautionLapsLeft > 0;
+
+            for (let i = 0; i < cars.length; i++) {
+                const car = cars[i];
+                const noise = rng.nextNormal() * car.lapStdMs;
+                const green = this.strategySimulator.lapTimeMs(car.model, lap, tyreAge[i]) + noise;
+                totals[i] += caution ? Math.max(green, cautionLapMs) : green;
+                tyreAge[i]++;
+
+                const strategy = car.strategies[strategyIndex[i]];
+                if (!pitted[i] && this.pitsOnLap(strategy, lap, caution)) {
+                    totals[i] += pitLoss[i] * (caution ? opts.cautionPitLossFactor : 1);
+                    tyreAge[i] = 1;
+                    pitted[i] = true;
+                }
+            }
+            if (caution) this.closeUp(totals, opts.cautionGapMs, cautionLapMs);
+            if (cautionLapsLeft > 0) cautionLapsLeft--;
+        }
+
+        const order = totals.map((t, i) => i).sort((a, b) => totals[a] - totals[b] || a - b);
+        const positions = new Array<number>(cars.length);
+        order.forEach((carIndex, position) => { positions[carIndex] = position; });
+        return positions;
+    }
+
+    /**
+     * Bunch the field behind the leader under caution
+     * Each car closes to gapMs behind the car ahead, keeping the running
+     * order; cars a caution lap or more behind the leader keep their gap.
+     */
+    private closeUp(totals: number[], gapMs: number, cautionLapMs: number): void {
+        const order = totals.map((t, i) => i).sort((a, b) => totals[a] - totals[b] || a - b);
+        const leaderMs = totals[order[0]];
+        for (let k = 1; k < order.length; k++) {
+            const carIndex = order[k];
+            if (totals[carIndex] - leaderMs >= cautionLapMs) break;
+            totals[carIndex] = Math.min(totals[carIndex], totals[order[k - 1]] + gapMs);
+        }
+    }
+
+    private pitsOnLap(strategy: RaceStrategy, lap: number, caution: boolean): boolean {
+        if (strategy.pitLap === null) return false;
+        if (caution && strategy.cautionFromLap !== null && lap >= strategy.cautionFromLap && lap <= strategy.pitLap) {
+            return true;
+        }
+        return lap === strategy.pitLap;
+    }
+}
+
+const DEFAULT_OPTIONS: MonteCarloOptions = {
+    runs: 1000,
+    seed: 1,
+    cautionsPerRace: 0.5,
+    cautionMinLaps: 2,
+    cautionMaxLaps: 4,
+    cautionLapFactor: 1.4,
+    cautionPitLossFactor: 0.6,
+    cautionGapMs: 1000,
+    pitLossStdMs: 2000
+};
+
+export interface MonteCarloOptions {
+    runs: number; // races per strategy block
+    seed: number;
+    cautionsPerRace: number; // expected full-course yellows per race
+    cautionMinLaps: number;
+    cautionMaxLaps: number;
+    cautionLapFactor: number; // caution lap = fastest base pace x factor
+    cautionPitLossFactor: number; // share of the pit loss paid under caution
+    cautionGapMs: number; // gap between cars queued behind the leader under caution
+    pitLossStdMs: number;
+}
+
+export interface RaceStrategy {
+    id: string;
+    label: string;
+    pitLap: number | null; // stop at the end of this lap, null = no stop
+    cautionFromLap: number | null; // pit early if a caution falls in [cautionFromLap, pitLap]
+}
+
+export interface MonteCarloCar {
+    vehicleId: string;
+    model: StrategyModel;
+    lapStdMs: number; // lap-to-lap standard deviation
+    strategies: RaceStrategy[]; // first is the baseline
+}
+
+export interface MonteCarloInput {
+    raceLaps: number;
+    cars: MonteCarloCar[];
+    options?: Partial<MonteCarloOptions>;
+}
+
+export interface StrategyOutcome {
+    strategy: RaceStrategy;
+    positionProbabilities: number[]; // index 0 = P1
+    meanPosition: number;
+}
+
+export interface CarOutcome {
+    vehicleId: string;
+    strategies: StrategyOutcome[];
+}
+
+export interface MonteCarloResult {
+    runs: number;
+    seed: number;
+    cars: CarOutcome[];
+}
@@ -0,0 +1,262 @@
+import { Lap } from '../entities/Lap';
+import { TelemetryFrame } from '../entities/TelemetryFrame';
+import { TrackLayout } from '../entities/TrackLayout';
+import { GeoCalculator } from './GeoCalculator';
+import { LapDistanceCalculator } from './LapDistanceCalculator';
+
+/**
+ * Domain Service: OvertakeDetector
+ * Finds where on track one car passed another, from the cars' telemetry.
+ *
+ * Algorithm:
+ * 1. Put every frame on the shared session clock: the lap's official start
+ *    time plus the frame's time since the lap's first frame (logger clocks
+ *    of different cars need not agree)
+ * 2. Race distance = completed laps x lap length + lap distance, with each
+ *    complete lap's distance scaled to the common lap length
+ * 3. For every pair of cars, step through the time both are on track and
+ *    follow the gap between them in lap distance (wrapped to +-half a lap).
+ *    A pass is the gap changing sign and the new order holding for holdMs
+ *    with at least marginM between the cars, so side-by-side GPS jitter is
+ *    not counted as a string of passes
+ * 4. A pass where the cars are on the same lap changes position; one a lap
+ *    or more apart is a car being lapped (or unlapping itself)
+ */
+export class OvertakeDetector {
+    /**
+     * Business Logic: Detect passes between every pair of cars
+     * @param laps Official laps of every car (for the session clock)
+     * @param telemetry vehicleId -> lap number -> frames
+     * @param layout Names the corner or straight of each pass; its length is the lap length
+     * @param pitLaps vehicleId -> in and out laps, to flag passes in the pit sequence
+     */
+    detect(
+        laps: readonly Lap[],
+        telemetry: ReadonlyMap<string, ReadonlyMap<number, TelemetryFrame[]>>,
+        layout: TrackLayout | null = null,
+        pitLaps: ReadonlyMap<string, ReadonlySet<number>> = new Map(),
+        options: Partial<OvertakeOptions> = {}
+    ): Overtake[] {
+        const opts = { ...DEFAULT_OPTIONS, ...options };
+        const lapLengthM = layout?.lengthM ?? this.medianLapLength(telemetry);
+        if (!lapLengthM) return [];
+
+        const starts = new Map(laps.map(l => [`${l.vehicle.id}-${l.lapNumber}`, l.startTime.getTime()]));
+        const traces = Array.from(telemetry.entries())
+            .map(([vehicleId, byLap]) => this.buildTrace(vehicleId, byLap, starts, lapLengthM))
+            .filter(trace => trace.samples.length > 1);
+
+        const overtakes: Overtake[] = [];
+        for (let i = 0; i < traces.length; i++) {
+            for (let j = i + 1; j < traces.length; j++) {
+                overtakes.push(...this.detectPair(traces[i], traces[j], lapLengthM, layout, pitLaps, opts));
+            }
+        }
+
+        return overtakes.sort((a, b) => a.time.getTime() - b.time.getTime());
+    }
+
+    private detectPair(
+        a: CarTrace,
+        b: CarTrace,
+        lapLengthM: number,
+        layout: TrackLayout | null,
+        pitLaps: ReadonlyMap<string, ReadonlySet<number>>,
+        opts: OvertakeOptions
+    ): Overtake[] {
+        const from = Math.max(a.samples[0].time, b.samples[0].time);
+        const to = Math.min(a.samples[a.samples.length - 1].time, b.samples[b.samples.length - 1].time);
+        if (to <= from) return [];
+
+        const passes: Overtake[] = [];
+        const cursorA = { index: 0 };
+        const cursorB = { index: 0 };
+        let order = 0; // +1: a ahead in lap distance, -1: b ahead
+        let previous: { time: number; gap: number } | null = null;
+        let lastZero: number | null = null;
+        let pending: { since: number; crossing: number } | null = null;
+
+        for (let t = from; t <= to; t += opts.stepMs) {
+            const sa = this.sampleAt(a, t, cursorA, opts.maxGapMs);
+            const sb = this.sampleAt(b, t, cursorB, opts.maxGapMs);
+            if (!sa || !sb) {
+                // A hole in either trace: start over on the other side
+                order = 0;
+                previous = null;
+                pending = null;
+                continue;
+            }
+
+            const diff = sa.raceDistance - sb.raceDistance;
+            const wrapped = diff - Math.round(diff / lapLengthM) * lapLengthM;
+            const sign = Math.sign(wrapped);
+            if (previous && Math.abs(wrapped - previous.gap) > lapLengthM / 2) {
+                // Half a lap apart: the wrapped gap jumps sign but nobody passed
+                if (order !== 0) order = sign;
+                pending = null;
+            } else if (previous && Math.sign(previous.gap) !== sign) {
+                // Gap through zero: interpolate the moment the cars were level
+                const span = previous.gap - wrapped;
+                lastZero = span === 0 ? t : previous.time + (t - previous.time) * previous.gap / span;
+            }
+            previous = { time: t, gap: wrapped };
+
+            if (Math.abs(wrapped) < opts.marginM) continue;
+            if (order === 0) {
+                order = sign;
+                continue;
+            }
+            if (sign === order) {
+                pending = null;
+                continue;
+            }
+
+            pending = pending ?? { since: t, crossing: lastZero ?? t };
+            if (t - pending.since < opts.holdMs) continue;
+
+            // Confirmed: the car now ahead passed the other at the crossing
+            const crossing = pending.crossing;
+            const passerTrace = sign > 0 ? a : b;
+            const passedTrace = sign > 0 ? b : a;
+            const passer = this.sampleAt(passerTrace, crossing, { index: 0 }, opts.maxGapMs) ?? (sign > 0 ? sa : sb);
+            const passed = this.sampleAt(passedTrace, crossing, { index: 0 }, opts.maxGapMs) ?? (sign > 0 ? sb : sa);
+            const lapDistance = ((passer.raceDistance % lapLengthM) + lapLengthM) % lapLengthM;
+
+            passes.push({
+                time: new Date(crossing),
+                lapNumber: passer.lapNumber,
+                passingVehicleId: passerTrace.vehicleId,
+                passedVehicleId: passedTrace.vehicleId,
+                kind: Math.round((passer.raceDistance - passed.raceDistance) / lapLengthM) === 0 ? 'position' : 'lapping',
+                lapDistance,
+                latitude: passer.latitude,
+                longitude: passer.longitude,
+                segmentId: layout?.segmentAt(lapDistance, lapLengthM)?.id ?? null,
+                inPitSequence: (pitLaps.get(passerTrace.vehicleId)?.has(passer.lapNumber) ?? false) ||
+                    (pitLaps.get(passedTrace.vehicleId)?.has(passed.lapNumber) ?? false)
+            });
+            order = sign;
+            pending = null;
+        }
+
+        return passes;
+    }
+
+    /**
+     * One car's frames on the session clock with race distance
+     */
+    private buildTrace(
+        vehicleId: string,
+        byLap: ReadonlyMap<number, TelemetryFrame[]>,
+        starts: ReadonlyMap<string, number>,
+        lapLengthM: number
+    ): CarTrace {
+        const distanceCalculator = new LapDistanceCalculator();
+        const samples: TraceSample[] = [];
+
+        byLap.forEach((frames, lapNumber) => {
+            if (frames.length < 2) return;
+            const sorted = [...frames].sort((x, y) => x.timestamp.getTime() - y.timestamp.getTime());
+            const first = sorted[0].timestamp.getTime();
+            const lapStart = starts.get(`${vehicleId}-${lapNumber}`) ?? first;
+
+            const measured = sorted.every(f => f.lapDistance !== undefined)
+                ? sorted.map(f => f.lapDistance ?? 0)
+                : distanceCalculator.fromSpeed(sorted);
+            const lapM = measured[measured.length - 1];
+            // Complete laps are scaled to the common length; partial ones kept as measured
+            const scale = lapM > lapLengthM * 0.9 && lapM < lapLengthM * 1.1 ? lapLengthM / lapM : 1;
+
+            sorted.forEach((frame, k) => {
+                samples.push({
+                    time: lapStart + (frame.timestamp.getTime() - first),
+                    raceDistance: (lapNumber - 1) * lapLengthM + measured[k] * scale,
+                    lapNumber,
+                    latitude: frame.gpsLatitude,
+                    longitude: frame.gpsLongitude
+                });
+            });
+        });
+
+        samples.sort((x, y) => x.time - y.time);
+        return { vehicleId, samples };
+    }
+
+    /**
+     * Interpolated sample at time t; null in holes longer than maxGapMs
+     * The cursor only moves forward, so a pass over increasing t is linear.
+     */
+    private sampleAt(trace: CarTrace, t: number, cursor: { index: number }, maxGapMs: number): TraceSample | null {
+        const samples = trace.samples;
+        while (cursor.index < samples.length - 2 && samples[cursor.index + 1].time <= t) cursor.index++;
+        const p = samples[cursor.index];
+        const q = samples[cursor.index + 1];
+        if (!q || t < p.time || t > q.time || q.time - p.time > maxGapMs) return null;
+
+        const f = q.time === p.time ? 0 : (t - p.time) / (q.time - p.time);
+        const validFixes = GeoCalculator.isValidFix(p) && GeoCalculator.isValidFix(q);
+        return {
+            time: t,
+            raceDistance: p.raceDistance + (q.raceDistance - p.raceDistance) * f,
+            lapNumber: f < 0.5 ? p.lapNumber : q.lapNumber,
+            latitude: validFixes ? p.latitude + (q.latitude - p.latitude) * f : p.latitude,
+            longitude: validFixes ? p.longitude + (q.longitude - p.longitude) * f : p.longitude
+        };
+    }
+
+    private medianLapLength(telemetry: ReadonlyMap<string, ReadonlyMap<number, TelemetryFrame[]>>): number | null {
+        const calculator = new LapDistanceCalculator();
+        const lengths: number[] = [];
+        telemetry.forEach(byLap => byLap.forEach(frames => {
+            if (frames.length < 2) return;
+            const sorted = [...frames].sort((x, y) => x.timestamp.getTime() - y.timestamp.getTime());
+            const last = sorted[sorted.length - 1].lapDistance;
+            lengths.push(last ?? calculator.fromSpeed(sorted)[sorted.length - 1]);
+        }));
+        if (lengths.length === 0) return null;
+        lengths.sort((x, y) => x - y);
+        return lengths[Math.floor(lengths.length / 2)] || null;
+    }
+}
+
+interface TraceSample {
+    time: number; // session clock, ms
+    raceDistance: number; // metres since the start of lap 1
+    lapNumber: number;
+    latitude: number;
+    longitude: number;
+}
+
+interface CarTrace {
+    vehicleId: string;
+    samples: TraceSample[]; // by time
+}
+
+const DEFAULT_OPTIONS: OvertakeOptions = {
+    stepMs: 250,
+    marginM: 3,
+    holdMs: 2000,
+    maxGapMs: 2000
+};
+
+export interface OvertakeOptions {
+    stepMs: number; // time step when comparing two cars
+    marginM: number; // the new order must be at least this clear
+    holdMs: number; // ...for at least this long
+    maxGapMs: number; // longer holes in a trace break the comparison
+}
+
+export type OvertakeKind = 'position' | 'lapping';
+
+export interface Overtake {
+    time: Date; // session clock
+    lapNumber: number; // the passing car's lap
+    passingVehicleId: string;
+    passedVehicleId: string;
+    kind: OvertakeKind; // 'lapping' when the cars are a lap or more apart
+    lapDistance: number; // metres from start/finish
+    latitude: number;
+    longitude: number;
+    segmentId: string | null; // corner or straight, when a track layout is known
+    inPitSequence: boolean; // either car on an in lap or out lap
+}
@@ -0,0 +1,206 @@
+import { Lap } from '../entities/Lap';
+import { Stint } from '../entities/Stint';
+import { TelemetryFrame } from '../entities/TelemetryFrame';
+import { GeoCalculator, GeoPoint } from './GeoCalculator';
+
+/**
+ * Domain Service: PitStopDetector
+ * Finds pit stops in one car's laps and splits the race into stints.
+ *
+ * Evidence per lap:
+ * - Lap-time spike: slower than the car's median lap by spikeFactor
+ * - Pit lane: enough GPS fixes inside the pit-lane polygon
+ * - Speed limiter: speed held flat at the pit speed limit for a few seconds
+ *
+ * A spike alone only counts when the lap has no telemetry to confirm or rule
+ * it out, and only when it costs as much as a stop: the lap, or the lap and
+ * the one after it (in lap and out lap), must lose minPitLossMs over the
+ * median. A smaller spike is traffic, a spin or a slow lap. With telemetry, a
+ * slow lap without pit-lane or limiter evidence is traffic or a caution, not
+ * a stop. Laps tagged as caution laps are slow for the whole field, so a
+ * spike on one never counts on its own either.
+ *
+ * Consecutive pit laps form one stop: the first is the in lap, the lap after
+ * it (or the last of the run) is the out lap.
+ */
+export class PitStopDetector {
+    /**
+     * Business Logic: Detect pit stops
+     * @param telemetry Frames per lap number (optional, any subset of laps)
+     */
+    detect(laps: readonly Lap[], input: PitDetectionInput = {}): PitStop[] {
+        if (laps.length === 0) return [];
+        const opts = { ...DEFAULT_OPTIONS, ...input.options };
+
+        const sorted = [...laps].sort((a, b) => a.lapNumber - b.lapNumber);
+        const median = this.medianDuration(sorted);
+        const lastLap = sorted[sorted.length - 1].lapNumber;
+
+        const lossMs = (lap: Lap | undefined) => lap ? Math.max(0, lap.durationMs - median) : 0;
+
+        const pitLaps: Array<{ lap: Lap; evidence: PitEvidence[]; pitLaneMs: number | null }> = [];
+        for (const [index, lap] of sorted.entries()) {
+            const frames = input.telemetry?.get(lap.lapNumber) ?? [];
+            const evidence: PitEvidence[] = [];
+
+            const spike = lap.durationMs > median * opts.spikeFactor && !lap.isCautionLap;
+            if (spike) evidence.push('lapTime');
+
+            const pitLaneMs = input.pitLane && input.pitLane.length >= 3
+                ? this.timeInPolygon(frames, input.pitLane, opts.minPitLaneFrames)
+                : null;
+            if (pitLaneMs !== null && pitLaneMs > 0) evidence.push('pitLane');
+            if (this.hasLimiterSignature(frames, opts)) evidence.push('speedLimiter');
+
+            const confirmed = evidence.some(e => e !== 'lapTime');
+            const next = sorted[index + 1];
+            const stopSized = lossMs(lap) + (next?.lapNumber === lap.lapNumber + 1 ? lossMs(next) : 0) >= opts.minPitLossMs;
+            if (confirmed || (spike && frames.length === 0 && stopSized)) {
+                pitLaps.push({ lap, evidence, pitLaneMs });
+            }
+        }
+
+        // Group consecutive pit laps into stops
+        const stops: PitStop[] = [];
+        let i = 0;
+        while (i < pitLaps.length) {
+            let j = i;
+            while (j + 1 < pitLaps.length && pitLaps[j + 1].lap.lapNumber === pitLaps[j].lap.lapNumber + 1) j++;
+
+            const group = pitLaps.slice(i, j + 1);
+            const inLap = group[0].lap.lapNumber;
+            const outLapNumber = group.length > 1 ? group[group.length - 1].lap.lapNumber : inLap + 1;
+            const outLap = outLapNumber <= lastLap ? outLapNumber : null;
+
+            const stopLaps = sorted.filter(l => l.lapNumber >= inLap && l.lapNumber <= (outLap ?? inLap));
+            const laneTimes = group.map(g => g.pitLaneMs).filter((ms): ms is number => ms !== null);
+
+            stops.push({
+                vehicleId: sorted[0].vehicle.id,
+                inLap,
+                outLap,
+                evidence: Array.from(new Set(group.flatMap(g => g.evidence))),
+                timeLostMs: stopLaps.reduce((sum, l) => sum + l.durationMs - median, 0),
+                pitLaneTimeMs: laneTimes.length > 0 ? laneTimes.reduce((a, b) => a + b, 0) : null
+            });
+            i = j + 1;
+        }
+
+        return stops;
+    }
+
+    /**
+     * Split laps into stints at the detected stops
+     * A stint ends with a stop's in lap; the next one starts at its out lap.
+     */
+    buildStints(laps: readonly Lap[], stops: readonly PitStop[]): Stint[] {
+        if (laps.length === 0) return [];
+        const sorted = [...laps].sort((a, b) => a.lapNumber - b.lapNumber);
+        const vehicleId = sorted[0].vehicle.id;
+
+        const stints: Stint[] = [];
+        let current: Lap[] = [];
+        let startsFromPit = false;
+        const flush = (endsInPit: boolean) => {
+            if (current.length === 0) return;
+            stints.push(new Stint({ vehicleId, stintNumber: stints.length + 1, laps: current, startsFromPit, endsInPit }));
+            current = [];
+        };
+
+        for (const lap of sorted) {
+            const stopOut = stops.find(s => s.outLap === lap.lapNumber);
+            if (stopOut && current.length > 0) {
+                flush(true);
+                startsFromPit = true;
+            }
+            current.push(lap);
+            if (stops.some(s => s.inLap === lap.lapNumber && s.outLap === null)) {
+                flush(true);
+            }
+        }
+        flush(false);
+
+        return stints;
+    }
+
+    /**
+     * Detect stops and build stints in one call
+     */
+    analyze(laps: readonly Lap[], input: PitDetectionInput = {}): { pitStops: PitStop[]; stints: Stint[] } {
+        const pitStops = this.detect(laps, input);
+        return { pitStops, stints: this.buildStints(laps, pitStops) };
+    }
+
+    private medianDuration(sorted: Lap[]): number {
+        const durations = sorted.map(l => l.durationMs).sort((a, b) => a - b);
+        return durations[Math.floor(durations.length / 2)];
+    }
+
+    /**
+     * Time spent inside the polygon, or 0 when fewer than minFrames fixes fall inside
+     */
+    private timeInPolygon(frames: TelemetryFrame[], polygon: readonly GeoPoint[], minFrames: number): number {
+        let inside = 0;
+        let timeMs = 0;
+        for (let i = 0; i < frames.length; i++) {
+            const point = { latitude: frames[i].gpsLatitude, longitude: frames[i].gpsLongitude };
+            if (!GeoCalculator.isValidFix(point) || !GeoCalculator.isInsidePolygon(point, polygon)) continue;
+            inside++;
+            if (i > 0) timeMs += frames[i].timestamp.getTime() - frames[i - 1].timestamp.getTime();
+        }
+        return inside >= minFrames ? timeMs : 0;
+    }
+
+    /**
+     * Speed held within tolerance of the pit limit for at least minLimiterMs
+     */
+    private hasLimiterSignature(frames: TelemetryFrame[], opts: PitDetectionOptions): boolean {
+        let runStart: number | null = null;
+        for (const frame of frames) {
+            const onLimiter = Math.abs(frame.speed - opts.pitSpeedLimitKmh) <= opts.limiterToleranceKmh;
+            const t = frame.timestamp.getTime();
+            if (!onLimiter) {
+                runStart = null;
+                continue;
+            }
+            if (runStart === null) runStart = t;
+            if (t - runStart >= opts.minLimiterMs) return true;
+        }
+        return false;
+    }
+}
+
+const DEFAULT_OPTIONS: PitDetectionOptions = {
+    spikeFactor: 1.2,
+    minPitLossMs: 30000,
+    pitSpeedLimitKmh: 60,
+    limiterToleranceKmh: 2,
+    minLimiterMs: 5000,
+    minPitLaneFrames: 5
+};
+
+export interface PitDetectionOptions {
+    spikeFactor: number; // lap slower than median x factor
+    minPitLossMs: number; // time over the median a spike alone must cost (in lap + out lap)
+    pitSpeedLimitKmh: number;
+    limiterToleranceKmh: number;
+    minLimiterMs: number; // how long speed must sit on the limit
+    minPitLaneFrames: number; // GPS fixes inside the polygon needed to count
+}
+
+export interface PitDetectionInput {
+    telemetry?: ReadonlyMap<number, TelemetryFrame[]>; // lap number -> frames
+    pitLane?: readonly GeoPoint[]; // polygon around the pit lane
+    options?: Partial<PitDetectionOptions>;
+}
+
+export type PitEvidence = 'lapTime' | 'pitLane' | 'speedLimiter';
+
+export interface PitStop {
+    vehicleId: string;
+    inLap: number;
+    outLap: number | null; // null when the car never left the pits
+    evidence: PitEvidence[];
+    timeLostMs: number; // in lap + out lap over the car's median lap
+    pitLaneTimeMs: number | null; // from GPS, when a pit-lane polygon is set
+}
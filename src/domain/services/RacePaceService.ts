@@ -0,0 +1,147 @@
+import { Lap } from '../entities/Lap';
+import { Stint } from '../entities/Stint';
+import { SeriesMath } from './SeriesMath';
+
+/**
+ * Domain Service: RacePaceService
+ * Green-flag race pace of a car from its clean laps, so a single towed lap
+ * does not decide the ranking.
+ *
+ * Clean laps:
+ * - No out laps or in laps (from the car's stints)
+ * - No caution or red-flag laps
+ * - No laps tagged as spent in traffic or in a slipstream (unless
+ *   includeTrafficLaps is set)
+ * - No statistical outliers: laps more than outlierMads robust deviations
+ *   (median absolute deviation x 1.4826) from the car's median, and at least
+ *   minOutlierMs away from it (traffic, mistakes, timing glitches)
+ *
+ * Figures, each with the number of laps behind it:
+ * - Median of the clean laps
+ * - Trimmed mean: mean after dropping trimFraction of the laps at each end
+ * - Best N consecutive: the fastest average over N laps in a row that are
+ *   all clean
+ */
+export class RacePaceService {
+    /**
+     * Business Logic: Race pace figures of one car
+     * @param stints The car's stints, to drop out laps and in laps
+     */
+    analyzeVehicle(laps: readonly Lap[], stints: readonly Stint[], options: Partial<RacePaceOptions> = {}): VehiclePace | null {
+        if (laps.length === 0) return null;
+        const opts = { ...DEFAULT_OPTIONS, ...options };
+        const sorted = [...laps].sort((a, b) => a.lapNumber - b.lapNumber);
+
+        const pitLaps = new Set<number>();
+        for (const stint of stints) {
+            if (stint.startsFromPit) pitLaps.add(stint.startLap);
+            if (stint.endsInPit) pitLaps.add(stint.endLap);
+        }
+
+        const isTraffic = (l: Lap) => !opts.includeTrafficLaps && l.isTrafficLap;
+        const green = sorted.filter(l => !pitLaps.has(l.lapNumber) && !l.isCautionLap && !isTraffic(l));
+        const median = SeriesMath.median(green.map(l => l.durationMs));
+        const mad = median === null ? 0 : SeriesMath.robustStd(green.map(l => l.durationMs), median);
+        const limit = Math.max(mad * opts.outlierMads, opts.minOutlierMs);
+        const clean = median === null ? [] : green.filter(l => Math.abs(l.durationMs - median) <= limit);
+
+        const times = clean.map(l => l.durationMs);
+        const trimmed = this.trim(times, opts.trimFraction);
+        const consecutive = this.bestConsecutive(clean, opts.consecutiveLaps);
+
+        return {
+            vehicleId: sorted[0].vehicle.id,
+            totalLaps: sorted.length,
+            cleanLaps: clean.length,
+            excluded: {
+                pitLaps: sorted.filter(l => pitLaps.has(l.lapNumber)).length,
+                cautionLaps: sorted.filter(l => !pitLaps.has(l.lapNumber) && l.isCautionLap).length,
+                trafficLaps: sorted.filter(l => !pitLaps.has(l.lapNumber) && !l.isCautionLap && isTraffic(l)).length,
+                outliers: green.length - clean.length
+            },
+            median: { valueMs: SeriesMath.median(times), laps: times.length },
+            trimmedMean: {
+                valueMs: trimmed.length > 0 ? trimmed.reduce((a, b) => a + b, 0) / trimmed.length : null,
+                laps: trimmed.length
+            },
+            bestConsecutive: consecutive
+        };
+    }
+
+    /**
+     * Rank cars on one figure; cars without it go last
+     */
+    rank(paces: readonly VehiclePace[], metric: PaceMetric): VehiclePace[] {
+        return [...paces].sort((a, b) => {
+            const x = a[metric].valueMs;
+            const y = b[metric].valueMs;
+            if (x === null) return y === null ? 0 : 1;
+            if (y === null) return -1;
+            return x - y;
+        });
+    }
+
+    private trim(values: number[], fraction: number): number[] {
+        const sorted = [...values].sort((a, b) => a - b);
+        const cut = Math.floor(sorted.length * fraction);
+        return sorted.slice(cut, sorted.length - cut);
+    }
+
+    /**
+     * Fastest average over n clean laps with consecutive lap numbers
+     */
+    private bestConsecutive(clean: Lap[], n: number): ConsecutivePace {
+        let best: ConsecutivePace = { valueMs: null, laps: 0, startLap: null };
+        for (let i = 0; i + n <= clean.length; i++) {
+            const run = clean.slice(i, i + n);
+            if (run[n - 1].lapNumber - run[0].lapNumber !== n - 1) continue;
+            const average = run.reduce((sum, l) => sum + l.durationMs, 0) / n;
+            if (best.valueMs === null || average < best.valueMs) {
+                best = { valueMs: average, laps: n, startLap: run[0].lapNumber };
+            }
+        }
+        return best;
+    }
+}
+
+const DEFAULT_OPTIONS: RacePaceOptions = {
+    outlierMads: 3,
+    minOutlierMs: 1000,
+    trimFraction: 0.1,
+    consecutiveLaps: 5,
+    includeTrafficLaps: false
+};
+
+export interface RacePaceOptions {
+    outlierMads: number; // robust deviations from the median before a lap is an outlier
+    minOutlierMs: number; // never call a lap this close to the median an outlier
+    trimFraction: number; // share of laps dropped at each end for the trimmed mean
+    consecutiveLaps: number; // N for the best N consecutive laps
+    includeTrafficLaps: boolean; // keep laps spent in traffic or in a slipstream
+}
+
+export type PaceMetric = 'median' | 'trimmedMean' | 'bestConsecutive';
+
+export interface PaceFigure {
+    valueMs: number | null; // null when there are not enough clean laps
+    laps: number; // laps the figure is based on
+}
+
+export interface ConsecutivePace extends PaceFigure {
+    startLap: number | null;
+}
+
+export interface VehiclePace {
+    vehicleId: string;
+    totalLaps: number;
+    cleanLaps: number;
+    excluded: {
+        pitLaps: number; // out laps and in laps
+        cautionLaps: number;
+        trafficLaps: number; // in traffic or in a slipstream
+        outliers: number;
+    };
+    median: PaceFigure;
+    trimmedMean: PaceFigure;
+    bestConsecutive: ConsecutivePace;
+}
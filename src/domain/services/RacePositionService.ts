@@ -0,0 +1,68 @@
+import { RaceSession } from '../entities/RaceSession';
+
+/**
+ * Domain Service: RacePositionService
+ * Running order and gaps at the end of every lap, from cumulative lap end
+ * times.
+ *
+ * Algorithm: at lap n, the cars that completed lap n are ranked by the time
+ * they crossed the line to finish it. A lapped car finishes lap n after the
+ * leaders do, so it ranks behind them without counting laps; a car with no
+ * record of lap n (retired, missing timing) has no position for that lap.
+ */
+export class RacePositionService {
+    /**
+     * Business Logic: Position and gaps of every car at the end of every lap
+     * @returns Entries ordered by lap, then position
+     */
+    calculate(session: RaceSession): LapPosition[] {
+        const crossings = new Map<number, Array<{ vehicleId: string; endMs: number }>>();
+        for (const vehicle of session.vehicles) {
+            for (const lap of session.getLapsByVehicle(vehicle.id)) {
+                const list = crossings.get(lap.lapNumber) ?? [];
+                list.push({ vehicleId: vehicle.id, endMs: lap.endTime.getTime() });
+                crossings.set(lap.lapNumber, list);
+            }
+        }
+
+        const positions: LapPosition[] = [];
+        for (const [lapNumber, list] of Array.from(crossings.entries()).sort((a, b) => a[0] - b[0])) {
+            const order = list.sort((a, b) => a.endMs - b.endMs || a.vehicleId.localeCompare(b.vehicleId));
+            const leaderMs = order[0].endMs;
+            order.forEach((entry, i) => {
+                positions.push({
+                    vehicleId: entry.vehicleId,
+                    lapNumber,
+                    position: i + 1,
+                    gapToLeaderMs: entry.endMs - leaderMs,
+                    gapToAheadMs: i > 0 ? entry.endMs - order[i - 1].endMs : null
+                });
+            });
+        }
+
+        return positions;
+    }
+
+    /**
+     * Each car's position after its last recorded lap
+     */
+    finalPositions(positions: readonly LapPosition[]): Map<string, number> {
+        const last = new Map<string, LapPosition>();
+        for (const entry of positions) {
+            const current = last.get(entry.vehicleId);
+            if (!current || entry.lapNumber > current.lapNumber) last.set(entry.vehicleId, entry);
+        }
+
+        // Most laps first, then the order they finished their last lap in
+        const ranked = Array.from(last.values()).sort((a, b) => b.lapNumber - a.lapNumber || a.position - b.position);
+        return new Map(ranked.map((entry, i) => [entry.vehicleId, i + 1]));
+    }
+}
+
+export interface LapPosition {
+    vehicleId: string;
+    lapNumber: number;
+    position: number; // 1 = leader
+    gapToLeaderMs: number;
+    gapToAheadMs: number | null; // null for the leader
+}
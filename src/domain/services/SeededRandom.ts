@@ -0,0 +1,44 @@
+/**
+ * Domain Service: SeededRandom
+ * Small deterministic random number generator, so simulations can be
+ * reproduced from their seed.
+ *
+ * Algorithms:
+ * - Mulberry32 for uniform numbers in [0, 1)
+ * - Box-Muller for standard normal numbers (one per pair of uniforms, so
+ *   every call consumes exactly two draws)
+ */
+export class SeededRandom {
+    private _state: number;
+
+    constructor(seed: number) {
+        this._state = Math.floor(seed) >>> 0;
+    }
+
+    /**
+     * Uniform number in [0, 1)
+     */
+    next(): number {
+        this._state = (this._state + 0x6D2B79F5) >>> 0;
+        let t = this._state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Integer in [min, max], both inclusive
+     */
+    nextInt(min: number, max: number): number {
+        return min + Math.floor(this.next() * (max - min + 1));
+    }
+
+    /**
+     * Standard normal number (mean 0, standard deviation 1)
+     */
+    nextNormal(): number {
+        const u = 1 - this.next(); // (0, 1], keeps log finite
+        const v = this.next();
+        return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    }
+}
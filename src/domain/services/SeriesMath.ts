@@ -0,0 +1,57 @@
+/**
+ * Domain Service: SeriesMath
+ * Stateless numeric helpers shared by the lap, trace and pace analyses.
+ *
+ * Algorithms:
+ * - Binary search over ascending values
+ * - Linear interpolation, clamped at the ends
+ * - Median, and median absolute deviation scaled to a normal standard
+ *   deviation (x 1.4826) for outlier limits that a few bad laps cannot move
+ */
+export class SeriesMath {
+    static readonly MAD_TO_STD = 1.4826;
+
+    /**
+     * Last index whose value is at or below x (0 when x is before the first)
+     */
+    static indexAt(xs: readonly number[], x: number): number {
+        let lo = 0;
+        let hi = xs.length - 1;
+        while (hi - lo > 1) {
+            const mid = (lo + hi) >> 1;
+            if (xs[mid] <= x) lo = mid; else hi = mid;
+        }
+        return lo;
+    }
+
+    /**
+     * Linear interpolation of ys at x over ascending xs (clamped at the ends)
+     */
+    static interpolate(xs: readonly number[], ys: readonly number[], x: number): number {
+        if (x <= xs[0]) return ys[0];
+        if (x >= xs[xs.length - 1]) return ys[ys.length - 1];
+
+        const lo = SeriesMath.indexAt(xs, x);
+        const hi = lo + 1;
+        const span = xs[hi] - xs[lo];
+        return span > 0 ? ys[lo] + (ys[hi] - ys[lo]) * (x - xs[lo]) / span : ys[lo];
+    }
+
+    /**
+     * Median; the mean of the middle two for an even count, null when empty
+     */
+    static median(values: readonly number[]): number | null {
+        if (values.length === 0) return null;
+        const sorted = [...values].sort((a, b) => a - b);
+        const mid = Math.floor(sorted.length / 2);
+        return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+    }
+
+    /**
+     * Robust standard deviation about a centre: the median absolute
+     * deviation x 1.4826 (0 when empty)
+     */
+    static robustStd(values: readonly number[], centre: number): number {
+        return (SeriesMath.median(values.map(v => Math.abs(v - centre))) ?? 0) * SeriesMath.MAD_TO_STD;
+    }
+}
@@ -0,0 +1,174 @@
+import { RaceSession } from '../entities/RaceSession';
+import { FuelCorrectionModel, FuelCorrectionOptions } from './FuelCorrectionModel';
+import { PitStopDetector } from './PitStopDetector';
+import { TyreDegradationService } from './TyreDegradationService';
+
+/**
+ * Domain Service: StrategySimulator
+ * Simulates race time for a one-stop race at every possible pit lap (and for
+ * no stop) to find the best pit window.
+ *
+ * Lap time model (ms), for race lap n on tyres a laps old:
+ *   basePace + degradation x (a - 1) + fuelEffect x (raceLaps - n)
+ * basePace is a fresh-tyre lap on the fuel load of the last lap; the fuel
+ * term makes earlier laps slower. A stop at the end of lap p adds pitLoss
+ * and resets tyre age for lap p + 1.
+ *
+ * modelFromSession measures every input from a RaceSession: base pace,
+ * degradation and lap noise (residuals) from fuel-corrected stint fits, fuel
+ * effect from the fuel model, pit loss from detected stops.
+ */
+export class StrategySimulator {
+    /**
+     * Build a model from the measured data of one car
+     * Pit loss falls back to the field average, then to defaultPitLossMs.
+     */
+    static modelFromSession(
+        session: RaceSession,
+        vehicleId: string,
+        fuel: Partial<FuelCorrectionOptions> = {},
+        options: Partial<ModelOptions> = {}
+    ): StrategyModel | null {
+        const opts = { ...DEFAULT_MODEL_OPTIONS, ...options };
+        const laps = session.getLapsByVehicle(vehicleId);
+        if (laps.length < 3) return null;
+
+        const detector = new PitStopDetector();
+        const stintsOf = (id: string) => {
+            const stored = session.getStints(id);
+            return stored.length > 0 ? stored : detector.analyze(session.getLapsByVehicle(id)).stints;
+        };
+        const pitStopsOf = (id: string) => {
+            const stored = session.getPitStops(id);
+            return stored.length > 0 ? stored : detector.detect(session.getLapsByVehicle(id));
+        };
+
+        // Degradation and base pace from fuel-corrected laps
+        const fuelModel = new FuelCorrectionModel(fuel);
+        const corrected = fuelModel.correctLaps(laps);
+        const degradation = new TyreDegradationService().analyzeVehicle(corrected, {}, stintsOf(vehicleId));
+        const fits = (degradation?.stints ?? []).map(s => s.fit).filter((f): f is NonNullable<typeof f> => f !== null);
+        if (fits.length === 0) return null;
+
+        const weight = fits.reduce((sum, f) => sum + f.lapsUsed, 0);
+        const slopeS = fits.reduce((sum, f) => sum + f.degradationSPerLap * f.lapsUsed, 0) / weight;
+        const freshS = fits.reduce((sum, f) => sum + (f.interceptS + f.degradationSPerLap) * f.lapsUsed, 0) / weight;
+        // Lap-to-lap noise: residuals about the stint fits, pooled over their degrees of freedom
+        const dof = fits.reduce((sum, f) => sum + f.lapsUsed - 2, 0);
+        const noiseS = dof > 0 ? Math.sqrt(fits.reduce((sum, f) => sum + f.residualStdS ** 2 * (f.lapsUsed - 2), 0) / dof) : 0;
+
+        // Pit loss: this car's stops, else the field's
+        const ownStops = pitStopsOf(vehicleId).filter(s => s.outLap !== null);
+        const fieldStops = session.vehicles.flatMap(v => pitStopsOf(v.id)).filter(s => s.outLap !== null);
+        const stops = ownStops.length > 0 ? ownStops : fieldStops;
+        const pitLossMs = stops.length > 0
+            ? stops.reduce((sum, s) => sum + s.timeLostMs, 0) / stops.length
+            : opts.defaultPitLossMs;
+
+        const raceLaps = opts.raceLaps ?? Math.max(...session.vehicles.flatMap(v => session.getLapsByVehicle(v.id).map(l => l.lapNumber)));
+        const fuelOptions = fuelModel.options;
+
+        return {
+            vehicleId,
+            raceLaps,
+            basePaceMs: freshS * 1000,
+            degradationMsPerLap: slopeS * 1000,
+            fuelEffectMsPerLap: fuelOptions.burnKgPerLap * fuelOptions.secondsPerKg * 1000,
+            lapNoiseMs: noiseS * 1000,
+            pitLossMs,
+            pitLossSource: ownStops.length > 0 ? 'vehicle' : (fieldStops.length > 0 ? 'field' : 'default')
+        };
+    }
+
+    /**
+     * Lap time for a race lap on tyres of a given age
+     */
+    lapTimeMs(model: StrategyModel, lapNumber: number, tyreAge: number): number {
+        return model.basePaceMs +
+            model.degradationMsPerLap * (tyreAge - 1) +
+            model.fuelEffectMsPerLap * (model.raceLaps - lapNumber);
+    }
+
+    /**
+     * Race time with one stop at the end of pitLap (null = no stop)
+     */
+    simulate(model: StrategyModel, pitLap: number | null): number {
+        let total = 0;
+        let tyreAge = 1;
+        for (let lap = 1; lap <= model.raceLaps; lap++) {
+            total += this.lapTimeMs(model, lap, tyreAge);
+            tyreAge++;
+            if (lap === pitLap) {
+                total += model.pitLossMs;
+                tyreAge = 1;
+            }
+        }
+        return total;
+    }
+
+    /**
+     * Business Logic: Race time for every pit lap and the best window
+     * @param windowToleranceMs Pit laps within this of the best form the window
+     */
+    sweep(model: StrategyModel, windowToleranceMs: number = 1000): StrategySweep {
+        const options: PitOption[] = [];
+        for (let pitLap = 1; pitLap < model.raceLaps; pitLap++) {
+            options.push({ pitLap, raceTimeMs: this.simulate(model, pitLap), costMs: 0 });
+        }
+
+        const best = options.reduce<PitOption | null>((b, o) => (!b || o.raceTimeMs < b.raceTimeMs ? o : b), null);
+        options.forEach(o => { o.costMs = best ? o.raceTimeMs - best.raceTimeMs : 0; });
+
+        const window = options.filter(o => o.costMs <= windowToleranceMs).map(o => o.pitLap);
+        const noStopMs = this.simulate(model, null);
+
+        return {
+            model,
+            options,
+            bestPitLap: best?.pitLap ?? null,
+            bestRaceTimeMs: best?.raceTimeMs ?? noStopMs,
+            windowStart: window.length > 0 ? Math.min(...window) : null,
+            windowEnd: window.length > 0 ? Math.max(...window) : null,
+            noStopRaceTimeMs: noStopMs,
+            noStopCostMs: best ? noStopMs - best.raceTimeMs : 0
+        };
+    }
+}
+
+const DEFAULT_MODEL_OPTIONS: ModelOptions = {
+    raceLaps: undefined,
+    defaultPitLossMs: 35000
+};
+
+export interface ModelOptions {
+    raceLaps: number | undefined; // defaults to the session's highest lap number
+    defaultPitLossMs: number; // used when no stops were detected
+}
+
+export interface StrategyModel {
+    vehicleId: string;
+    raceLaps: number;
+    basePaceMs: number; // fresh tyres, last-lap fuel load
+    degradationMsPerLap: number;
+    fuelEffectMsPerLap: number; // lap time gained per lap of fuel burnt
+    lapNoiseMs: number; // standard deviation of lap times about the degradation trend
+    pitLossMs: number;
+    pitLossSource: 'vehicle' | 'field' | 'default';
+}
+
+export interface PitOption {
+    pitLap: number; // stop at the end of this lap
+    raceTimeMs: number;
+    costMs: number; // over the best pit lap
+}
+
+export interface StrategySweep {
+    model: StrategyModel;
+    options: PitOption[];
+    bestPitLap: number | null;
+    bestRaceTimeMs: number;
+    windowStart: number | null;
+    windowEnd: number | null;
+    noStopRaceTimeMs: number;
+    noStopCostMs: number; // positive when stopping is faster
+}
@@ -1,5 +1,9 @@
 import { Lap } from '../entities/Lap';
 import { TelemetryFrame } from '../entities/TelemetryFrame';
+import { TrackLayout } from '../entities/TrackLayout';
+import { GeoCalculator, GeoPoint } from './GeoCalculator';
+import { LapDistanceCalculator } from './LapDistanceCalculator';
+import { SeriesMath } from './SeriesMath';
 
 /**
  * Domain Service: TelemetryAnalysisService
@@ -35,8 +39,7 @@ export class TelemetryAnalysisService {
             const prev = frames[i - 1];
             const curr = frames[i];
 
-            // Detect braking: brake position increases by >20% and driver was not braking before
-            if (!prev.isBraking && curr.isBraking && curr.brakePos > 20) {
+            if (this.isBrakeOnset(prev, curr)) {
                 brakingPoints.push({
                     timestamp: curr.timestamp,
                     speed: curr.speed,
@@ -50,15 +53,154 @@ export class TelemetryAnalysisService {
         return brakingPoints;
     }
 
+    /**
+     * Detect braking: brake position increases by >20% and driver was not braking before
+     */
+    private isBrakeOnset(prev: TelemetryFrame, curr: TelemetryFrame): boolean {
+        return !prev.isBraking && curr.isBraking && curr.brakePos > 20;
+    }
+
+    /**
+     * Per-corner metrics for one lap
+     * Lap distance is scaled onto the layout length so corners line up across laps.
+     * Braking is searched from brakeSearchM before the corner, never past the
+     * previous corner; the minimum speed is the slowest frame inside the corner.
+     * Corners the lap does not cover are left out.
+     */
+    analyzeCorners(
+        frames: TelemetryFrame[],
+        layout: TrackLayout,
+        options: CornerAnalysisOptions = {}
+    ): CornerMetrics[] {
+        const { exitOffsetM = 100, brakeSearchM = 250 } = options;
+        if (frames.length < 2) return [];
+
+        const profile = this.buildProfile(frames);
+        const sorted = [...frames].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+        const lapLength = profile.distance[profile.distance.length - 1];
+        if (!(lapLength > 0)) return [];
+        const distance = profile.distance.map(d => d * layout.lengthM / lapLength);
+
+        // First index at or beyond a distance
+        const indexAt = (d: number) => {
+            let lo = 0;
+            let hi = distance.length;
+            while (lo < hi) {
+                const mid = (lo + hi) >> 1;
+                if (distance[mid] < d) lo = mid + 1; else hi = mid;
+            }
+            return lo;
+        };
+
+        const corners = layout.corners;
+        const metrics: CornerMetrics[] = [];
+
+        corners.forEach((corner, i) => {
+            const entry = indexAt(corner.startDistance);
+            const exit = indexAt(corner.endDistance);
+            if (exit <= entry) return;
+
+            let apex = entry;
+            for (let k = entry; k < exit; k++) {
+                if (sorted[k].speed < sorted[apex].speed) apex = k;
+            }
+
+            const searchFrom = indexAt(Math.max(
+                i > 0 ? corners[i - 1].endDistance : 0,
+                corner.startDistance - brakeSearchM
+            ));
+            let brakeOn: number | null = null;
+            let peakBrake = 0;
+            for (let k = Math.max(searchFrom, 1); k <= apex; k++) {
+                if (brakeOn === null && this.isBrakeOnset(sorted[k - 1], sorted[k])) brakeOn = k;
+            }
+            for (let k = searchFrom; k < exit; k++) {
+                peakBrake = Math.max(peakBrake, sorted[k].brakePos);
+            }
+
+            const nextEntry = i + 1 < corners.length ? indexAt(corners[i + 1].startDistance) : sorted.length;
+            let throttleOn: number | null = null;
+            for (let k = apex; k < nextEntry; k++) {
+                if (sorted[k].isAccelerating) {
+                    throttleOn = k;
+                    break;
+                }
+            }
+
+            metrics.push({
+                cornerId: corner.id,
+                brakeOnDistance: brakeOn !== null ? distance[brakeOn] : null,
+                peakBrake,
+                minSpeed: sorted[apex].speed,
+                minSpeedDistance: distance[apex],
+                throttleOnDistance: throttleOn !== null ? distance[throttleOn] : null,
+                exitSpeed: SeriesMath.interpolate(distance, profile.speed, distance[apex] + exitOffsetM),
+                timeInCornerMs: SeriesMath.interpolate(distance, profile.elapsed, corner.endDistance)
+                    - SeriesMath.interpolate(distance, profile.elapsed, corner.startDistance)
+            });
+        });
+
+        return metrics;
+    }
+
+    /**
+     * Compare per-corner metrics of a lap against a reference lap
+     * Corners where the lap loses most time are ranked 1, 2, ... (the biggest
+     * gains available); corners where it is faster get no rank.
+     */
+    compareCorners(lap: CornerMetrics[], reference: CornerMetrics[]): CornerComparison[] {
+        const byId = new Map(reference.map(m => [m.cornerId, m]));
+        const comparisons: CornerComparison[] = [];
+
+        for (const metrics of lap) {
+            const ref = byId.get(metrics.cornerId);
+            if (!ref) continue;
+            comparisons.push({
+                cornerId: metrics.cornerId,
+                lap: metrics,
+                reference: ref,
+                timeDeltaMs: metrics.timeInCornerMs - ref.timeInCornerMs,
+                minSpeedDelta: metrics.minSpeed - ref.minSpeed,
+                exitSpeedDelta: metrics.exitSpeed - ref.exitSpeed,
+                brakeOnDelta: metrics.brakeOnDistance !== null && ref.brakeOnDistance !== null
+                    ? metrics.brakeOnDistance - ref.brakeOnDistance
+                    : null,
+                gainRank: null
+            });
+        }
+
+        comparisons
+            .filter(c => c.timeDeltaMs > 0)
+            .sort((a, b) => b.timeDeltaMs - a.timeDeltaMs)
+            .forEach((c, i) => { c.gainRank = i + 1; });
+
+        return comparisons;
+    }
+
     /**
      * Compare two laps and calculate time differences
-     * Algorithm: Time-series alignment
+     * Algorithm: Distance alignment
+     * - Both laps are put on a common distance grid (lap 2 scaled to lap 1's length),
+     *   or lap 2 is matched to lap 1 by nearest track position
+     * - Running delta = lap 1 elapsed time - lap 2 elapsed time at the same point
+     *   (positive: lap 1 is behind)
      */
-    compareLaps(lap1Frames: TelemetryFrame[], lap2Frames: TelemetryFrame[]): LapComparison {
+    compareLaps(
+        lap1Frames: TelemetryFrame[],
+        lap2Frames: TelemetryFrame[],
+        options: LapComparisonOptions = {}
+    ): LapComparison {
         if (lap1Frames.length === 0 || lap2Frames.length === 0) {
             throw new Error('Cannot compare empty laps');
         }
 
+        const { alignment = 'distance', stepM = 5, zoneLengthM = 50, maxZones = 5 } = options;
+        const profile1 = this.buildProfile(lap1Frames);
+        const profile2 = this.buildProfile(lap2Frames);
+        const deltaTrace = alignment === 'position'
+            ? this.alignByPosition(profile1, profile2, stepM)
+            : this.alignByDistance(profile1, profile2, stepM);
+
         // Calculate delta in key metrics
         const avgSpeed1 = this.calculateAverageSpeed(lap1Frames);
         const avgSpeed2 = this.calculateAverageSpeed(lap2Frames);
@@ -73,6 +215,10 @@ export class TelemetryAnalysisService {
             speedDelta: avgSpeed1 - avgSpeed2,
             throttleDelta: avgThrottle1 - avgThrottle2,
             brakeDelta: avgBrake1 - avgBrake2,
+            alignment,
+            deltaTrace,
+            finalDeltaMs: deltaTrace.length > 0 ? deltaTrace[deltaTrace.length - 1].deltaMs : 0,
+            deltaZones: this.findDeltaZones(deltaTrace, zoneLengthM, maxZones),
             lap1Stats: {
                 avgSpeed: avgSpeed1,
                 avgThrottle: avgThrottle1,
@@ -86,6 +232,163 @@ export class TelemetryAnalysisService {
         };
     }
 
+    /**
+     * Time, distance, speed and position of a lap's frames in time order
+     */
+    private buildProfile(frames: TelemetryFrame[]): LapProfile {
+        const sorted = [...frames].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+        const distance = sorted.every(f => f.lapDistance !== undefined)
+            ? sorted.map(f => f.lapDistance!)
+            : new LapDistanceCalculator().fromSpeed(sorted);
+        const start = sorted[0].timestamp.getTime();
+
+        return {
+            distance,
+            elapsed: sorted.map(f => f.timestamp.getTime() - start),
+            speed: sorted.map(f => f.speed),
+            position: sorted.map(f => ({ latitude: f.gpsLatitude, longitude: f.gpsLongitude }))
+        };
+    }
+
+    /**
+     * Align on lap distance, with lap 2 stretched to lap 1's length so both end on the line
+     */
+    private alignByDistance(lap1: LapProfile, lap2: LapProfile, stepM: number): DeltaPoint[] {
+        const length1 = lap1.distance[lap1.distance.length - 1];
+        const length2 = lap2.distance[lap2.distance.length - 1];
+        if (!(length1 > 0) || !(length2 > 0)) return [];
+
+        const scaled2 = lap2.distance.map(d => d * length1 / length2);
+        const matched: MatchedSample[] = lap1.distance.map((d, i) => ({
+            distance: d,
+            time1: lap1.elapsed[i],
+            time2: SeriesMath.interpolate(scaled2, lap2.elapsed, d),
+            speed1: lap1.speed[i],
+            speed2: SeriesMath.interpolate(scaled2, lap2.speed, d),
+            position: lap1.position[i]
+        }));
+
+        return this.toGrid(matched, stepM);
+    }
+
+    /**
+     * Align on track position: each lap 1 fix is projected onto lap 2's path
+     * Search stays ahead of the previous match, by as far as lap 1 has gone
+     * since plus searchAheadM, so the walk is O(n), cannot jump to a nearby
+     * part of the circuit, and picks up again after a GPS dropout in lap 2.
+     * Fixes further than maxOffsetM from lap 2's path (inside a dropout) are
+     * left to the grid interpolation.
+     */
+    private alignByPosition(lap1: LapProfile, lap2: LapProfile, stepM: number): DeltaPoint[] {
+        const origin = lap1.position.find(p => GeoCalculator.isValidFix(p));
+        if (!origin) return this.alignByDistance(lap1, lap2, stepM);
+
+        const local2 = lap2.position.map(p => GeoCalculator.isValidFix(p) ? GeoCalculator.toLocalMeters(origin, p) : null);
+        const searchAheadM = 100;
+        const maxOffsetM = 30;
+        const matched: MatchedSample[] = [];
+        let cursor = 0;
+        let matchedDistance1 = lap1.distance[0];
+
+        for (let i = 0; i < lap1.distance.length; i++) {
+            if (!GeoCalculator.isValidFix(lap1.position[i])) continue;
+            const p = GeoCalculator.toLocalMeters(origin, lap1.position[i]);
+
+            // Best segment [j, j+1] of lap 2 ahead of the cursor, skipping segments without a fix
+            let best: { index: number; fraction: number; dist: number } | null = null;
+            const reach = lap2.distance[cursor] + (lap1.distance[i] - matchedDistance1) + searchAheadM;
+            for (let j = cursor; j < local2.length - 1 && lap2.distance[j] <= reach; j++) {
+                const a = local2[j];
+                const b = local2[j + 1];
+                if (!a || !b) continue;
+
+                const seg = { x: b.x - a.x, y: b.y - a.y };
+                const lengthSq = seg.x * seg.x + seg.y * seg.y;
+                const fraction = lengthSq > 0
+                    ? Math.min(Math.max(((p.x - a.x) * seg.x + (p.y - a.y) * seg.y) / lengthSq, 0), 1)
+                    : 0;
+                const dx = a.x + seg.x * fraction - p.x;
+                const dy = a.y + seg.y * fraction - p.y;
+                const dist = Math.sqrt(dx * dx + dy * dy);
+                if (!best || dist < best.dist) best = { index: j, fraction, dist };
+            }
+            if (!best || best.dist > maxOffsetM) continue;
+            cursor = best.index;
+            matchedDistance1 = lap1.distance[i];
+
+            const lerp = (values: number[]) =>
+                values[best.index] + (values[best.index + 1] - values[best.index]) * best.fraction;
+            matched.push({
+                distance: lap1.distance[i],
+                time1: lap1.elapsed[i],
+                time2: lerp(lap2.elapsed),
+                speed1: lap1.speed[i],
+                speed2: lerp(lap2.speed),
+                position: lap1.position[i]
+            });
+        }
+
+        return matched.length >= 2 ? this.toGrid(matched, stepM) : this.alignByDistance(lap1, lap2, stepM);
+    }
+
+    /**
+     * Resample matched samples onto a uniform distance grid
+     */
+    private toGrid(matched: MatchedSample[], stepM: number): DeltaPoint[] {
+        const distances = matched.map(m => m.distance);
+        const column = (pick: (m: MatchedSample) => number) => matched.map(pick);
+        const time1 = column(m => m.time1);
+        const time2 = column(m => m.time2);
+        const speed1 = column(m => m.speed1);
+        const speed2 = column(m => m.speed2);
+        const latitude = column(m => m.position.latitude);
+        const longitude = column(m => m.position.longitude);
+
+        const total = distances[distances.length - 1];
+        const points: DeltaPoint[] = [];
+        for (let k = 0; k * stepM <= total; k++) {
+            const d = k * stepM;
+            const t1 = SeriesMath.interpolate(distances, time1, d);
+            const v1 = SeriesMath.interpolate(distances, speed1, d);
+            const v2 = SeriesMath.interpolate(distances, speed2, d);
+            points.push({
+                distance: d,
+                elapsedMs: t1,
+                deltaMs: t1 - SeriesMath.interpolate(distances, time2, d),
+                speed1: v1,
+                speed2: v2,
+                speedDelta: v1 - v2,
+                latitude: SeriesMath.interpolate(distances, latitude, d),
+                longitude: SeriesMath.interpolate(distances, longitude, d)
+            });
+        }
+        return points;
+    }
+
+    /**
+     * Fixed-length stretches where the delta changes the most
+     * @returns Zones sorted by size of the change, largest first
+     */
+    private findDeltaZones(trace: DeltaPoint[], zoneLengthM: number, maxZones: number): DeltaZone[] {
+        const zones: DeltaZone[] = [];
+        let start = 0;
+
+        for (let i = 1; i < trace.length; i++) {
+            if (trace[i].distance - trace[start].distance >= zoneLengthM || i === trace.length - 1) {
+                zones.push({
+                    startDistance: trace[start].distance,
+                    endDistance: trace[i].distance,
+                    deltaChangeMs: trace[i].deltaMs - trace[start].deltaMs
+                });
+                start = i;
+            }
+        }
+
+        return zones
+            .sort((a, b) => Math.abs(b.deltaChangeMs) - Math.abs(a.deltaChangeMs))
+            .slice(0, maxZones);
+    }
+
     /**
      * Calculate throttle application percentage
      */
@@ -167,10 +470,67 @@ export interface SpeedPoint {
     longitude: number;
 }
 
+export interface CornerAnalysisOptions {
+    exitOffsetM?: number; // exit speed is taken this far after the apex
+    brakeSearchM?: number; // how far before the corner braking is searched
+}
+
+export interface CornerMetrics {
+    cornerId: string;
+    brakeOnDistance: number | null; // metres, on the layout's distance scale
+    peakBrake: number;
+    minSpeed: number;
+    minSpeedDistance: number;
+    throttleOnDistance: number | null;
+    exitSpeed: number;
+    timeInCornerMs: number;
+}
+
+export interface CornerComparison {
+    cornerId: string;
+    lap: CornerMetrics;
+    reference: CornerMetrics;
+    timeDeltaMs: number; // positive: lap is slower through the corner
+    minSpeedDelta: number;
+    exitSpeedDelta: number;
+    brakeOnDelta: number | null; // positive: lap brakes later
+    gainRank: number | null; // 1 = most time to gain
+}
+
+export type LapAlignment = 'distance' | 'position';
+
+export interface LapComparisonOptions {
+    alignment?: LapAlignment;
+    stepM?: number; // delta trace resolution
+    zoneLengthM?: number;
+    maxZones?: number;
+}
+
+export interface DeltaPoint {
+    distance: number; // metres along lap 1
+    elapsedMs: number; // lap 1 elapsed time
+    deltaMs: number; // lap 1 - lap 2 (positive: lap 1 is behind)
+    speed1: number;
+    speed2: number;
+    speedDelta: number;
+    latitude: number;
+    longitude: number;
+}
+
+export interface DeltaZone {
+    startDistance: number;
+    endDistance: number;
+    deltaChangeMs: number; // positive: lap 1 loses time here
+}
+
 export interface LapComparison {
     speedDelta: number;
     throttleDelta: number;
     brakeDelta: number;
+    alignment: LapAlignment;
+    deltaTrace: DeltaPoint[];
+    finalDeltaMs: number;
+    deltaZones: DeltaZone[];
     lap1Stats: {
         avgSpeed: number;
         avgThrottle: number;
@@ -182,3 +542,19 @@ export interface LapComparison {
         avgBrake: number;
     };
 }
+
+interface LapProfile {
+    distance: number[];
+    elapsed: number[];
+    speed: number[];
+    position: GeoPoint[];
+}
+
+interface MatchedSample {
+    distance: number;
+    time1: number;
+    time2: number;
+    speed1: number;
+    speed2: number;
+    position: GeoPoint;
+}
@@ -0,0 +1,169 @@
+import { TelemetryFrame } from '../entities/TelemetryFrame';
+import { MAPPED_FIELDS, MappedField } from '../entities/ChannelMappingProfile';
+
+/**
+ * Domain Service: TelemetryResampler
+ * Puts asynchronously logged channels onto a common, uniform time base.
+ *
+ * Algorithm: Merge-walk per channel
+ * - Grid runs from the earliest to the latest sample at 1/rateHz spacing
+ * - Each channel keeps a cursor to the last sample at or before the grid time
+ * - Strategy decides the value: forward-fill, linear interpolation or nearest sample
+ * Complexity: O(n + m) per channel (n samples, m grid points)
+ *
+ * A field counts as a real sample when a logged value lies within half a
+ * period of the grid time; otherwise the frame marks it as interpolated.
+ */
+export class TelemetryResampler {
+    /**
+     * Default strategy per field: discrete channels hold, continuous ones interpolate
+     */
+    static readonly DEFAULT_STRATEGIES: Record<MappedField, ResampleStrategy> = {
+        speed: 'linear',
+        throttlePos: 'linear',
+        brakePos: 'linear',
+        gpsLatitude: 'linear',
+        gpsLongitude: 'linear',
+        steeringAngle: 'linear',
+        gear: 'forward-fill'
+    };
+
+    /**
+     * Resample one vehicle/lap's channel series into uniform frames
+     */
+    resample(series: ChannelSeries, options: ResampleOptions): TelemetryFrame[] {
+        if (!(options.rateHz > 0)) {
+            throw new Error('Resample rate must be positive');
+        }
+
+        const period = 1000 / options.rateHz;
+        const channels = new Map<MappedField, ChannelSample[]>();
+        let start = Infinity;
+        let end = -Infinity;
+
+        for (const field of MAPPED_FIELDS) {
+            const samples = series.channels[field];
+            if (!samples || samples.length === 0) continue;
+
+            const sorted = [...samples].sort((a, b) => a.time - b.time);
+            channels.set(field, sorted);
+            start = Math.min(start, sorted[0].time);
+            end = Math.max(end, sorted[sorted.length - 1].time);
+        }
+
+        if (channels.size === 0) return [];
+
+        const cursors = new Map<MappedField, number>();
+        const frames: TelemetryFrame[] = [];
+
+        const gridPoints = Math.floor((end - start) / period) + 1;
+
+        for (let k = 0; k < gridPoints; k++) {
+            const time = start + k * period;
+            const values: Partial<Record<MappedField, number>> = {};
+            const interpolated: MappedField[] = [];
+
+            for (const field of MAPPED_FIELDS) {
+                const samples = channels.get(field);
+                if (!samples) {
+                    // Channel never logged: default value, never a real sample
+                    interpolated.push(field);
+                    continue;
+                }
+
+                // Advance cursor to the last sample at or before this grid time
+                let cursor = cursors.get(field) ?? -1;
+                while (cursor + 1 < samples.length && samples[cursor + 1].time <= time) {
+                    cursor++;
+                }
+                cursors.set(field, cursor);
+
+                const strategy = options.strategies?.[field]
+                    ?? options.defaultStrategy
+                    ?? TelemetryResampler.DEFAULT_STRATEGIES[field];
+
+                values[field] = this.valueAt(samples, cursor, time, strategy);
+                if (!this.hasSampleNear(samples, cursor, time, period / 2)) {
+                    interpolated.push(field);
+                }
+            }
+
+            frames.push(new TelemetryFrame({
+                timestamp: new Date(Math.round(time)),
+                vehicleId: series.vehicleId,
+                lap: series.lap,
+                speed: Math.max(values.speed ?? 0, 0),
+                throttlePos: this.clamp(values.throttlePos ?? 0, 0, 100),
+                brakePos: this.clamp(values.brakePos ?? 0, 0, 100),
+                gpsLatitude: values.gpsLatitude ?? 0,
+                gpsLongitude: values.gpsLongitude ?? 0,
+                steeringAngle: values.steeringAngle,
+                gear: values.gear !== undefined ? Math.round(values.gear) : undefined,
+                interpolatedFields: interpolated
+            }));
+        }
+
+        return frames;
+    }
+
+    /**
+     * Compute a channel value at a grid time
+     * @param cursor Index of the last sample at or before time (-1 if none)
+     */
+    private valueAt(
+        samples: ChannelSample[],
+        cursor: number,
+        time: number,
+        strategy: ResampleStrategy
+    ): number {
+        const before = cursor >= 0 ? samples[cursor] : null;
+        const after = cursor + 1 < samples.length ? samples[cursor + 1] : null;
+
+        // Outside the logged range every strategy holds the edge value
+        if (!before) return after!.value;
+        if (!after) return before.value;
+
+        switch (strategy) {
+            case 'forward-fill':
+                return before.value;
+            case 'nearest':
+                return time - before.time <= after.time - time ? before.value : after.value;
+            case 'linear': {
+                const span = after.time - before.time;
+                if (span <= 0) return before.value;
+                const ratio = (time - before.time) / span;
+                return before.value + (after.value - before.value) * ratio;
+            }
+        }
+    }
+
+    private hasSampleNear(samples: ChannelSample[], cursor: number, time: number, tolerance: number): boolean {
+        const before = cursor >= 0 ? samples[cursor] : null;
+        const after = cursor + 1 < samples.length ? samples[cursor + 1] : null;
+        return (!!before && time - before.time <= tolerance) ||
+            (!!after && after.time - time <= tolerance);
+    }
+
+    private clamp(value: number, min: number, max: number): number {
+        return Math.min(Math.max(value, min), max);
+    }
+}
+
+export type ResampleStrategy = 'forward-fill' | 'linear' | 'nearest';
+
+export interface ResampleOptions {
+    rateHz: number;
+    strategies?: Partial<Record<MappedField, ResampleStrategy>>;
+    defaultStrategy?: ResampleStrategy;
+}
+
+export interface ChannelSample {
+    time: number; // epoch milliseconds
+    value: number;
+}
+
+export interface ChannelSeries {
+    vehicleId: string;
+    lap: number;
+    channels: Partial<Record<MappedField, ChannelSample[]>>;
+}
@@ -0,0 +1,208 @@
+import { Lap } from '../entities/Lap';
+import { TelemetryFrame } from '../entities/TelemetryFrame';
+import { LapDistanceCalculator } from './LapDistanceCalculator';
+import { SeriesMath } from './SeriesMath';
+
+/**
+ * Domain Service: TheoreticalBestService
+ * Sums the best time of every segment (official sector or mini-sector) into
+ * a theoretical best lap and records which lap each best segment came from.
+ *
+ * Segment sources:
+ * - Official sectors: Lap.sectorTimes (split durations in ms)
+ * - Mini-sectors: split times at user-chosen distances, read from telemetry
+ *
+ * Both are reduced to LapSegmentTimes, so the same combination works for a
+ * single vehicle or the whole field.
+ */
+export class TheoreticalBestService {
+    /**
+     * Segment times from official sectors
+     * A lap missing some sectors still gives the ones it has.
+     */
+    fromSectors(laps: readonly Lap[]): LapSegmentTimes[] {
+        return laps
+            .filter(lap => lap.sectorTimes.size > 0)
+            .map(lap => ({
+                vehicleId: lap.vehicle.id,
+                lapNumber: lap.lapNumber,
+                lapMs: lap.durationMs,
+                segments: Object.fromEntries(lap.sectorTimes)
+            }));
+    }
+
+    /**
+     * Segment times from telemetry at mini-sector boundaries
+     * @param miniSectors Count of evenly spaced mini-sectors, or interior boundaries
+     *                    in metres (0 and the lap end are implied)
+     */
+    fromTelemetry(laps: TelemetryFrame[][], miniSectors: number | number[]): LapSegmentTimes[] {
+        const scaled = this.scaleLaps(laps);
+        if (!scaled) return [];
+
+        const edges = this.miniSectorEdges(scaled.lengthM, miniSectors);
+        return scaled.laps.map(lap => {
+            const times = edges.map(d => SeriesMath.interpolate(lap.distance, lap.elapsed, d));
+            const segments: Record<string, number> = {};
+            for (let i = 1; i < edges.length; i++) {
+                segments[`M${i}`] = times[i] - times[i - 1];
+            }
+            return {
+                vehicleId: lap.vehicleId,
+                lapNumber: lap.lapNumber,
+                lapMs: times[times.length - 1] - times[0],
+                segments
+            };
+        });
+    }
+
+    /**
+     * Scale lap traces onto a common length
+     * The common length is the median lap length; laps more than 10% off it
+     * (partial laps) are left out.
+     */
+    scaleLaps(laps: TelemetryFrame[][]): ScaledLaps | null {
+        const calculator = new LapDistanceCalculator();
+        const prepared = laps
+            .filter(frames => frames.length >= 2)
+            .map(frames => {
+                const sorted = [...frames].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+                const distance = sorted.every(f => f.lapDistance !== undefined)
+                    ? sorted.map(f => f.lapDistance!)
+                    : calculator.fromSpeed(sorted);
+                const start = sorted[0].timestamp.getTime();
+                return {
+                    vehicleId: sorted[0].vehicleId,
+                    lapNumber: sorted[0].lap,
+                    frames: sorted,
+                    distance,
+                    elapsed: sorted.map(f => f.timestamp.getTime() - start)
+                };
+            })
+            .filter(lap => lap.distance[lap.distance.length - 1] > 0);
+        if (prepared.length === 0) return null;
+
+        const lengths = prepared.map(l => l.distance[l.distance.length - 1]).sort((a, b) => a - b);
+        const lengthM = lengths[Math.floor(lengths.length / 2)];
+
+        return {
+            lengthM,
+            laps: prepared
+                .filter(lap => Math.abs(lap.distance[lap.distance.length - 1] - lengthM) <= lengthM * 0.1)
+                .map(lap => {
+                    const length = lap.distance[lap.distance.length - 1];
+                    return { ...lap, distance: lap.distance.map(d => d * lengthM / length) };
+                })
+        };
+    }
+
+    /**
+     * Mini-sector edges from 0 to the lap length
+     */
+    miniSectorEdges(lengthM: number, miniSectors: number | number[]): number[] {
+        const count = typeof miniSectors === 'number' ? Math.max(1, Math.round(miniSectors)) : 0;
+        const boundaries = typeof miniSectors === 'number'
+            ? Array.from({ length: count - 1 }, (_, i) => lengthM * (i + 1) / count)
+            : [...miniSectors].sort((a, b) => a - b);
+        return [0, ...boundaries.filter(b => b > 0 && b < lengthM), lengthM];
+    }
+
+    /**
+     * Business Logic: Combine segment times into a theoretical best
+     * Pass one vehicle's laps for a driver's theoretical best, or every
+     * vehicle's laps for the field. Each segment's best comes from whichever
+     * laps have a time for it.
+     */
+    calculate(entries: LapSegmentTimes[]): TheoreticalBest | null {
+        if (entries.length === 0) return null;
+
+        const segmentIds = Array.from(new Set(entries.flatMap(entry => Object.keys(entry.segments))))
+            .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+        const segments: SegmentBest[] = [];
+        for (const segmentId of segmentIds) {
+            let best: SegmentBest | null = null;
+            for (const entry of entries) {
+                const timeMs = entry.segments[segmentId];
+                if (timeMs === undefined || !(timeMs > 0)) continue;
+                if (!best || timeMs < best.timeMs) {
+                    best = { segmentId, timeMs, vehicleId: entry.vehicleId, lapNumber: entry.lapNumber };
+                }
+            }
+            if (!best) return null;
+            segments.push(best);
+        }
+
+        const bestLap = entries.reduce((fastest, entry) => entry.lapMs < fastest.lapMs ? entry : fastest);
+        const theoreticalMs = segments.reduce((sum, s) => sum + s.timeMs, 0);
+
+        return {
+            segments,
+            theoreticalMs,
+            bestLapMs: bestLap.lapMs,
+            bestLapVehicleId: bestLap.vehicleId,
+            bestLapNumber: bestLap.lapNumber,
+            gapMs: bestLap.lapMs - theoreticalMs
+        };
+    }
+
+    /**
+     * Theoretical best per vehicle and for the whole field
+     */
+    calculateAll(entries: LapSegmentTimes[]): TheoreticalBestSummary {
+        const byVehicle = new Map<string, LapSegmentTimes[]>();
+        for (const entry of entries) {
+            const list = byVehicle.get(entry.vehicleId) || [];
+            list.push(entry);
+            byVehicle.set(entry.vehicleId, list);
+        }
+
+        const vehicles = new Map<string, TheoreticalBest>();
+        for (const [vehicleId, vehicleEntries] of byVehicle.entries()) {
+            const result = this.calculate(vehicleEntries);
+            if (result) vehicles.set(vehicleId, result);
+        }
+
+        return { vehicles, field: this.calculate(entries) };
+    }
+}
+
+export interface LapSegmentTimes {
+    vehicleId: string;
+    lapNumber: number;
+    lapMs: number;
+    segments: Record<string, number>; // segment id -> ms
+}
+
+export interface ScaledLap {
+    vehicleId: string;
+    lapNumber: number;
+    frames: TelemetryFrame[]; // sorted by time
+    distance: number[]; // metres, scaled to the common length
+    elapsed: number[]; // ms from lap start
+}
+
+export interface ScaledLaps {
+    lengthM: number;
+    laps: ScaledLap[];
+}
+
+export interface SegmentBest {
+    segmentId: string;
+    timeMs: number;
+    vehicleId: string;
+    lapNumber: number;
+}
+
+export interface TheoreticalBest {
+    segments: SegmentBest[];
+    theoreticalMs: number;
+    bestLapMs: number;
+    bestLapVehicleId: string;
+    bestLapNumber: number;
+    gapMs: number; // best lap - theoretical best
+}
+
+export interface TheoreticalBestSummary {
+    vehicles: Map<string, TheoreticalBest>;
+    field: TheoreticalBest | null;
+}
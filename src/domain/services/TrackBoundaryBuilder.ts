@@ -0,0 +1,247 @@
+import { TelemetryFrame } from '../entities/TelemetryFrame';
+import { TrackBoundary } from '../entities/TrackBoundary';
+import { GeoCalculator, GeoPoint, LocalPoint } from './GeoCalculator';
+import { LapDistanceCalculator } from './LapDistanceCalculator';
+import { SeriesMath } from './SeriesMath';
+
+/**
+ * Domain Service: TrackBoundaryBuilder
+ * Track boundary from the envelope of many laps, for when no surveyed
+ * boundary is available.
+ *
+ * Algorithm:
+ * 1. Drop partial laps, scale the rest to the median length and average
+ *    their GPS positions on a fixed distance grid: the centreline
+ * 2. Measure every fix's sideways offset from the nearest centreline point
+ *    (left positive). At each grid point, the offsets within poolM along
+ *    the track are pooled; their envelopePercentile on either side is the
+ *    core envelope where most laps run
+ * 3. A lap with a fix more than outlierM outside the core envelope on that
+ *    stretch is off the line there and left out; the widest of the other
+ *    laps' fixes are the edges, so a lap using the full width of the track
+ *    stays inside while one well off the line does not widen it
+ * 4. Widen to at least minHalfWidthM, add marginM (GPS error, and the car
+ *    body reaches past its antenna), and take the widest edge within
+ *    smoothingM so the edges do not zig-zag
+ * 5. A closed circuit gives two loops: the larger is the outer edge, the
+ *    smaller the inner one. An open course gives one strip polygon.
+ */
+export class TrackBoundaryBuilder {
+    /**
+     * Business Logic: Build a boundary from loaded laps
+     * @param laps Frames of each lap (any order within a lap)
+     */
+    fromLaps(laps: TelemetryFrame[][], options: Partial<EnvelopeOptions> = {}): TrackBoundary {
+        const opts = { ...DEFAULT_OPTIONS, ...options };
+        const prepared = this.prepareLaps(laps, opts);
+        if (prepared.length === 0) {
+            throw new Error('Building a boundary needs at least one complete lap with GPS');
+        }
+
+        const lengths = prepared.map(l => l.length).sort((a, b) => a - b);
+        const lengthM = lengths[Math.floor(lengths.length / 2)];
+        const complete = prepared.filter(l => Math.abs(l.length - lengthM) <= lengthM * opts.maxLengthDeviation);
+        const origin = complete[0].fixes[0].point;
+        const local = complete.map(lap => {
+            const points = lap.fixes.map(f => GeoCalculator.toLocalMeters(origin, f.point));
+            return {
+                distance: lap.fixes.map(f => f.distance * lengthM / lap.length),
+                points,
+                xs: points.map(p => p.x),
+                ys: points.map(p => p.y)
+            };
+        });
+
+        // Centreline on the distance grid
+        const gridSize = Math.floor(lengthM / opts.stepM) + 1;
+        const centre: LocalPoint[] = [];
+        for (let k = 0; k < gridSize; k++) {
+            let x = 0;
+            let y = 0;
+            for (const lap of local) {
+                x += SeriesMath.interpolate(lap.distance, lap.xs, k * opts.stepM);
+                y += SeriesMath.interpolate(lap.distance, lap.ys, k * opts.stepM);
+            }
+            centre.push({ x: x / local.length, y: y / local.length });
+        }
+
+        const closed = Math.hypot(centre[0].x - centre[gridSize - 1].x, centre[0].y - centre[gridSize - 1].y) <= opts.closeLoopM;
+        const normals = centre.map((_, k) => {
+            const prev = centre[closed ? (k - 1 + gridSize) % gridSize : Math.max(0, k - 1)];
+            const next = centre[closed ? (k + 1) % gridSize : Math.min(gridSize - 1, k + 1)];
+            const length = Math.hypot(next.x - prev.x, next.y - prev.y) || 1;
+            return { x: -(next.y - prev.y) / length, y: (next.x - prev.x) / length };
+        });
+
+        // Sideways offsets of every fix, by nearest centreline point
+        const offsets: LapOffset[][] = centre.map(() => []);
+        const window = Math.max(1, Math.round(opts.searchWindowM / opts.stepM));
+        local.forEach((lap, lapIndex) => {
+            lap.points.forEach((p, i) => {
+                const expected = Math.round(lap.distance[i] / opts.stepM);
+                let best = -1;
+                let bestDistance = Infinity;
+                for (let j = expected - window; j <= expected + window; j++) {
+                    const k = closed ? ((j % gridSize) + gridSize) % gridSize : j;
+                    if (k < 0 || k >= gridSize) continue;
+                    const d = Math.hypot(p.x - centre[k].x, p.y - centre[k].y);
+                    if (d < bestDistance) {
+                        bestDistance = d;
+                        best = k;
+                    }
+                }
+                if (best < 0) return;
+                offsets[best].push({
+                    lap: lapIndex,
+                    offset: (p.x - centre[best].x) * normals[best].x + (p.y - centre[best].y) * normals[best].y
+                });
+            });
+        });
+
+        const pool = Math.max(0, Math.round(opts.poolM / opts.stepM));
+        const extents = offsets.map((_, k) => this.cleanExtent(this.around(offsets, k, pool, closed).flat(), opts));
+        const left = this.fillGaps(extents.map(e => e?.left ?? NaN));
+        const right = this.fillGaps(extents.map(e => e?.right ?? NaN));
+        const smooth = Math.max(0, Math.round(opts.smoothingM / opts.stepM));
+        const leftEdge = centre.map((c, k) => {
+            const offset = Math.max(opts.minHalfWidthM, ...this.around(left, k, smooth, closed)) + opts.marginM;
+            return GeoCalculator.fromLocalMeters(origin, { x: c.x + normals[k].x * offset, y: c.y + normals[k].y * offset });
+        });
+        const rightEdge = centre.map((c, k) => {
+            const offset = Math.min(-opts.minHalfWidthM, ...this.around(right, k, smooth, closed)) - opts.marginM;
+            return GeoCalculator.fromLocalMeters(origin, { x: c.x + normals[k].x * offset, y: c.y + normals[k].y * offset });
+        });
+
+        if (!closed) {
+            return new TrackBoundary({ outer: [...leftEdge, ...[...rightEdge].reverse()], inner: [], source: 'envelope' });
+        }
+        const [outer, inner] = this.area(leftEdge, origin) >= this.area(rightEdge, origin)
+            ? [leftEdge, rightEdge]
+            : [rightEdge, leftEdge];
+        return new TrackBoundary({ outer, inner, source: 'envelope' });
+    }
+
+    private prepareLaps(laps: TelemetryFrame[][], opts: EnvelopeOptions): PreparedLap[] {
+        const distanceCalculator = new LapDistanceCalculator();
+        return laps
+            .filter(frames => frames.length >= 10)
+            .map(frames => {
+                const sorted = [...frames].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+                const distance = sorted.every(f => f.lapDistance !== undefined)
+                    ? sorted.map(f => f.lapDistance ?? 0)
+                    : distanceCalculator.fromSpeed(sorted);
+                const fixes = sorted
+                    .map((f, i) => ({ point: { latitude: f.gpsLatitude, longitude: f.gpsLongitude }, distance: distance[i] }))
+                    .filter(f => GeoCalculator.isValidFix(f.point));
+                return { fixes, length: distance[distance.length - 1], frameCount: sorted.length };
+            })
+            .filter(lap => lap.length > 0 && lap.fixes.length >= lap.frameCount * opts.minFixShare);
+    }
+
+    /**
+     * Widest offsets either side among the laps that stay within outlierM of
+     * the core envelope on this stretch; null without any fix
+     */
+    private cleanExtent(pooled: LapOffset[], opts: EnvelopeOptions): { left: number; right: number } | null {
+        if (pooled.length === 0) return null;
+        const values = pooled.map(o => o.offset);
+        const coreLeft = this.percentile(values, opts.envelopePercentile);
+        const coreRight = this.percentile(values, 1 - opts.envelopePercentile);
+
+        const offLine = new Set(pooled
+            .filter(o => o.offset > coreLeft + opts.outlierM || o.offset < coreRight - opts.outlierM)
+            .map(o => o.lap));
+        let left = coreLeft;
+        let right = coreRight;
+        for (const { lap, offset } of pooled) {
+            if (offLine.has(lap)) continue;
+            left = Math.max(left, offset);
+            right = Math.min(right, offset);
+        }
+        return { left, right };
+    }
+
+    /**
+     * Values within halfWindow of k (wrapping on a closed circuit)
+     */
+    private around<T>(values: T[], k: number, halfWindow: number, closed: boolean): T[] {
+        const result: T[] = [];
+        for (let j = k - halfWindow; j <= k + halfWindow; j++) {
+            const i = closed ? ((j % values.length) + values.length) % values.length : j;
+            if (i >= 0 && i < values.length) result.push(values[i]);
+        }
+        return result;
+    }
+
+    /**
+     * Grid points without any fix take the nearest measured value before them
+     * (after them at the start); all zero when nothing was measured
+     */
+    private fillGaps(values: number[]): number[] {
+        const first = values.find(v => !isNaN(v)) ?? 0;
+        let last = first;
+        return values.map(v => {
+            if (!isNaN(v)) last = v;
+            return last;
+        });
+    }
+
+    private percentile(values: number[], p: number): number {
+        const sorted = [...values].sort((a, b) => a - b);
+        const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+        return sorted[index];
+    }
+
+    /**
+     * Enclosed area of a loop in square metres (shoelace formula)
+     */
+    private area(loop: GeoPoint[], origin: GeoPoint): number {
+        const points = loop.map(p => GeoCalculator.toLocalMeters(origin, p));
+        let sum = 0;
+        for (let i = 0; i < points.length; i++) {
+            const a = points[i];
+            const b = points[(i + 1) % points.length];
+            sum += a.x * b.y - b.x * a.y;
+        }
+        return Math.abs(sum) / 2;
+    }
+}
+
+interface LapOffset {
+    lap: number; // index of the lap
+    offset: number; // metres, left positive
+}
+
+interface PreparedLap {
+    fixes: Array<{ point: GeoPoint; distance: number }>;
+    length: number; // metres
+    frameCount: number;
+}
+
+const DEFAULT_OPTIONS: EnvelopeOptions = {
+    stepM: 5,
+    searchWindowM: 30,
+    envelopePercentile: 0.9,
+    outlierM: 3,
+    poolM: 25,
+    minHalfWidthM: 4,
+    marginM: 2,
+    smoothingM: 15,
+    closeLoopM: 30,
+    maxLengthDeviation: 0.1,
+    minFixShare: 0.5
+};
+
+export interface EnvelopeOptions {
+    stepM: number; // centreline grid spacing
+    searchWindowM: number; // how far along the centreline a fix is matched from its lap distance
+    envelopePercentile: number; // share of fixes inside each side of the core envelope
+    outlierM: number; // laps further than this outside the core envelope are off the line there
+    poolM: number; // fixes within this distance along the track are pooled for the edges
+    minHalfWidthM: number; // never narrower than this either side of the centreline
+    marginM: number; // added outside the widest clean lap (GPS error, car body)
+    smoothingM: number; // edges take the widest offset within this distance
+    closeLoopM: number; // centreline ends closer than this make a closed circuit
+    maxLengthDeviation: number; // fraction of the median lap length
+    minFixShare: number; // laps need at least this share of frames with a GPS fix
+}
@@ -0,0 +1,110 @@
+import { Lap } from '../entities/Lap';
+import { TelemetryFrame } from '../entities/TelemetryFrame';
+import { TrackBoundary } from '../entities/TrackBoundary';
+import { GeoCalculator } from './GeoCalculator';
+
+/**
+ * Domain Service: TrackLimitsChecker
+ * Finds where a car left the track boundary and invalidates those laps.
+ *
+ * Algorithm:
+ * 1. Test every frame's GPS position against the boundary; frames without
+ *    a fix are skipped
+ * 2. Consecutive frames off the track form an excursion, from the first
+ *    frame off until the first frame back on (or the lap's last frame)
+ * 3. Excursions shorter than minDurationMs are GPS noise and dropped
+ * 4. A lap with any excursion left is invalid
+ */
+export class TrackLimitsChecker {
+    /**
+     * Business Logic: Check one lap against the boundary
+     * @param frames The lap's frames (any order)
+     * @returns null when the lap has no frames
+     */
+    checkLap(
+        frames: readonly TelemetryFrame[],
+        boundary: TrackBoundary,
+        options: Partial<TrackLimitsOptions> = {}
+    ): LapLimitsCheck | null {
+        const opts = { ...DEFAULT_OPTIONS, ...options };
+        const sorted = [...frames].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+        if (sorted.length === 0) return null;
+
+        const excursions: TrackExcursion[] = [];
+        let off: TelemetryFrame[] = [];
+
+        const close = (end: TelemetryFrame) => {
+            const durationMs = end.timestamp.getTime() - off[0].timestamp.getTime();
+            if (durationMs >= opts.minDurationMs) {
+                const middle = off[Math.floor(off.length / 2)];
+                excursions.push({
+                    vehicleId: middle.vehicleId,
+                    lapNumber: middle.lap,
+                    start: off[0].timestamp,
+                    end: end.timestamp,
+                    durationMs,
+                    latitude: middle.gpsLatitude,
+                    longitude: middle.gpsLongitude,
+                    lapDistance: middle.lapDistance ?? null
+                });
+            }
+            off = [];
+        };
+
+        for (const frame of sorted) {
+            const point = { latitude: frame.gpsLatitude, longitude: frame.gpsLongitude };
+            if (!GeoCalculator.isValidFix(point)) continue;
+
+            if (!boundary.contains(point)) {
+                off.push(frame);
+            } else if (off.length > 0) {
+                close(frame);
+            }
+        }
+        if (off.length > 0) close(off[off.length - 1]);
+
+        return {
+            vehicleId: sorted[0].vehicleId,
+            lapNumber: sorted[0].lap,
+            excursions,
+            valid: excursions.length === 0
+        };
+    }
+
+    /**
+     * Copies of the laps marked valid or invalid; laps without a check keep their flag
+     */
+    validateLaps(laps: readonly Lap[], checks: readonly LapLimitsCheck[]): Lap[] {
+        const byKey = new Map(checks.map(c => [`${c.vehicleId}-${c.lapNumber}`, c.valid]));
+        return laps.map(lap => {
+            const valid = byKey.get(`${lap.vehicle.id}-${lap.lapNumber}`);
+            return valid === undefined || valid === lap.isValid ? lap : lap.withValidity(valid);
+        });
+    }
+}
+
+const DEFAULT_OPTIONS: TrackLimitsOptions = {
+    minDurationMs: 300
+};
+
+export interface TrackLimitsOptions {
+    minDurationMs: number; // shorter excursions are treated as GPS noise
+}
+
+export interface TrackExcursion {
+    vehicleId: string;
+    lapNumber: number;
+    start: Date;
+    end: Date;
+    durationMs: number;
+    latitude: number; // the middle of the excursion
+    longitude: number;
+    lapDistance: number | null; // metres from the lap start, when known
+}
+
+export interface LapLimitsCheck {
+    vehicleId: string;
+    lapNumber: number;
+    excursions: TrackExcursion[];
+    valid: boolean;
+}
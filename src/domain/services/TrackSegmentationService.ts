@@ -0,0 +1,334 @@
+import { TelemetryFrame } from '../entities/TelemetryFrame';
+import { TrackLayout, TrackSegment } from '../entities/TrackLayout';
+import { GeoCalculator, GeoPoint } from './GeoCalculator';
+import { LapDistanceCalculator } from './LapDistanceCalculator';
+import { SeriesMath } from './SeriesMath';
+
+/**
+ * Domain Service: TrackSegmentationService
+ * Splits a circuit into corners and straights from several laps of telemetry.
+ *
+ * Algorithm:
+ * 1. Drop partial laps (length far from the median), scale the rest to the
+ *    median length and average speed and GPS position on a fixed distance grid
+ * 2. Curvature = change of heading per metre along the averaged path;
+ *    runs above a curvature threshold that turn far enough are corners
+ * 3. Speed minima with a clear drop that no curvature corner covers are added
+ *    as corners too (GPS-less laps, tight chicanes the GPS smooths out)
+ * 4. Corners are numbered T1..Tn from the start/finish line; the gaps between
+ *    them are straights
+ *
+ * Averaging several laps and fixed thresholds make the numbering repeatable:
+ * the same data always produces the same corners in the same order.
+ */
+export class TrackSegmentationService {
+    static readonly DEFAULT_OPTIONS: Required<SegmentationOptions> = {
+        stepM: 5,
+        curvatureWindowM: 30,
+        minCurvature: 1 / 250, // 1/m: radius below 250 m
+        minTurnAngleDeg: 15,
+        mergeGapM: 40,
+        minSpeedDrop: 12, // km/h
+        maxLengthDeviation: 0.1
+    };
+
+    /**
+     * Build a track layout from one or more complete laps
+     * @param laps Frames of each lap (any order within a lap)
+     */
+    segment(laps: TelemetryFrame[][], options: SegmentationOptions = {}): TrackLayout {
+        const opts = { ...TrackSegmentationService.DEFAULT_OPTIONS, ...options };
+        const profile = this.buildAverageProfile(laps, opts);
+
+        const curvature = profile.x && profile.y
+            ? this.computeCurvature(profile.x, profile.y, opts)
+            : null;
+
+        const ranges = curvature ? this.findCurvatureCorners(curvature, opts) : [];
+        for (const range of this.findSpeedCorners(profile.speed, opts)) {
+            if (!ranges.some(r => range.apex >= r.start && range.apex <= r.end)) {
+                ranges.push(range);
+            }
+        }
+
+        const corners = this.toCorners(this.mergeOverlaps(ranges), profile, curvature, opts);
+        return new TrackLayout({
+            lengthM: profile.lengthM,
+            segments: [...corners, ...this.fillStraights(corners, profile.lengthM)]
+        });
+    }
+
+    /**
+     * Average complete laps on a common distance grid
+     */
+    private buildAverageProfile(laps: TelemetryFrame[][], opts: Required<SegmentationOptions>): AverageProfile {
+        const distanceCalculator = new LapDistanceCalculator();
+        const prepared = laps
+            .filter(frames => frames.length >= 10)
+            .map(frames => {
+                const sorted = [...frames].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+                const distance = sorted.every(f => f.lapDistance !== undefined)
+                    ? sorted.map(f => f.lapDistance!)
+                    : distanceCalculator.fromSpeed(sorted);
+                return { frames: sorted, distance, length: distance[distance.length - 1] };
+            })
+            .filter(lap => lap.length > 0);
+
+        if (prepared.length === 0) {
+            throw new Error('Track segmentation needs at least one complete lap');
+        }
+
+        const lengths = prepared.map(l => l.length).sort((a, b) => a - b);
+        const lengthM = lengths[Math.floor(lengths.length / 2)];
+        const complete = prepared.filter(l => Math.abs(l.length - lengthM) <= lengthM * opts.maxLengthDeviation);
+
+        const gridSize = Math.floor(lengthM / opts.stepM) + 1;
+        const speed = new Array<number>(gridSize).fill(0);
+        const x = new Array<number>(gridSize).fill(0);
+        const y = new Array<number>(gridSize).fill(0);
+        let origin: GeoPoint | null = null;
+        let gpsLaps = 0;
+
+        for (const lap of complete) {
+            const scaled = lap.distance.map(d => d * lengthM / lap.length);
+            const speeds = lap.frames.map(f => f.speed);
+            for (let k = 0; k < gridSize; k++) {
+                speed[k] += SeriesMath.interpolate(scaled, speeds, k * opts.stepM) / complete.length;
+            }
+
+            // Position only from laps with mostly valid fixes
+            const fixes = lap.frames
+                .map((f, i) => ({ point: { latitude: f.gpsLatitude, longitude: f.gpsLongitude }, distance: scaled[i] }))
+                .filter(f => GeoCalculator.isValidFix(f.point));
+            if (fixes.length < lap.frames.length / 2) continue;
+
+            origin ??= fixes[0].point;
+            const fixDistances = fixes.map(f => f.distance);
+            const local = fixes.map(f => GeoCalculator.toLocalMeters(origin!, f.point));
+            const xs = local.map(p => p.x);
+            const ys = local.map(p => p.y);
+            for (let k = 0; k < gridSize; k++) {
+                x[k] += SeriesMath.interpolate(fixDistances, xs, k * opts.stepM);
+                y[k] += SeriesMath.interpolate(fixDistances, ys, k * opts.stepM);
+            }
+            gpsLaps++;
+        }
+
+        return {
+            lengthM,
+            speed: this.smooth(speed, Math.round(20 / opts.stepM)),
+            x: gpsLaps > 0 ? x.map(v => v / gpsLaps) : null,
+            y: gpsLaps > 0 ? y.map(v => v / gpsLaps) : null,
+            origin
+        };
+    }
+
+    /**
+     * Signed curvature (1/m, positive = left turn) along the averaged path
+     */
+    private computeCurvature(x: number[], y: number[], opts: Required<SegmentationOptions>): number[] {
+        const n = x.length;
+        const w = Math.max(1, Math.round(opts.curvatureWindowM / opts.stepM / 2));
+        const at = (i: number) => Math.min(Math.max(i, 0), n - 1);
+
+        const heading = x.map((_, k) =>
+            Math.atan2(y[at(k + w)] - y[at(k - w)], x[at(k + w)] - x[at(k - w)])
+        );
+        const curvature = heading.map((_, k) => {
+            const span = (at(k + w) - at(k - w)) * opts.stepM;
+            return span > 0 ? this.angleDiff(heading[at(k + w)], heading[at(k - w)]) / span : 0;
+        });
+
+        return this.smooth(curvature, w);
+    }
+
+    /**
+     * Runs of same-direction curvature above the threshold, merged across short gaps
+     */
+    private findCurvatureCorners(curvature: number[], opts: Required<SegmentationOptions>): CornerRange[] {
+        const runs: { start: number; end: number; sign: number }[] = [];
+        for (let k = 0; k < curvature.length; k++) {
+            if (Math.abs(curvature[k]) < opts.minCurvature) continue;
+            const sign = Math.sign(curvature[k]);
+            const last = runs[runs.length - 1];
+            if (last && last.sign === sign && (k - last.end) * opts.stepM <= opts.mergeGapM) {
+                last.end = k;
+            } else {
+                runs.push({ start: k, end: k, sign });
+            }
+        }
+
+        const minTurn = opts.minTurnAngleDeg * Math.PI / 180;
+        return runs
+            .filter(run => {
+                let turn = 0;
+                for (let k = run.start; k <= run.end; k++) turn += curvature[k] * opts.stepM;
+                return Math.abs(turn) >= minTurn;
+            })
+            .map(run => ({ start: run.start, end: run.end, apex: run.start }));
+    }
+
+    /**
+     * Speed minima that drop at least minSpeedDrop below the fastest point
+     * on both sides; the corner spans where speed stays within half the drop.
+     * The lap is a loop, so the search windows wrap across the start/finish line.
+     */
+    private findSpeedCorners(speed: number[], opts: Required<SegmentationOptions>): CornerRange[] {
+        const ranges: CornerRange[] = [];
+        const n = speed.length;
+        const guard = Math.max(1, Math.round(opts.mergeGapM / opts.stepM));
+        const reach = Math.round(300 / opts.stepM);
+        const at = (j: number) => speed[((j % n) + n) % n];
+
+        for (let k = 0; k < n; k++) {
+            // Strict minimum within the guard window removes noise duplicates
+            let isMinimum = true;
+            for (let j = k - guard; j <= k + guard; j++) {
+                if (at(j) < speed[k] || (at(j) === speed[k] && j < k)) {
+                    isMinimum = false;
+                    break;
+                }
+            }
+            if (!isMinimum) continue;
+
+            let leftMax = speed[k];
+            let rightMax = speed[k];
+            for (let j = k - reach; j < k; j++) leftMax = Math.max(leftMax, at(j));
+            for (let j = k + 1; j <= k + reach; j++) rightMax = Math.max(rightMax, at(j));
+            const drop = Math.min(leftMax, rightMax) - speed[k];
+            if (drop < opts.minSpeedDrop) continue;
+
+            const limit = speed[k] + drop / 2;
+            let start = k;
+            let end = k;
+            while (start > 0 && speed[start - 1] <= limit) start--;
+            while (end < speed.length - 1 && speed[end + 1] <= limit) end++;
+            ranges.push({ start, end, apex: k });
+        }
+
+        return ranges;
+    }
+
+    private mergeOverlaps(ranges: CornerRange[]): CornerRange[] {
+        const sorted = [...ranges].sort((a, b) => a.start - b.start);
+        const merged: CornerRange[] = [];
+        for (const range of sorted) {
+            const last = merged[merged.length - 1];
+            if (last && range.start <= last.end) {
+                last.end = Math.max(last.end, range.end);
+            } else {
+                merged.push({ ...range });
+            }
+        }
+        return merged;
+    }
+
+    private toCorners(
+        ranges: CornerRange[],
+        profile: AverageProfile,
+        curvature: number[] | null,
+        opts: Required<SegmentationOptions>
+    ): TrackSegment[] {
+        return ranges.map((range, i) => {
+            // Apex: slowest point of the corner
+            let apex = range.start;
+            for (let k = range.start; k <= range.end; k++) {
+                if (profile.speed[k] < profile.speed[apex]) apex = k;
+            }
+
+            let turn = 0;
+            if (curvature) {
+                for (let k = range.start; k <= range.end; k++) turn += curvature[k];
+            }
+
+            const apexPosition = profile.origin && profile.x && profile.y
+                ? GeoCalculator.fromLocalMeters(profile.origin, { x: profile.x[apex], y: profile.y[apex] })
+                : null;
+
+            return {
+                id: `T${i + 1}`,
+                kind: 'corner' as const,
+                startDistance: range.start * opts.stepM,
+                endDistance: Math.min((range.end + 1) * opts.stepM, profile.lengthM),
+                apexDistance: apex * opts.stepM,
+                minSpeed: profile.speed[apex],
+                direction: turn === 0 ? undefined : turn > 0 ? 'left' as const : 'right' as const,
+                apexLatitude: apexPosition?.latitude,
+                apexLongitude: apexPosition?.longitude
+            };
+        });
+    }
+
+    /**
+     * Straights fill the gaps between corners, named after the corners around them
+     */
+    private fillStraights(corners: TrackSegment[], lengthM: number): TrackSegment[] {
+        const straights: TrackSegment[] = [];
+        let cursor = 0;
+        let previous = 'Start';
+
+        for (const corner of [...corners, null]) {
+            const end = corner ? corner.startDistance : lengthM;
+            const next = corner ? corner.id : 'Finish';
+            if (end > cursor) {
+                straights.push({ id: `${previous}-${next}`, kind: 'straight', startDistance: cursor, endDistance: end });
+            }
+            if (corner) {
+                cursor = corner.endDistance;
+                previous = corner.id;
+            }
+        }
+
+        return straights;
+    }
+
+    /**
+     * Centered moving average
+     */
+    private smooth(values: number[], halfWindow: number): number[] {
+        if (halfWindow < 1) return values;
+        return values.map((_, k) => {
+            let sum = 0;
+            let count = 0;
+            for (let j = Math.max(0, k - halfWindow); j <= Math.min(values.length - 1, k + halfWindow); j++) {
+                sum += values[j];
+                count++;
+            }
+            return sum / count;
+        });
+    }
+
+    /**
+     * Smallest signed difference a - b between two angles (radians)
+     */
+    private angleDiff(a: number, b: number): number {
+        let d = a - b;
+        while (d > Math.PI) d -= 2 * Math.PI;
+        while (d < -Math.PI) d += 2 * Math.PI;
+        return d;
+    }
+}
+
+export interface SegmentationOptions {
+    stepM?: number;
+    curvatureWindowM?: number;
+    minCurvature?: number;
+    minTurnAngleDeg?: number;
+    mergeGapM?: number;
+    minSpeedDrop?: number;
+    maxLengthDeviation?: number; // fraction of the median lap length
+}
+
+interface AverageProfile {
+    lengthM: number;
+    speed: number[];
+    x: number[] | null;
+    y: number[] | null;
+    origin: GeoPoint | null;
+}
+
+interface CornerRange {
+    start: number; // grid indices
+    end: number;
+    apex: number;
+}
@@ -0,0 +1,277 @@
+import { Lap, TrafficCondition } from '../entities/Lap';
+import { TelemetryFrame } from '../entities/TelemetryFrame';
+import { GeoCalculator, GeoPoint, LocalPoint } from './GeoCalculator';
+import { LapDistanceCalculator } from './LapDistanceCalculator';
+
+/**
+ * Domain Service: TrafficDetector
+ * Gap to the car directly ahead on track at every point of a lap, from the
+ * time-aligned GPS positions of the other cars, and whether the lap was
+ * spent in traffic or in a slipstream.
+ *
+ * Algorithm:
+ * 1. Put every frame on the shared session clock: its lap's official start
+ *    time plus the frame's time since the lap's first frame (logger clocks
+ *    of different cars need not agree). At each frame of the lap, place
+ *    every other car at the same instant, interpolated between its frames
+ * 2. Project that position onto the lap's own GPS trace, searching only the
+ *    next lookaheadM of track: a car more than lateralToleranceM off the
+ *    line (pit lane, run-off) or behind is not ahead on track
+ * 3. The nearest car ahead gives the gap in metres, and in time at the
+ *    car's current speed
+ * 4. Time within followingDistanceM of the car ahead counts as slipstream
+ *    when the car is near its top speed for the lap (on a straight), and as
+ *    traffic otherwise (held up through the corners)
+ * 5. A lap spent mostly (minLapFraction of its time) that close is flagged,
+ *    as slipstream or traffic by whichever of the two took longer
+ */
+export class TrafficDetector {
+    /**
+     * Business Logic: Gap to the car ahead through one lap
+     * @param frames The lap's own frames
+     * @param others vehicleId -> other cars' frames of the laps overlapping this one (whole laps)
+     * @param lapStarts `${vehicleId}-${lap}` -> official lap start, for the session clock
+     * @returns null when the lap has no usable GPS trace
+     */
+    analyzeLap(
+        frames: readonly TelemetryFrame[],
+        others: ReadonlyMap<string, readonly TelemetryFrame[]>,
+        lapStarts: ReadonlyMap<string, Date>,
+        options: Partial<TrafficDetectionOptions> = {}
+    ): LapTraffic | null {
+        const opts = { ...DEFAULT_OPTIONS, ...options };
+        const own = this.onSessionClock(frames, lapStarts);
+        const sorted = own.map(f => f.frame);
+        const times = own.map(f => f.time);
+        if (sorted.length < 2) return null;
+
+        const distances = sorted.every(f => f.lapDistance !== undefined)
+            ? sorted.map(f => f.lapDistance ?? 0)
+            : new LapDistanceCalculator().fromSpeed(sorted);
+        const lapLengthM = distances[distances.length - 1];
+        if (!(lapLengthM > 0)) return null;
+
+        const origin: GeoPoint = { latitude: sorted[0].gpsLatitude, longitude: sorted[0].gpsLongitude };
+        const trace = sorted.map((f, i) => ({
+            ...GeoCalculator.toLocalMeters(origin, { latitude: f.gpsLatitude, longitude: f.gpsLongitude }),
+            distance: distances[i]
+        }));
+
+        const otherCars = Array.from(others.entries())
+            .map(([vehicleId, list]) => ({
+                vehicleId,
+                frames: this.onSessionClock(list, lapStarts),
+                cursor: 0
+            }))
+            .filter(car => car.vehicleId !== sorted[0].vehicleId && car.frames.length > 1);
+
+        const topSpeed = Math.max(...sorted.map(f => f.speed));
+        const points: TrafficPoint[] = [];
+        let totalMs = 0;
+        let trafficMs = 0;
+        let slipstreamMs = 0;
+
+        sorted.forEach((frame, i) => {
+            const t = times[i];
+            let ahead: { vehicleId: string; gapM: number } | null = null;
+
+            for (const car of otherCars) {
+                const position = this.positionAt(car, t, opts.maxGapMs);
+                if (!position) continue;
+                const gapM = this.gapAlongTrace(trace, i, lapLengthM, GeoCalculator.toLocalMeters(origin, position), opts);
+                if (gapM !== null && (!ahead || gapM < ahead.gapM)) ahead = { vehicleId: car.vehicleId, gapM };
+            }
+
+            const speedMs = frame.speed / 3.6;
+            points.push({
+                timestamp: new Date(t),
+                lapDistance: distances[i],
+                aheadVehicleId: ahead?.vehicleId ?? null,
+                gapM: ahead?.gapM ?? null,
+                gapMs: ahead && speedMs > 1 ? ahead.gapM / speedMs * 1000 : null
+            });
+
+            // Time weight: half the interval on either side of the frame
+            const prev = i > 0 ? t - times[i - 1] : 0;
+            const next = i < sorted.length - 1 ? times[i + 1] - t : 0;
+            const weight = (prev + next) / 2;
+            totalMs += weight;
+            if (ahead && ahead.gapM <= opts.followingDistanceM) {
+                if (frame.speed >= topSpeed * opts.slipstreamSpeedFactor) slipstreamMs += weight;
+                else trafficMs += weight;
+            }
+        });
+
+        const closeFraction = totalMs > 0 ? (trafficMs + slipstreamMs) / totalMs : 0;
+        let condition: TrafficCondition | null = null;
+        if (closeFraction >= opts.minLapFraction) {
+            condition = slipstreamMs > trafficMs ? 'slipstream' : 'traffic';
+        }
+
+        return {
+            vehicleId: sorted[0].vehicleId,
+            lapNumber: sorted[0].lap,
+            points,
+            closeFraction,
+            trafficFraction: totalMs > 0 ? trafficMs / totalMs : 0,
+            slipstreamFraction: totalMs > 0 ? slipstreamMs / totalMs : 0,
+            condition
+        };
+    }
+
+    /**
+     * Tagged copies of the laps; laps without a result keep their tag
+     */
+    tagLaps(laps: readonly Lap[], traffic: readonly LapTraffic[]): Lap[] {
+        const byKey = new Map(traffic.map(t => [`${t.vehicleId}-${t.lapNumber}`, t.condition]));
+        return laps.map(lap => {
+            const key = `${lap.vehicle.id}-${lap.lapNumber}`;
+            if (!byKey.has(key)) return lap;
+            const condition = byKey.get(key) ?? null;
+            return condition === lap.traffic ? lap : lap.withTraffic(condition);
+        });
+    }
+
+    /**
+     * Frames with a GPS fix on the session clock, in time order; laps without
+     * an official start stay on the logger clock
+     */
+    private onSessionClock(frames: readonly TelemetryFrame[], lapStarts: ReadonlyMap<string, Date>): TimedFrame[] {
+        const firsts = new Map<string, number>();
+        for (const frame of frames) {
+            const key = `${frame.vehicleId}-${frame.lap}`;
+            firsts.set(key, Math.min(firsts.get(key) ?? Infinity, frame.timestamp.getTime()));
+        }
+
+        return frames
+            .filter(f => GeoCalculator.isValidFix({ latitude: f.gpsLatitude, longitude: f.gpsLongitude }))
+            .map(frame => {
+                const key = `${frame.vehicleId}-${frame.lap}`;
+                const first = firsts.get(key) ?? frame.timestamp.getTime();
+                const start = lapStarts.get(key)?.getTime() ?? first;
+                return { frame, time: start + frame.timestamp.getTime() - first };
+            })
+            .sort((a, b) => a.time - b.time);
+    }
+
+    /**
+     * Interpolated position at session time t; null outside the frames or in a hole
+     * Times are queried in increasing order, so the cursor only moves forward.
+     */
+    private positionAt(car: OtherCar, t: number, maxGapMs: number): GeoPoint | null {
+        const frames = car.frames;
+        while (car.cursor < frames.length - 2 && frames[car.cursor + 1].time <= t) car.cursor++;
+        const p = frames[car.cursor];
+        const q = frames[car.cursor + 1];
+        if (t < p.time || t > q.time || q.time - p.time > maxGapMs) return null;
+
+        const f = q.time === p.time ? 0 : (t - p.time) / (q.time - p.time);
+        return {
+            latitude: p.frame.gpsLatitude + (q.frame.gpsLatitude - p.frame.gpsLatitude) * f,
+            longitude: p.frame.gpsLongitude + (q.frame.gpsLongitude - p.frame.gpsLongitude) * f
+        };
+    }
+
+    /**
+     * Distance along the trace from point i to the projection of a position,
+     * searching the next lookaheadM (wrapping past the line); null when the
+     * position is not on that stretch of track
+     */
+    private gapAlongTrace(
+        trace: TracePoint[],
+        i: number,
+        lapLengthM: number,
+        position: LocalPoint,
+        opts: TrafficDetectionOptions
+    ): number | null {
+        const n = trace.length;
+        const from = trace[i].distance;
+        let best: { lateral: number; gap: number } | null = null;
+
+        // Segments (k, k+1) from the one ending at i up to lookaheadM ahead
+        for (let step = -1; step < n - 1; step++) {
+            const k = i + step;
+            const a = this.pointAt(trace, k, lapLengthM);
+            const b = this.pointAt(trace, k + 1, lapLengthM);
+            if (!a || !b) continue;
+            if (a.distance - from > opts.lookaheadM) break;
+
+            const dx = b.x - a.x;
+            const dy = b.y - a.y;
+            const lengthSq = dx * dx + dy * dy;
+            const f = lengthSq > 0 ? ((position.x - a.x) * dx + (position.y - a.y) * dy) / lengthSq : 0;
+            // Only positions alongside the segment: clamped to its end, a car
+            // just behind would count as ahead by the next segment's length
+            if (f < 0 || f > 1) continue;
+            const lateral = Math.hypot(a.x + dx * f - position.x, a.y + dy * f - position.y);
+            const gap = a.distance + (b.distance - a.distance) * f - from;
+
+            if (lateral <= opts.lateralToleranceM && gap > 0 && gap <= opts.lookaheadM && (!best || lateral < best.lateral)) {
+                best = { lateral, gap };
+            }
+        }
+
+        return best?.gap ?? null;
+    }
+
+    /**
+     * Trace point k, continuing onto the start of the lap (one lap further on) past the end
+     */
+    private pointAt(trace: TracePoint[], k: number, lapLengthM: number): TracePoint | null {
+        if (k < 0) return null;
+        if (k < trace.length) return trace[k];
+        const wrapped = trace[k - trace.length];
+        return wrapped ? { ...wrapped, distance: wrapped.distance + lapLengthM } : null;
+    }
+}
+
+interface TracePoint extends LocalPoint {
+    distance: number; // metres from the lap start
+}
+
+interface TimedFrame {
+    frame: TelemetryFrame;
+    time: number; // session clock, ms
+}
+
+interface OtherCar {
+    vehicleId: string;
+    frames: TimedFrame[]; // by time
+    cursor: number;
+}
+
+const DEFAULT_OPTIONS: TrafficDetectionOptions = {
+    followingDistanceM: 50,
+    lookaheadM: 200,
+    lateralToleranceM: 20,
+    slipstreamSpeedFactor: 0.85,
+    minLapFraction: 0.5,
+    maxGapMs: 2000
+};
+
+export interface TrafficDetectionOptions {
+    followingDistanceM: number; // closer than this to the car ahead counts as following
+    lookaheadM: number; // gaps are reported up to this far ahead
+    lateralToleranceM: number; // how far off the lap's own line a car can be and still be on track
+    slipstreamSpeedFactor: number; // following above this share of the lap's top speed is slipstream
+    minLapFraction: number; // share of the lap's time spent following before it is flagged
+    maxGapMs: number; // longer holes in another car's frames are not interpolated
+}
+
+export interface TrafficPoint {
+    timestamp: Date; // session clock
+    lapDistance: number;
+    aheadVehicleId: string | null; // null when nobody is within lookaheadM
+    gapM: number | null;
+    gapMs: number | null; // at the car's current speed
+}
+
+export interface LapTraffic {
+    vehicleId: string;
+    lapNumber: number;
+    points: TrafficPoint[]; // one per frame with a GPS fix
+    closeFraction: number; // share of the lap within the following distance
+    trafficFraction: number;
+    slipstreamFraction: number;
+    condition: TrafficCondition | null; // null: mostly clear air
+}
@@ -0,0 +1,198 @@
+import { Lap } from '../entities/Lap';
+import { Stint } from '../entities/Stint';
+import { PitStopDetector } from './PitStopDetector';
+import { SeriesMath } from './SeriesMath';
+
+/**
+ * Domain Service: TyreDegradationService
+ * Fits the lap-time trend of each stint to estimate tyre degradation.
+ *
+ * Algorithm:
+ * 1. Split a car's laps into stints (given, or from lap-time pit detection)
+ * 2. Drop the out lap of stints that start from the pit, the in lap of
+ *    stints that end in it, and caution laps
+ * 3. Least-squares line of lap time against tyre age; laps with residuals
+ *    beyond outlierMads robust deviations are dropped and the line refitted
+ * 4. The slope is the degradation in s/lap, with a 95% confidence interval
+ *    from its standard error (Student's t)
+ */
+export class TyreDegradationService {
+    /**
+     * Business Logic: Degradation model for one car
+     * @param stints Stints to fit; laps are matched to them by lap number, so
+     *               corrected laps can be fitted on stints found from raw ones
+     */
+    analyzeVehicle(
+        laps: readonly Lap[],
+        options: Partial<DegradationOptions> = {},
+        stints?: readonly Stint[]
+    ): VehicleDegradation | null {
+        if (laps.length === 0) return null;
+        const opts = { ...DEFAULT_OPTIONS, ...options };
+
+        const sorted = [...laps].sort((a, b) => a.lapNumber - b.lapNumber);
+        const splits = stints ?? new PitStopDetector().analyze(sorted, { options: { spikeFactor: opts.pitLapFactor } }).stints;
+
+        return {
+            vehicleId: sorted[0].vehicle.id,
+            stints: splits
+                .map(stint => ({ stint, laps: sorted.filter(l => stint.containsLap(l.lapNumber)) }))
+                .filter(({ laps: stintLaps }) => stintLaps.length > 0)
+                .map(({ stint, laps: stintLaps }) => this.analyzeStint(stint, stintLaps, opts))
+        };
+    }
+
+    private analyzeStint(stint: Stint, stintLaps: Lap[], opts: DegradationOptions): StintDegradation {
+        const last = stintLaps.length - 1;
+        const points: DegradationPoint[] = stintLaps.map((lap, i) => ({
+            lapNumber: lap.lapNumber,
+            tyreAge: i + 1,
+            lapTimeS: lap.durationMs / 1000,
+            excluded: i === 0 && stint.startsFromPit
+                ? 'outLap'
+                : (i === last && stint.endsInPit ? 'inLap' : (lap.isCautionLap ? 'caution' : null))
+        }));
+
+        // Fit, drop outliers against the fit, refit until nothing changes
+        let fit = this.fitLine(points.filter(p => p.excluded === null));
+        for (let pass = 0; pass < 3 && fit; pass++) {
+            const line = fit;
+            const used = points.filter(p => p.excluded === null);
+            const residuals = used.map(p => Math.abs(p.lapTimeS - (line.interceptS + line.degradationSPerLap * p.tyreAge)));
+            const mad = SeriesMath.robustStd(residuals, 0);
+            const limit = Math.max(mad * opts.outlierMads, opts.minOutlierS);
+
+            const outliers = used.filter((_, i) => residuals[i] > limit);
+            if (outliers.length === 0) break;
+            outliers.forEach(p => { p.excluded = 'outlier'; });
+            fit = this.fitLine(points.filter(p => p.excluded === null));
+        }
+
+        return {
+            stintNumber: stint.stintNumber,
+            startLap: points[0].lapNumber,
+            endLap: points[points.length - 1].lapNumber,
+            points,
+            fit,
+            curve: fit ? this.buildCurve(fit, points) : []
+        };
+    }
+
+    /**
+     * Least-squares line with a 95% confidence interval on the slope
+     */
+    private fitLine(points: DegradationPoint[]): DegradationFit | null {
+        const n = points.length;
+        if (n < 3) return null;
+
+        const meanX = points.reduce((s, p) => s + p.tyreAge, 0) / n;
+        const meanY = points.reduce((s, p) => s + p.lapTimeS, 0) / n;
+        let sxx = 0;
+        let sxy = 0;
+        let syy = 0;
+        for (const p of points) {
+            sxx += (p.tyreAge - meanX) ** 2;
+            sxy += (p.tyreAge - meanX) * (p.lapTimeS - meanY);
+            syy += (p.lapTimeS - meanY) ** 2;
+        }
+        if (sxx === 0) return null;
+
+        const slope = sxy / sxx;
+        const intercept = meanY - slope * meanX;
+        const sse = Math.max(0, syy - slope * sxy);
+        const residualStd = Math.sqrt(sse / (n - 2));
+        const slopeStdError = residualStd / Math.sqrt(sxx);
+        const t = this.tCritical(n - 2);
+
+        return {
+            degradationSPerLap: slope,
+            confidenceLow: slope - t * slopeStdError,
+            confidenceHigh: slope + t * slopeStdError,
+            interceptS: intercept,
+            residualStdS: residualStd,
+            rSquared: syy > 0 ? 1 - sse / syy : 1,
+            lapsUsed: n,
+            meanTyreAge: meanX,
+            sxx
+        };
+    }
+
+    /**
+     * Fitted lap time with its 95% confidence band at every tyre age of the stint
+     */
+    private buildCurve(fit: DegradationFit, points: DegradationPoint[]): DegradationCurvePoint[] {
+        const t = this.tCritical(fit.lapsUsed - 2);
+        return points.map(p => {
+            const fitted = fit.interceptS + fit.degradationSPerLap * p.tyreAge;
+            const halfWidth = t * fit.residualStdS *
+                Math.sqrt(1 / fit.lapsUsed + (p.tyreAge - fit.meanTyreAge) ** 2 / fit.sxx);
+            return { lapNumber: p.lapNumber, tyreAge: p.tyreAge, fittedS: fitted, lowerS: fitted - halfWidth, upperS: fitted + halfWidth };
+        });
+    }
+
+    /**
+     * Two-sided 95% Student's t critical value (table lookup, normal beyond 30)
+     */
+    private tCritical(df: number): number {
+        const table = [12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+            2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086];
+        if (df < 1) return Infinity;
+        if (df <= table.length) return table[df - 1];
+        return df <= 30 ? 2.042 : 1.96;
+    }
+}
+
+const DEFAULT_OPTIONS: DegradationOptions = {
+    pitLapFactor: 1.2,
+    outlierMads: 3,
+    minOutlierS: 0.5
+};
+
+export interface DegradationOptions {
+    pitLapFactor: number; // lap-time spike that marks a pit stop when no stints are given
+    outlierMads: number; // residual limit in robust standard deviations
+    minOutlierS: number; // never treat residuals below this as outliers
+}
+
+export type DegradationExclusion = 'outLap' | 'inLap' | 'caution' | 'outlier';
+
+export interface DegradationPoint {
+    lapNumber: number;
+    tyreAge: number; // laps into the stint, out lap = 1
+    lapTimeS: number;
+    excluded: DegradationExclusion | null;
+}
+
+export interface DegradationFit {
+    degradationSPerLap: number;
+    confidenceLow: number; // 95% interval on the slope
+    confidenceHigh: number;
+    interceptS: number;
+    residualStdS: number;
+    rSquared: number;
+    lapsUsed: number;
+    meanTyreAge: number;
+    sxx: number; // spread of tyre ages, for the confidence band
+}
+
+export interface DegradationCurvePoint {
+    lapNumber: number;
+    tyreAge: number;
+    fittedS: number;
+    lowerS: number; // 95% band on the fitted line
+    upperS: number;
+}
+
+export interface StintDegradation {
+    stintNumber: number;
+    startLap: number;
+    endLap: number;
+    points: DegradationPoint[];
+    fit: DegradationFit | null; // null when fewer than three laps remain
+    curve: DegradationCurvePoint[];
+}
+
+export interface VehicleDegradation {
+    vehicleId: string;
+    stints: StintDegradation[];
+}
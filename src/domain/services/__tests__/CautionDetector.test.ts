@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { Lap } from '../../entities/Lap';
+import { TelemetryFrame } from '../../entities/TelemetryFrame';
+import { Vehicle } from '../../entities/Vehicle';
+import { CautionDetector } from '../CautionDetector';
+
+const START = Date.UTC(2025, 3, 27, 15, 0, 0);
+const GREEN_LAP_MS = 100000;
+
+/**
+ * Ten laps for each car, cars a second apart on the road
+ * @param lapMs Lap time of each car's lap (1-based), green otherwise
+ */
+function field(cars: number, lapMs: (carIndex: number, lapNumber: number) => number = () => GREEN_LAP_MS): Lap[] {
+    const laps: Lap[] = [];
+    for (let c = 0; c < cars; c++) {
+        const vehicle = new Vehicle({ chassis: `00${c}`, carNumber: c + 1 });
+        let t = START + c * 1000;
+        for (let lapNumber = 1; lapNumber <= 10; lapNumber++) {
+            const duration = lapMs(c, lapNumber);
+            laps.push(new Lap({ lapNumber, vehicle, startTime: new Date(t), endTime: new Date(t + duration) }));
+            t += duration;
+        }
+    }
+    return laps;
+}
+
+describe('CautionDetector', () => {
+    const detector = new CautionDetector();
+
+    it('finds a caution when the whole field slows and tags the laps it covers', () => {
+        const laps = field(4, (_, lapNumber) => lapNumber === 5 || lapNumber === 6 ? 140000 : GREEN_LAP_MS);
+
+        const { periods, laps: tagged } = detector.analyze(laps);
+
+        expect(periods).toHaveLength(1);
+        expect(periods[0]).toMatchObject({ type: 'caution', startLap: 5, endLap: 6 });
+        expect(tagged.filter(l => l.caution !== null).map(l => l.lapNumber).sort())
+            .toEqual([5, 5, 5, 5, 6, 6, 6, 6]);
+        expect(tagged.filter(l => l.caution !== null).every(l => l.caution === 'caution')).toBe(true);
+    });
+
+    it('ignores one car slowing on its own', () => {
+        const laps = field(4, (car, lapNumber) => car === 2 && lapNumber === 5 ? 140000 : GREEN_LAP_MS);
+
+        expect(detector.detect(laps)).toEqual([]);
+    });
+
+    it('calls laps at three times the median a red flag', () => {
+        const laps = field(4, (_, lapNumber) => lapNumber === 5 ? 3.5 * GREEN_LAP_MS : GREEN_LAP_MS);
+
+        const periods = detector.detect(laps);
+
+        expect(periods).toHaveLength(1);
+        expect(periods[0]).toMatchObject({ type: 'redFlag', startLap: 5, endLap: 5 });
+    });
+
+    it('reads slow running from telemetry when lap times stay green', () => {
+        const laps = field(4);
+        // Every car crawls through the last 60 s of lap 5
+        const telemetry = new Map<string, Map<number, TelemetryFrame[]>>();
+        for (const lap of laps.filter(l => l.lapNumber >= 4 && l.lapNumber <= 6)) {
+            const frames = Array.from({ length: 100 }, (_, s) => new TelemetryFrame({
+                timestamp: new Date(lap.startTime.getTime() + s * 1000),
+                vehicleId: lap.vehicle.id,
+                lap: lap.lapNumber,
+                speed: lap.lapNumber === 5 && s >= 40 ? 50 : 150,
+                throttlePos: 100,
+                brakePos: 0,
+                gpsLatitude: 30.1335,
+                gpsLongitude: -97.6411
+            }));
+            const byLap = telemetry.get(lap.vehicle.id) ?? new Map<number, TelemetryFrame[]>();
+            telemetry.set(lap.vehicle.id, byLap.set(lap.lapNumber, frames));
+        }
+
+        const periods = detector.detect(laps, { telemetry });
+
+        expect(periods).toHaveLength(1);
+        expect(periods[0]).toMatchObject({ type: 'caution', startLap: 5, endLap: 5 });
+        expect(periods[0].start.getTime() - START).toBeGreaterThanOrEqual(440000);
+    });
+
+    it('needs enough cars on track', () => {
+        const laps = field(2, (_, lapNumber) => lapNumber === 5 ? 140000 : GREEN_LAP_MS);
+
+        expect(detector.detect(laps)).toEqual([]);
+    });
+});
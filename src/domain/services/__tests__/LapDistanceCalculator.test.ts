@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { TelemetryFrame } from '../../entities/TelemetryFrame';
+import { LapDistanceCalculator } from '../LapDistanceCalculator';
+
+const START = Date.UTC(2025, 3, 27, 15, 0, 0);
+
+function frame(lap: number, seconds: number, speed: number, latitude = 30.1, longitude = -97.6): TelemetryFrame {
+    return new TelemetryFrame({
+        timestamp: new Date(START + seconds * 1000),
+        vehicleId: 'GR86-002-2',
+        lap,
+        speed,
+        throttlePos: 100,
+        brakePos: 0,
+        gpsLatitude: latitude,
+        gpsLongitude: longitude
+    });
+}
+
+describe('LapDistanceCalculator', () => {
+    const calculator = new LapDistanceCalculator();
+
+    it('integrates speed over time with the trapezoidal rule', () => {
+        // 36 km/h is 10 m/s; the first second averages 0 and 10 m/s
+        const distances = calculator.fromSpeed([frame(1, 0, 0), frame(1, 1, 36), frame(1, 2, 36), frame(1, 4, 36)]);
+
+        expect(distances).toHaveLength(4);
+        expect(distances[0]).toBe(0);
+        expect(distances[1]).toBeCloseTo(5);
+        expect(distances[2]).toBeCloseTo(15);
+        expect(distances[3]).toBeCloseTo(35);
+    });
+
+    it('sums GPS steps and holds the distance over frames without a fix', () => {
+        // 0.001 degrees of latitude is about 111.2 m
+        const distances = calculator.fromGps([
+            frame(1, 0, 100, 30.100, -97.6),
+            frame(1, 1, 100, 0, 0),
+            frame(1, 2, 100, 30.101, -97.6),
+            frame(1, 3, 100, 30.102, -97.6)
+        ]);
+
+        expect(distances[0]).toBe(0);
+        expect(distances[1]).toBe(0);
+        expect(distances[2]).toBeCloseTo(111.2, 0);
+        expect(distances[3]).toBeCloseTo(222.4, 0);
+    });
+
+    it('restarts at zero on every lap and keeps the input order', () => {
+        const frames = [frame(2, 11, 36), frame(1, 1, 36), frame(2, 10, 36), frame(1, 0, 36)];
+
+        const result = calculator.apply(frames);
+
+        expect(result.map(f => `${f.lap}@${f.timestamp.getTime() - START}`))
+            .toEqual(frames.map(f => `${f.lap}@${f.timestamp.getTime() - START}`));
+        expect(result.map(f => f.lapDistance)).toEqual([10, 10, 0, 0]);
+    });
+
+    it('uses GPS distances when asked', () => {
+        const result = calculator.apply([frame(1, 0, 0, 30.100, -97.6), frame(1, 1, 0, 30.101, -97.6)], 'gps');
+
+        expect(result[1].lapDistance).toBeCloseTo(111.2, 0);
+    });
+});
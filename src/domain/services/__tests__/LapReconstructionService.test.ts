@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { Lap } from '../../entities/Lap';
+import { TimingLine } from '../../entities/TimingLine';
+import { Vehicle } from '../../entities/Vehicle';
+import { LapReconstructionService } from '../LapReconstructionService';
+import { LAP_MS, SESSION_START, circuitFrames, circuitPoint } from './circuitFixture';
+
+const vehicle = new Vehicle({ chassis: '002', carNumber: 2 });
+
+// Line across the track at angle 0, where cars head north
+const timingLine = TimingLine.fromCenter(circuitPoint(0), 0, 30);
+
+// A quarter lap before the line, three full laps, then half a lap; fixes sit
+// half a step either side of each crossing, so crossings fall at 15 s + n laps
+const frames = circuitFrames({ fromMs: 250, toMs: 3.75 * LAP_MS, startAngle: -Math.PI / 2 + Math.PI / 120 });
+const crossingMs = [15000, 75000, 135000, 195000];
+
+function timedLap(lapNumber: number, startMs: number, endMs: number, extra: Partial<ConstructorParameters<typeof Lap>[0]> = {}): Lap {
+    return new Lap({
+        lapNumber,
+        vehicle,
+        startTime: new Date(SESSION_START + startMs),
+        endTime: new Date(SESSION_START + endMs),
+        ...extra
+    });
+}
+
+describe('LapReconstructionService', () => {
+    const service = new LapReconstructionService();
+
+    it('finds one forward crossing per lap at the interpolated time', () => {
+        const crossings = service.findCrossings(frames, timingLine);
+
+        expect(crossings.map(c => c.time.getTime() - SESSION_START)).toEqual(
+            crossingMs.map(ms => expect.closeTo(ms, -1))
+        );
+        expect(new Set(crossings.map(c => c.direction)).size).toBe(1);
+    });
+
+    it('drops crossings closer together than the minimum lap time', () => {
+        const crossings = service.findCrossings(frames, timingLine, 1.5 * LAP_MS);
+
+        expect(crossings.map(c => c.time.getTime() - SESSION_START)).toEqual(
+            [crossingMs[0], crossingMs[2]].map(ms => expect.closeTo(ms, -1))
+        );
+    });
+
+    it('keeps only crossings in the direction most laps run', () => {
+        // After the run the car drives back over the line the wrong way
+        const wrongWay = circuitFrames({ fromMs: 250000, toMs: 260000, startAngle: 5.5 * Math.PI / 60, clockwise: true });
+
+        const crossings = service.findCrossings([...frames, ...wrongWay], timingLine);
+
+        expect(crossings.map(c => c.time.getTime() - SESSION_START)).toEqual(
+            crossingMs.map(ms => expect.closeTo(ms, -1))
+        );
+    });
+
+    it('builds laps between crossings and relabels the frames', () => {
+        const { laps, frames: relabelled } = service.reconstruct(frames, vehicle, timingLine, { firstLapNumber: 1 });
+
+        expect(laps.map(l => l.lapNumber)).toEqual([1, 2, 3]);
+        laps.forEach(lap => expect(lap.durationMs).toBeCloseTo(LAP_MS, -1));
+
+        const lapAt = (ms: number) => relabelled.find(f => f.timestamp.getTime() - SESSION_START >= ms)!.lap;
+        expect(lapAt(0)).toBe(0);
+        expect(lapAt(20000)).toBe(1);
+        expect(lapAt(80000)).toBe(2);
+        expect(lapAt(140000)).toBe(3);
+        expect(lapAt(200000)).toBe(4);
+    });
+
+    it('reports laps that disagree with the timing files', () => {
+        const { laps } = service.reconstruct(frames, vehicle, timingLine);
+        const timed = [
+            timedLap(1, 15000, 75000),
+            timedLap(3, 75000, 136000), // wrong number, one second long
+            timedLap(3, 136000, 195000)
+        ];
+
+        const discrepancies = service.compareWithTimedLaps(laps, timed);
+
+        expect(discrepancies).toEqual([
+            { reconstructedLap: 2, timedLap: 3, kind: 'lap-number', deltaMs: expect.closeTo(-1000, -1) },
+            { reconstructedLap: 3, timedLap: 3, kind: 'duration', deltaMs: expect.closeTo(1000, -1) }
+        ]);
+    });
+
+    it('carries sector times and tags over from the matching timed lap', () => {
+        const { laps } = service.reconstruct(frames, vehicle, timingLine);
+        const timed = [timedLap(1, 15000, 75000, {
+            sectorTimes: { S1: 20000, S2: 40000 },
+            caution: 'caution',
+            traffic: 'traffic',
+            valid: false
+        })];
+
+        const [first, second] = service.withTimedLapData(laps, timed);
+
+        expect(Object.fromEntries(first.sectorTimes)).toEqual({ S1: 20000, S2: 40000 });
+        expect(first.caution).toBe('caution');
+        expect(first.traffic).toBe('traffic');
+        expect(first.isValid).toBe(false);
+        expect(first.startTime).toEqual(laps[0].startTime);
+        expect(second).toBe(laps[1]);
+    });
+});
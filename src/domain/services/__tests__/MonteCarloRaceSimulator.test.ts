@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { MonteCarloCar, MonteCarloRaceSimulator, RaceStrategy } from '../MonteCarloRaceSimulator';
+import { StrategyModel, StrategySweep } from '../StrategySimulator';
+
+const RACE_LAPS = 20;
+
+const stopOnLap10: RaceStrategy = { id: 'optimal', label: 'Optimal (L10)', pitLap: 10, cautionFromLap: null };
+
+function car(vehicleId: string, basePaceMs: number, lapStdMs: number = 300, strategies: RaceStrategy[] = [stopOnLap10]): MonteCarloCar {
+    return { vehicleId, model: model(vehicleId, basePaceMs), lapStdMs, strategies };
+}
+
+function model(vehicleId: string, basePaceMs: number): StrategyModel {
+    return {
+        vehicleId,
+        raceLaps: RACE_LAPS,
+        basePaceMs,
+        degradationMsPerLap: 100,
+        fuelEffectMsPerLap: 50,
+        lapNoiseMs: 300,
+        pitLossMs: 30000,
+        pitLossSource: 'default'
+    };
+}
+
+function sweep(bestPitLap: number | null): StrategySweep {
+    return {
+        model: model('GR86-002-2', 100000),
+        options: [],
+        bestPitLap,
+        bestRaceTimeMs: 0,
+        windowStart: null,
+        windowEnd: null,
+        noStopRaceTimeMs: 0,
+        noStopCostMs: 0
+    };
+}
+
+describe('MonteCarloRaceSimulator', () => {
+    const simulator = new MonteCarloRaceSimulator();
+
+    it('repeats the same races for the same seed', () => {
+        const input = { raceLaps: RACE_LAPS, cars: [car('A', 100000), car('B', 100100)], options: { runs: 200, seed: 7 } };
+
+        expect(simulator.run(input)).toEqual(simulator.run(input));
+    });
+
+    it('gives each car a finishing distribution that sums to one', () => {
+        const result = simulator.run({
+            raceLaps: RACE_LAPS,
+            cars: [car('A', 100000), car('B', 100050), car('C', 100100)],
+            options: { runs: 300 }
+        });
+
+        for (const outcome of result.cars) {
+            const [baseline] = outcome.strategies;
+            expect(baseline.positionProbabilities.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1);
+            expect(baseline.meanPosition).toBeGreaterThanOrEqual(1);
+            expect(baseline.meanPosition).toBeLessThanOrEqual(3);
+        }
+    });
+
+    it('lets the faster car win more often', () => {
+        const result = simulator.run({
+            raceLaps: RACE_LAPS,
+            cars: [car('A', 100000), car('B', 100300)],
+            options: { runs: 300, cautionsPerRace: 0 }
+        });
+
+        const [a, b] = result.cars.map(c => c.strategies[0].positionProbabilities[0]);
+        expect(a).toBeGreaterThan(0.9);
+        expect(b).toBeLessThan(0.1);
+    });
+
+    it('runs each alternative strategy against the others on baseline', () => {
+        const noStop: RaceStrategy = { id: 'no-stop', label: 'No stop', pitLap: null, cautionFromLap: null };
+        const result = simulator.run({
+            raceLaps: RACE_LAPS,
+            cars: [car('A', 100000, 300, [stopOnLap10, noStop]), car('B', 100000)],
+            options: { runs: 200, cautionsPerRace: 0 }
+        });
+
+        // Skipping a 30 s stop wins outright against the same pace
+        expect(result.cars[0].strategies.map(s => s.strategy.id)).toEqual(['optimal', 'no-stop']);
+        expect(result.cars[0].strategies[1].positionProbabilities[0]).toBe(1);
+        expect(result.cars[1].strategies).toHaveLength(1);
+    });
+
+    it('closes the field up under caution', () => {
+        // A is 1 s a lap faster but loses 30 s in the pits on lap 1; B never stops
+        const cars = [
+            car('A', 100000, 0, [{ id: 'optimal', label: 'Optimal (L1)', pitLap: 1, cautionFromLap: null }]),
+            car('B', 101000, 0, [{ id: 'no-stop', label: 'No stop', pitLap: null, cautionFromLap: null }])
+        ];
+        const winChance = (cautionGapMs: number) => simulator
+            .run({ raceLaps: RACE_LAPS, cars, options: { runs: 200, cautionsPerRace: 2, cautionGapMs, pitLossStdMs: 0 } })
+            .cars[0].strategies[0].positionProbabilities[0];
+
+        // Queued behind B, A wins whenever a green lap follows; with the gap kept
+        // it only wins when its own stop falls under caution
+        expect(winChance(1000)).toBeGreaterThan(0.5);
+        expect(winChance(Number.MAX_SAFE_INTEGER)).toBeLessThan(0.1);
+    });
+
+    it('derives candidate strategies from the sweep', () => {
+        expect(MonteCarloRaceSimulator.strategiesFor(sweep(10)).map(s => [s.id, s.pitLap, s.cautionFromLap])).toEqual([
+            ['optimal', 10, null],
+            ['early', 5, null],
+            ['late', 15, null],
+            ['caution', 10, 2],
+            ['no-stop', null, null]
+        ]);
+        expect(MonteCarloRaceSimulator.strategiesFor(sweep(3)).map(s => s.id)).toEqual(['optimal', 'late', 'caution', 'no-stop']);
+        expect(MonteCarloRaceSimulator.strategiesFor(sweep(null)).map(s => s.id)).toEqual(['no-stop']);
+    });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { TrackBoundaryBuilder } from '../TrackBoundaryBuilder';
+import { CIRCUIT_CENTER, CIRCUIT_RADIUS_M, LAP_MS, circuitFrames, circuitPoint } from './circuitFixture';
+
+const degrees = (deg: number) => deg * Math.PI / 180;
+
+// Twelve laps spread 3 m either side of the racing line
+const cleanLaps = Array.from({ length: 12 }, (_, i) => {
+    const offset = -3 + 6 * i / 11;
+    return circuitFrames({ lap: i + 1, fromMs: i * LAP_MS, toMs: (i + 1) * LAP_MS, radiusAt: () => CIRCUIT_RADIUS_M + offset });
+});
+
+// One lap runs 15 m wide between 90 and 110 degrees
+const offLineLap = circuitFrames({
+    lap: 13,
+    fromMs: 12 * LAP_MS,
+    toMs: 13 * LAP_MS,
+    radiusAt: angle => angle >= degrees(90) && angle <= degrees(110) ? CIRCUIT_RADIUS_M + 15 : CIRCUIT_RADIUS_M
+});
+
+describe('TrackBoundaryBuilder', () => {
+    const builder = new TrackBoundaryBuilder();
+
+    it('covers the laps with the margin and leaves out the infield', () => {
+        const boundary = builder.fromLaps([...cleanLaps, offLineLap]);
+
+        expect(boundary.source).toBe('envelope');
+        expect(boundary.inner.length).toBeGreaterThan(0);
+        for (const deg of [0, 45, 100, 180, 270]) {
+            expect(boundary.contains(circuitPoint(degrees(deg), CIRCUIT_RADIUS_M + 3))).toBe(true);
+            expect(boundary.contains(circuitPoint(degrees(deg), CIRCUIT_RADIUS_M - 3))).toBe(true);
+            expect(boundary.contains(circuitPoint(degrees(deg), CIRCUIT_RADIUS_M - 12))).toBe(false);
+        }
+        expect(boundary.contains(CIRCUIT_CENTER)).toBe(false);
+        expect(boundary.contains(circuitPoint(0, CIRCUIT_RADIUS_M + 12))).toBe(false);
+    });
+
+    it('does not widen the track where one lap runs off the line', () => {
+        const boundary = builder.fromLaps([...cleanLaps, offLineLap]);
+
+        expect(boundary.contains(circuitPoint(degrees(100), CIRCUIT_RADIUS_M + 14))).toBe(false);
+    });
+
+    it('needs at least one complete lap with GPS', () => {
+        expect(() => builder.fromLaps([])).toThrow(/complete lap/);
+        expect(() => builder.fromLaps([cleanLaps[0].slice(0, 5)])).toThrow(/complete lap/);
+    });
+});
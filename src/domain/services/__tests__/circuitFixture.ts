@@ -0,0 +1,58 @@
+import { TelemetryFrame } from '../../entities/TelemetryFrame';
+import { GeoCalculator, GeoPoint } from '../GeoCalculator';
+
+/**
+ * Synthetic circular circuit for the GPS-based service tests
+ * Cars run anticlockwise (unless told otherwise) at constant speed; angle 0 is the east end of the
+ * circle, where the car heads due north.
+ */
+export const CIRCUIT_CENTER: GeoPoint = { latitude: 30.1335, longitude: -97.6411 };
+export const CIRCUIT_RADIUS_M = 200;
+export const LAP_MS = 60000;
+export const SESSION_START = Date.UTC(2025, 3, 27, 15, 0, 0);
+
+/**
+ * Position at an angle (radians) and distance from the circle centre
+ */
+export function circuitPoint(angle: number, radiusM: number = CIRCUIT_RADIUS_M): GeoPoint {
+    return GeoCalculator.fromLocalMeters(CIRCUIT_CENTER, {
+        x: radiusM * Math.cos(angle),
+        y: radiusM * Math.sin(angle)
+    });
+}
+
+/**
+ * Frames every stepMs from fromMs to toMs (session offsets)
+ * @param radiusAt Distance from the centre at each angle (defaults to the circuit radius)
+ */
+export function circuitFrames(options: {
+    vehicleId?: string;
+    lap?: number;
+    fromMs: number;
+    toMs: number;
+    stepMs?: number;
+    startAngle?: number;
+    clockwise?: boolean;
+    radiusAt?: (angle: number) => number;
+}): TelemetryFrame[] {
+    const { vehicleId = 'GR86-002-2', lap = 1, fromMs, toMs, stepMs = 500, startAngle = 0, clockwise = false } = options;
+    const radiusAt = options.radiusAt ?? (() => CIRCUIT_RADIUS_M);
+    const speedKmh = 2 * Math.PI * CIRCUIT_RADIUS_M / (LAP_MS / 1000) * 3.6;
+
+    const frames: TelemetryFrame[] = [];
+    for (let t = fromMs; t <= toMs + 1e-6; t += stepMs) {
+        const angle = startAngle + (clockwise ? -2 : 2) * Math.PI * (t - fromMs) / LAP_MS;
+        const point = circuitPoint(angle, radiusAt(angle));
+        frames.push(new TelemetryFrame({
+            timestamp: new Date(SESSION_START + t),
+            vehicleId,
+            lap,
+            speed: speedKmh,
+            throttlePos: 100,
+            brakePos: 0,
+            gpsLatitude: point.latitude,
+            gpsLongitude: point.longitude
+        }));
+    }
+    return frames;
+}
@@ -79,6 +79,22 @@ export class TelemetryCache implements ITelemetryRepository {
         return this.repository.saveTelemetry(frames);
     }
 
+    async clearVehicle(vehicleId: string): Promise<void> {
+        this.cache.clear();
+        this.head = null;
+        this.tail = null;
+
+        return this.repository.clearVehicle(vehicleId);
+    }
+
+    async clearLap(vehicleId: string, lap: number): Promise<void> {
+        this.cache.clear();
+        this.head = null;
+        this.tail = null;
+
+        return this.repository.clearLap(vehicleId, lap);
+    }
+
     async clear(): Promise<void> {
         this.cache.clear();
         this.head = null;
@@ -1,7 +1,9 @@
 import { ITelemetryRepository } from '@/domain/repositories/ITelemetryRepository';
 import { ILapRepository } from '@/domain/repositories/ILapRepository';
+import { IChannelProfileRepository } from '@/domain/repositories/IChannelProfileRepository';
 import { TelemetryRepository } from '@/infrastructure/repositories/TelemetryRepository';
 import { LapRepository } from '@/infrastructure/repositories/LapRepository';
+import { ChannelProfileRepository } from '@/infrastructure/repositories/ChannelProfileRepository';
 import { TelemetryCache } from '@/infrastructure/cache/TelemetryCache';
 
 /**
@@ -16,6 +18,7 @@ import { TelemetryCache } from '@/infrastructure/cache/TelemetryCache';
 export class RepositoryFactory {
     private static telemetryRepository: ITelemetryRepository | null = null;
     private static lapRepository: ILapRepository | null = null;
+    private static channelProfileRepository: IChannelProfileRepository | null = null;
 
     /**
      * Get or create telemetry repository with caching
@@ -46,11 +49,23 @@ export class RepositoryFactory {
         return this.lapRepository;
     }
 
+    /**
+     * Get or create channel mapping profile repository
+     */
+    static getChannelProfileRepository(): IChannelProfileRepository {
+        if (!this.channelProfileRepository) {
+            this.channelProfileRepository = new ChannelProfileRepository();
+        }
+
+        return this.channelProfileRepository;
+    }
+
     /**
      * Reset all repositories (useful for testing)
      */
     static reset(): void {
         this.telemetryRepository = null;
         this.lapRepository = null;
+        this.channelProfileRepository = null;
     }
 }
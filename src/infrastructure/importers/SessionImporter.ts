@@ -0,0 +1,397 @@
+import Papa from 'papaparse';
+import { Unzip, UnzipInflate } from 'fflate';
+import { RaceSession, RaceResult, WeatherSample } from '@/domain/entities/RaceSession';
+import { Lap } from '@/domain/entities/Lap';
+import { ChannelMappingProfile, HeaderField } from '@/domain/entities/ChannelMappingProfile';
+import { LapTimeCSVParser } from '@/infrastructure/parsers/LapTimeCSVParser';
+import { DEFAULT_CHANNEL_PROFILES } from '@/infrastructure/profiles/DefaultChannelProfiles';
+
+/**
+ * Session Importer
+ * Turns a race folder (or zip) from the Hack-the-Track dataset into a RaceSession.
+ *
+ * Files are recognised by their header signature, not their name, because
+ * names differ between tracks and races. The three lap timing files share one
+ * header, so for those the file name (lap_start / lap_end / lap_time) decides.
+ *
+ * Design Pattern: Facade
+ * - Hides classification, delimiter detection and per-file parsing
+ * - Delegates lap timing to LapTimeCSVParser
+ */
+export class SessionImporter {
+    /**
+     * Files the dataset ships for every race
+     */
+    static readonly EXPECTED_FILES: SessionFileKind[] = [
+        'lapStart', 'lapEnd', 'lapTime', 'results', 'weather', 'bestLaps', 'telemetry'
+    ];
+
+    /**
+     * Largest inflated zip entry that is extracted; larger entries are left out
+     * with a warning, since an extracted entry lives in memory until imported
+     */
+    static readonly MAX_ZIP_ENTRY_BYTES = 1024 * 1024 * 1024;
+
+    constructor(private readonly lapParser: LapTimeCSVParser = new LapTimeCSVParser()) { }
+
+    /**
+     * Import a zip archive of a race folder
+     * The archive is streamed; only CSV entries up to MAX_ZIP_ENTRY_BYTES are extracted.
+     */
+    async importZip(zip: File, options: SessionImportOptions = {}): Promise<SessionImportResult> {
+        const { files, warnings } = await this.extractCsvEntries(zip);
+
+        const result = await this.importFiles(files, {
+            sessionName: zip.name.replace(/\.zip$/i, ''),
+            ...options
+        });
+        return { ...result, warnings: [...warnings, ...result.warnings] };
+    }
+
+    /**
+     * Import the files of a race folder
+     */
+    async importFiles(files: File[], options: SessionImportOptions = {}): Promise<SessionImportResult> {
+        const classified = new Map<SessionFileKind, File>();
+        const unrecognized: string[] = [];
+        const warnings: string[] = [];
+        const unnamedLapFiles: File[] = [];
+
+        for (const file of files) {
+            const kind = await this.classify(file, options.profiles);
+            if (kind === null) {
+                unrecognized.push(file.name);
+            } else if (kind === 'lapTiming') {
+                unnamedLapFiles.push(file);
+            } else if (classified.has(kind)) {
+                warnings.push(`Ignored ${file.name}: ${kind} already taken from ${classified.get(kind)!.name}`);
+            } else {
+                classified.set(kind, file);
+            }
+        }
+
+        // A lap timing file whose name gives no hint can only stand in for lap_end
+        for (const file of unnamedLapFiles) {
+            if (!classified.has('lapEnd')) {
+                classified.set('lapEnd', file);
+                warnings.push(`Treated ${file.name} as the lap end file`);
+            } else {
+                unrecognized.push(file.name);
+            }
+        }
+
+        const missing = SessionImporter.EXPECTED_FILES.filter(kind => !classified.has(kind));
+        const lapEnd = classified.get('lapEnd');
+        if (!lapEnd) {
+            throw new Error('Session import needs at least the lap end file');
+        }
+
+        const sections = classified.get('sections');
+        const sectorTimes = sections
+            ? this.parseSectorTimes(await this.readRows(sections))
+            : new Map<string, Record<string, number>>();
+
+        const { laps, skipped } = await this.lapParser.parseSessionFiles({
+            lapEnd,
+            lapStart: classified.get('lapStart'),
+            lapTime: classified.get('lapTime')
+        }, sectorTimes);
+        if (skipped > 0) {
+            warnings.push(`Skipped ${skipped} laps without a usable start time`);
+        }
+
+        const session = new RaceSession({
+            sessionId: options.sessionId ?? this.sessionIdFrom(lapEnd.name),
+            sessionName: options.sessionName ?? this.sessionIdFrom(lapEnd.name),
+            trackName: options.trackName ?? 'COTA',
+            trackLengthKm: options.trackLengthKm ?? 5.513,
+            sessionDate: this.earliestStart(laps)
+        });
+        laps.forEach(lap => session.addLap(lap));
+
+        const results = classified.get('results');
+        if (results) {
+            session.setResults(this.parseResults(await this.readRows(results)));
+        }
+
+        const weather = classified.get('weather');
+        if (weather) {
+            session.setWeather(this.parseWeather(await this.readRows(weather)));
+        }
+
+        const bestLaps = classified.get('bestLaps');
+
+        return {
+            session,
+            laps,
+            bestLaps: bestLaps ? this.parseBestLaps(await this.readRows(bestLaps)) : [],
+            telemetryFile: classified.get('telemetry') ?? null,
+            files: Object.fromEntries(Array.from(classified.entries()).map(([kind, file]) => [kind, file.name])),
+            missing,
+            unrecognized,
+            warnings
+        };
+    }
+
+    /**
+     * CSV entries of a zip as Files, inflated chunk by chunk while the archive
+     * is read. Each extracted entry is held in memory, so entries inflating to
+     * more than MAX_ZIP_ENTRY_BYTES are stopped and reported instead; such a
+     * session has to be imported from the extracted folder.
+     */
+    private async extractCsvEntries(zip: File): Promise<{ files: File[]; warnings: string[] }> {
+        const entries: Promise<File | null>[] = [];
+        const warnings: string[] = [];
+        const limitMb = Math.round(SessionImporter.MAX_ZIP_ENTRY_BYTES / (1024 * 1024));
+        const tooLarge = (name: string) =>
+            `Left out ${name}: larger than ${limitMb} MB once extracted; extract the zip and import the folder instead`;
+
+        const unzipper = new Unzip((entry) => {
+            if (!/\.csv$/i.test(entry.name) || entry.name.startsWith('__MACOSX')) return;
+
+            const name = entry.name.split('/').pop() || entry.name;
+            if ((entry.originalSize ?? 0) > SessionImporter.MAX_ZIP_ENTRY_BYTES) {
+                warnings.push(tooLarge(name));
+                return;
+            }
+
+            entries.push(new Promise((resolve, reject) => {
+                const chunks: Uint8Array<ArrayBuffer>[] = [];
+                let size = 0;
+                entry.ondata = (error, chunk, final) => {
+                    if (error) {
+                        reject(error);
+                        return;
+                    }
+                    size += chunk.length;
+                    if (size > SessionImporter.MAX_ZIP_ENTRY_BYTES) {
+                        // Sizes in the local header can be missing; stop once the cap is passed
+                        entry.terminate();
+                        chunks.length = 0;
+                        warnings.push(tooLarge(name));
+                        resolve(null);
+                        return;
+                    }
+                    chunks.push(chunk as Uint8Array<ArrayBuffer>);
+                    if (final) resolve(new File(chunks, name, { type: 'text/csv' }));
+                };
+                entry.start();
+            }));
+        });
+        unzipper.register(UnzipInflate);
+
+        const reader = zip.stream().getReader();
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            unzipper.push(value);
+        }
+        unzipper.push(new Uint8Array(0), true);
+
+        const files = (await Promise.all(entries)).filter((file): file is File => file !== null);
+        return { files, warnings };
+    }
+
+    /**
+     * Recognise a file by the columns in its header line
+     * Telemetry is matched against the channel profiles, so long-format,
+     * wide-format and custom-profile files are all found.
+     */
+    async classify(
+        file: File,
+        profiles: readonly ChannelMappingProfile[] = DEFAULT_CHANNEL_PROFILES
+    ): Promise<SessionFileKind | 'lapTiming' | null> {
+        const head = await file.slice(0, 64 * 1024).text();
+        const headerLine = head.replace(/^﻿/, '').split(/\r?\n/)[0] ?? '';
+        const delimiter = headerLine.includes(';') ? ';' : ',';
+        const columns = new Set(
+            headerLine.split(delimiter).map(c => c.trim().replace(/^"|"$/g, '').toUpperCase())
+        );
+        const has = (...names: string[]) => names.every(n => columns.has(n));
+
+        if (has('BESTLAP_1')) return 'bestLaps';
+        if (has('AIR_TEMP', 'TRACK_TEMP')) return 'weather';
+        if (has('POSITION', 'NUMBER', 'LAPS')) return 'results';
+        if (has('LAP_NUMBER', 'S1_SECONDS')) return 'sections';
+        if (profiles.some(profile => this.isTelemetryHeader(columns, profile))) return 'telemetry';
+
+        if (has('VEHICLE_ID', 'LAP', 'TIMESTAMP')) {
+            const name = file.name.toLowerCase();
+            if (/lap[_\s-]?start/.test(name)) return 'lapStart';
+            if (/lap[_\s-]?end/.test(name)) return 'lapEnd';
+            if (/lap[_\s-]?time/.test(name)) return 'lapTime';
+            return 'lapTiming';
+        }
+
+        return null;
+    }
+
+    /**
+     * A telemetry header carries a profile's name and value columns (long
+     * format), or its id columns plus at least one mapped channel (wide format).
+     * Lap timing files have the id columns but no channel column.
+     * @param columns Upper-cased header columns
+     */
+    private isTelemetryHeader(columns: Set<string>, profile: ChannelMappingProfile): boolean {
+        const hasAlias = (field: HeaderField) =>
+            profile.getHeaderAliases(field).some(alias => columns.has(alias.toUpperCase()));
+
+        if (hasAlias('telemetryName') && hasAlias('telemetryValue')) return true;
+
+        return hasAlias('timestamp') && hasAlias('vehicleId') && hasAlias('lap') &&
+            profile.matchScore(Array.from(columns)) > 0;
+    }
+
+    /**
+     * Read a whole CSV with delimiter auto-detection and trimmed headers
+     */
+    private readRows(file: File): Promise<Record<string, unknown>[]> {
+        return new Promise((resolve, reject) => {
+            Papa.parse<Record<string, unknown>>(file, {
+                header: true,
+                dynamicTyping: true,
+                skipEmptyLines: true,
+                transformHeader: (header) => header.trim().toUpperCase(),
+                complete: (result) => resolve(result.data),
+                error: (error: Error) => reject(error)
+            });
+        });
+    }
+
+    private parseResults(rows: Record<string, unknown>[]): RaceResult[] {
+        return rows
+            .filter(row => typeof row.POSITION === 'number' && typeof row.NUMBER === 'number')
+            .map(row => ({
+                position: row.POSITION as number,
+                carNumber: row.NUMBER as number,
+                status: String(row.STATUS ?? ''),
+                laps: typeof row.LAPS === 'number' ? row.LAPS : 0,
+                totalTime: String(row.TOTAL_TIME ?? ''),
+                gapFirst: String(row.GAP_FIRST ?? ''),
+                fastestLapNumber: typeof row.FL_LAPNUM === 'number' ? row.FL_LAPNUM : null,
+                fastestLapMs: this.parseLapTime(row.FL_TIME)
+            }));
+    }
+
+    private parseWeather(rows: Record<string, unknown>[]): WeatherSample[] {
+        const samples: WeatherSample[] = [];
+        for (const row of rows) {
+            const time = typeof row.TIME_UTC_SECONDS === 'number'
+                ? new Date(row.TIME_UTC_SECONDS * 1000)
+                : new Date(String(row.TIME_UTC_STR ?? ''));
+            if (isNaN(time.getTime())) continue;
+
+            samples.push({
+                time,
+                airTemp: Number(row.AIR_TEMP ?? NaN),
+                trackTemp: Number(row.TRACK_TEMP ?? NaN),
+                humidity: Number(row.HUMIDITY ?? NaN),
+                pressure: Number(row.PRESSURE ?? NaN),
+                windSpeed: Number(row.WIND_SPEED ?? NaN),
+                windDirection: Number(row.WIND_DIRECTION ?? NaN),
+                rain: Number(row.RAIN ?? 0) > 0
+            });
+        }
+        return samples;
+    }
+
+    private parseBestLaps(rows: Record<string, unknown>[]): BestLapsEntry[] {
+        return rows
+            .filter(row => typeof row.NUMBER === 'number')
+            .map(row => {
+                const bestLapsMs: number[] = [];
+                for (let i = 1; row[`BESTLAP_${i}`] !== undefined; i++) {
+                    const ms = this.parseLapTime(row[`BESTLAP_${i}`]);
+                    if (ms !== null) bestLapsMs.push(ms);
+                }
+                return {
+                    carNumber: row.NUMBER as number,
+                    totalLaps: typeof row.TOTAL_DRIVER_LAPS === 'number' ? row.TOTAL_DRIVER_LAPS : 0,
+                    bestLapsMs,
+                    averageMs: this.parseLapTime(row.AVERAGE)
+                };
+            });
+    }
+
+    /**
+     * Sector times from the section analysis file, keyed `${carNumber}-${lap}`
+     */
+    private parseSectorTimes(rows: Record<string, unknown>[]): Map<string, Record<string, number>> {
+        const sectorTimes = new Map<string, Record<string, number>>();
+        for (const row of rows) {
+            if (typeof row.NUMBER !== 'number' || typeof row.LAP_NUMBER !== 'number') continue;
+
+            const sectors: Record<string, number> = {};
+            for (const [column, value] of Object.entries(row)) {
+                const match = /^(S\d+)_SECONDS$/.exec(column);
+                if (match && typeof value === 'number' && value > 0) {
+                    sectors[match[1]] = Math.round(value * 1000);
+                }
+            }
+            sectorTimes.set(`${row.NUMBER}-${row.LAP_NUMBER}`, sectors);
+        }
+        return sectorTimes;
+    }
+
+    /**
+     * Parse "m:ss.sss" or plain seconds into milliseconds
+     */
+    private parseLapTime(value: unknown): number | null {
+        if (typeof value === 'number') return value > 0 ? Math.round(value * 1000) : null;
+        if (typeof value !== 'string' || value.trim() === '') return null;
+
+        const parts = value.trim().split(':').map(Number);
+        if (parts.some(isNaN)) return null;
+        const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+        return seconds > 0 ? Math.round(seconds * 1000) : null;
+    }
+
+    private sessionIdFrom(fileName: string): string {
+        return fileName.replace(/\.csv$/i, '').replace(/[_\s-]?lap[_\s-]?(start|end|time)$/i, '') || 'session';
+    }
+
+    private earliestStart(laps: Lap[]): Date {
+        let earliest = Infinity;
+        for (const lap of laps) {
+            earliest = Math.min(earliest, lap.startTime.getTime());
+        }
+        return new Date(isFinite(earliest) ? earliest : Date.now());
+    }
+}
+
+export type SessionFileKind =
+    | 'lapStart'
+    | 'lapEnd'
+    | 'lapTime'
+    | 'results'
+    | 'weather'
+    | 'bestLaps'
+    | 'telemetry'
+    | 'sections';
+
+export interface SessionImportOptions {
+    sessionId?: string;
+    sessionName?: string;
+    trackName?: string;
+    trackLengthKm?: number;
+    /** Channel profiles used to recognise telemetry files (defaults to the built-in ones) */
+    profiles?: readonly ChannelMappingProfile[];
+}
+
+export interface BestLapsEntry {
+    carNumber: number;
+    totalLaps: number;
+    bestLapsMs: number[];
+    averageMs: number | null;
+}
+
+export interface SessionImportResult {
+    session: RaceSession;
+    laps: Lap[];
+    bestLaps: BestLapsEntry[];
+    telemetryFile: File | null;
+    files: Partial<Record<SessionFileKind, string>>;
+    missing: SessionFileKind[];
+    unrecognized: string[];
+    warnings: string[];
+}
@@ -0,0 +1,152 @@
+/**
+ * Telemetry File Index
+ * Records where each vehicle/lap lives inside a large telemetry CSV so that
+ * later loads can read only the byte ranges they need.
+ *
+ * Data Structure: Map<vehicleId-lap, IndexEntry> + ordered chunk table
+ * - Chunks are contiguous, line-aligned byte ranges of the file
+ * - Each entry lists the chunks containing at least one of its rows
+ *
+ * OOP Principles Applied:
+ * - Encapsulation: Internal maps are private, exposed through queries
+ * - Immutability: Built once by TelemetryFileIndexer, never mutated
+ */
+export class TelemetryFileIndex {
+    private readonly _fileName: string;
+    private readonly _fileSize: number;
+    private readonly _lastModified: number;
+    private readonly _headerLine: string;
+    private readonly _chunks: readonly ByteRange[];
+    private readonly _entries: Map<string, TelemetryIndexEntry>;
+    private readonly _totalRows: number;
+
+    constructor(data: TelemetryFileIndexData) {
+        this._fileName = data.fileName;
+        this._fileSize = data.fileSize;
+        this._lastModified = data.lastModified;
+        this._headerLine = data.headerLine;
+        this._chunks = data.chunks;
+        this._totalRows = data.totalRows;
+        this._entries = new Map(
+            data.entries.map(entry => [TelemetryFileIndex.key(entry.vehicleId, entry.lap), entry])
+        );
+    }
+
+    get fileName(): string { return this._fileName; }
+    get fileSize(): number { return this._fileSize; }
+    get headerLine(): string { return this._headerLine; }
+    get totalRows(): number { return this._totalRows; }
+    get chunkCount(): number { return this._chunks.length; }
+
+    /**
+     * Check whether this index was built from the given file
+     */
+    matches(file: File): boolean {
+        return file.name === this._fileName &&
+            file.size === this._fileSize &&
+            file.lastModified === this._lastModified;
+    }
+
+    /**
+     * Get all vehicle IDs present in the file
+     */
+    get vehicleIds(): string[] {
+        const ids = new Set<string>();
+        for (const entry of this._entries.values()) {
+            ids.add(entry.vehicleId);
+        }
+        return Array.from(ids).sort();
+    }
+
+    /**
+     * Get all lap numbers recorded for a vehicle
+     */
+    getLaps(vehicleId: string): number[] {
+        const laps: number[] = [];
+        for (const entry of this._entries.values()) {
+            if (entry.vehicleId === vehicleId) laps.push(entry.lap);
+        }
+        return laps.sort((a, b) => a - b);
+    }
+
+    /**
+     * Get the index entry for a vehicle and lap
+     */
+    getEntry(vehicleId: string, lap: number): TelemetryIndexEntry | undefined {
+        return this._entries.get(TelemetryFileIndex.key(vehicleId, lap));
+    }
+
+    /**
+     * Get the merged byte ranges holding a vehicle's rows
+     * When lap is omitted, ranges cover every lap of the vehicle
+     * Complexity: O(k log k) where k is the number of matching chunks
+     */
+    getByteRanges(vehicleId: string, lap?: number): ByteRange[] {
+        const chunkIds = new Set<number>();
+
+        for (const entry of this._entries.values()) {
+            if (entry.vehicleId !== vehicleId) continue;
+            if (lap !== undefined && entry.lap !== lap) continue;
+            entry.chunkIds.forEach(id => chunkIds.add(id));
+        }
+
+        const ranges: ByteRange[] = [];
+        for (const id of Array.from(chunkIds).sort((a, b) => a - b)) {
+            const chunk = this._chunks[id];
+            const last = ranges[ranges.length - 1];
+
+            // Merge adjacent chunks into a single read
+            if (last && last.end === chunk.start) {
+                last.end = chunk.end;
+            } else {
+                ranges.push({ start: chunk.start, end: chunk.end });
+            }
+        }
+
+        return ranges;
+    }
+
+    /**
+     * Build a File containing the header plus only the chunks for a vehicle/lap
+     * The result can be handed to any parser in place of the original file.
+     */
+    createSlice(file: File, vehicleId: string, lap?: number): File {
+        if (!this.matches(file)) {
+            throw new Error(`Index was built for ${this._fileName}, not ${file.name}`);
+        }
+
+        const parts: BlobPart[] = [`${this._headerLine}\n`];
+        for (const range of this.getByteRanges(vehicleId, lap)) {
+            parts.push(file.slice(range.start, range.end));
+        }
+
+        return new File(parts, file.name, { type: file.type });
+    }
+
+    private static key(vehicleId: string, lap: number): string {
+        return `${vehicleId}-${lap}`;
+    }
+}
+
+export interface ByteRange {
+    start: number; // inclusive
+    end: number;   // exclusive
+}
+
+export interface TelemetryIndexEntry {
+    vehicleId: string;
+    lap: number;
+    rowCount: number;
+    channels: string[];
+    chunkIds: number[];
+}
+
+export interface TelemetryFileIndexData {
+    fileName: string;
+    fileSize: number;
+    lastModified: number;
+    headerLine: string;
+    chunks: ByteRange[];
+    entries: TelemetryIndexEntry[];
+    totalRows: number;
+}
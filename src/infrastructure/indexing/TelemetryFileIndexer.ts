@@ -0,0 +1,182 @@
+import Papa from 'papaparse';
+import { ChannelMappingProfile } from '@/domain/entities/ChannelMappingProfile';
+import { TelemetryCSVParser } from '@/infrastructure/parsers/TelemetryCSVParser';
+import { TOYOTA_GR_CUP_PROFILE } from '@/infrastructure/profiles/DefaultChannelProfiles';
+import { ByteRange, TelemetryFileIndex, TelemetryIndexEntry } from './TelemetryFileIndex';
+
+/**
+ * Telemetry File Indexer
+ * Scans a telemetry CSV once and records which line-aligned chunks hold each
+ * vehicle/lap, together with the channel names and row counts seen.
+ * Works for both long- and wide-format files (see TelemetryCSVParser).
+ *
+ * Algorithm:
+ * - Read the file in fixed-size slices (no full-file string in memory)
+ * - Cut each slice at its last newline so chunks never split a row
+ * - Parse the chunk rows and attribute the chunk to every vehicle/lap in it
+ *
+ * Complexity: O(n) single pass over the file
+ */
+export class TelemetryFileIndexer {
+    constructor(private readonly chunkSize: number = 8 * 1024 * 1024) { }
+
+    /**
+     * Build an index for a telemetry file
+     * @param onProgress Receives the fraction of the file scanned (0-1)
+     */
+    async buildIndex(
+        file: File,
+        options: {
+            onProgress?: (fraction: number) => void;
+            profile?: ChannelMappingProfile;
+        } = {}
+    ): Promise<TelemetryFileIndex> {
+        const { onProgress, profile = TOYOTA_GR_CUP_PROFILE } = options;
+        const decoder = new TextDecoder('utf-8');
+
+        const chunks: ByteRange[] = [];
+        const entries = new Map<string, IndexAccumulator>();
+        let headerLine: string | null = null;
+        let columns: ColumnPositions | null = null;
+        let totalRows = 0;
+
+        let offset = 0;
+        let readSize = this.chunkSize;
+
+        while (offset < file.size) {
+            const end = Math.min(offset + readSize, file.size);
+            const bytes = new Uint8Array(await file.slice(offset, end).arrayBuffer());
+
+            // Cut at the last newline unless this is the tail of the file
+            const cut = end === file.size ? bytes.length : bytes.lastIndexOf(0x0a) + 1;
+            if (cut === 0) {
+                // A single line is longer than the read window: widen it and retry
+                readSize *= 2;
+                continue;
+            }
+            readSize = this.chunkSize;
+
+            let bodyStart = 0;
+            if (headerLine === null) {
+                const headerEnd = bytes.indexOf(0x0a);
+                bodyStart = headerEnd === -1 ? cut : headerEnd + 1;
+                headerLine = decoder.decode(bytes.subarray(0, bodyStart)).replace(/\r?\n$/, '');
+                columns = this.resolveColumns(headerLine, profile);
+            }
+
+            if (bodyStart < cut) {
+                const chunkId = chunks.length;
+                chunks.push({ start: offset + bodyStart, end: offset + cut });
+
+                const text = decoder.decode(bytes.subarray(bodyStart, cut));
+                totalRows += this.indexRows(text, columns!, chunkId, entries);
+            }
+
+            offset += cut;
+            if (onProgress) onProgress(offset / file.size);
+        }
+
+        if (headerLine === null) {
+            throw new Error('Telemetry file is empty');
+        }
+
+        return new TelemetryFileIndex({
+            fileName: file.name,
+            fileSize: file.size,
+            lastModified: file.lastModified,
+            headerLine,
+            chunks,
+            totalRows,
+            entries: Array.from(entries.values()).map(acc => this.toEntry(acc))
+        });
+    }
+
+    /**
+     * Parse the rows of one chunk and update the accumulators
+     * @returns Number of data rows in the chunk
+     */
+    private indexRows(
+        text: string,
+        columns: ColumnPositions,
+        chunkId: number,
+        entries: Map<string, IndexAccumulator>
+    ): number {
+        const rows = Papa.parse<string[]>(text, { header: false, skipEmptyLines: true }).data;
+
+        for (const row of rows) {
+            const vehicleId = TelemetryCSVParser.normalizeVehicleId(String(row[columns.vehicle] ?? ''));
+            // Number('') is 0; rows without a lap are skipped, as the parser does
+            const lapCell = String(row[columns.lap] ?? '').trim();
+            const lap = Number(lapCell);
+            if (!vehicleId || lapCell === '' || !Number.isFinite(lap)) continue;
+
+            const key = `${vehicleId}-${lap}`;
+            let acc = entries.get(key);
+            if (!acc) {
+                acc = { vehicleId, lap, rowCount: 0, channels: new Set(), chunkIds: new Set() };
+                entries.set(key, acc);
+            }
+
+            acc.rowCount++;
+            acc.chunkIds.add(chunkId);
+            if (columns.name >= 0) {
+                if (row[columns.name]) acc.channels.add(row[columns.name]);
+            } else if (acc.channels.size === 0) {
+                // Wide format: every entry carries the header's channel columns
+                columns.wideChannels.forEach(channel => acc!.channels.add(channel));
+            }
+        }
+
+        return rows.length;
+    }
+
+    private resolveColumns(headerLine: string, profile: ChannelMappingProfile): ColumnPositions {
+        const headers = Papa.parse<string[]>(headerLine, { header: false }).data[0] || [];
+        const find = (aliases: string[]) => headers.findIndex(h => aliases.includes(h.trim()));
+
+        const layout = TelemetryCSVParser.detectLayout(headers, profile);
+        const idColumns = new Set(
+            (['timestamp', 'vehicleId', 'lap'] as const).flatMap(field => profile.getHeaderAliases(field))
+        );
+
+        const columns = {
+            vehicle: find(profile.getHeaderAliases('vehicleId')),
+            lap: find(profile.getHeaderAliases('lap')),
+            name: layout === 'long' ? find(profile.getHeaderAliases('telemetryName')) : -1,
+            wideChannels: layout === 'wide'
+                ? headers.map(h => h.trim()).filter(h => h && !idColumns.has(h))
+                : []
+        };
+
+        if (columns.vehicle < 0 || columns.lap < 0) {
+            throw new Error('Telemetry file has no vehicle or lap column to index');
+        }
+
+        return columns;
+    }
+
+    private toEntry(acc: IndexAccumulator): TelemetryIndexEntry {
+        return {
+            vehicleId: acc.vehicleId,
+            lap: acc.lap,
+            rowCount: acc.rowCount,
+            channels: Array.from(acc.channels).sort(),
+            chunkIds: Array.from(acc.chunkIds).sort((a, b) => a - b)
+        };
+    }
+}
+
+interface ColumnPositions {
+    vehicle: number;
+    lap: number;
+    name: number; // -1 for wide-format files
+    wideChannels: string[];
+}
+
+interface IndexAccumulator {
+    vehicleId: string;
+    lap: number;
+    rowCount: number;
+    channels: Set<string>;
+    chunkIds: Set<number>;
+}
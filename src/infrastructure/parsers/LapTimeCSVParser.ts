@@ -11,12 +11,96 @@ import { Vehicle } from '@/domain/entities/Vehicle';
  * - We calculate lap start/end times based on the 'timestamp' column.
  * - Start Time = Previous Lap's Timestamp (or End Time - 2 mins for first lap)
  * - End Time = Current Lap's Timestamp
+ *
+ * When the session's lap_start / lap_end / lap_time files are all available,
+ * parseSessionFiles uses the real start and end timestamps instead.
  */
 export class LapTimeCSVParser {
     /**
      * Parse lap time CSV file
      */
     async parseFile(file: File): Promise<Lap[]> {
+        const rawRows = await this.readRows(file);
+        const laps = this.processRows(rawRows);
+        console.log(`Parsed ${laps.length} laps from ${rawRows.length} rows`);
+        return laps;
+    }
+
+    /**
+     * Parse the lap_end file together with lap_start / lap_time files
+     * Start time comes from lap_start, else end minus lap_time value, else the
+     * previous lap's end. Laps with none of these are skipped.
+     * @param sectorTimes Optional `${carNumber}-${lap}` -> sector times (ms)
+     */
+    async parseSessionFiles(
+        files: { lapEnd: File; lapStart?: File; lapTime?: File },
+        sectorTimes: Map<string, Record<string, number>> = new Map()
+    ): Promise<SessionLapParseResult> {
+        const [endRows, startRows, timeRows] = await Promise.all([
+            this.readRows(files.lapEnd),
+            files.lapStart ? this.readRows(files.lapStart) : Promise.resolve([]),
+            files.lapTime ? this.readRows(files.lapTime) : Promise.resolve([])
+        ]);
+
+        const startByLap = this.indexByVehicleLap(startRows);
+        const durationByLap = this.indexByVehicleLap(timeRows);
+        const endByVehicle = new Map<string, Map<number, LapCSVRow>>();
+        for (const row of this.indexByVehicleLap(endRows).values()) {
+            const vehicleRows = endByVehicle.get(row.vehicle_id) || new Map<number, LapCSVRow>();
+            vehicleRows.set(row.lap, row);
+            endByVehicle.set(row.vehicle_id, vehicleRows);
+        }
+
+        const laps: Lap[] = [];
+        let skipped = 0;
+
+        for (const [vehicleId, rowsByLap] of endByVehicle.entries()) {
+            const { chassis, carNumber } = this.parseVehicleId(vehicleId);
+            const vehicle = new Vehicle({ chassis, carNumber });
+            const lapNumbers = Array.from(rowsByLap.keys()).sort((a, b) => a - b);
+
+            for (let i = 0; i < lapNumbers.length; i++) {
+                const lapNumber = lapNumbers[i];
+                const key = `${vehicleId}-${lapNumber}`;
+                const endTime = new Date(rowsByLap.get(lapNumber)!.timestamp);
+                const startRow = startByLap.get(key);
+                const durationRow = durationByLap.get(key);
+                const prevEnd = i > 0 && lapNumbers[i - 1] === lapNumber - 1
+                    ? rowsByLap.get(lapNumbers[i - 1])!.timestamp
+                    : null;
+
+                let startTime: Date | null = null;
+                if (startRow) {
+                    startTime = new Date(startRow.timestamp);
+                } else if (durationRow && typeof durationRow.value === 'number' && durationRow.value > 0) {
+                    startTime = new Date(endTime.getTime() - durationRow.value);
+                } else if (prevEnd) {
+                    startTime = new Date(prevEnd);
+                }
+
+                try {
+                    if (!startTime) throw new Error('No start time available');
+                    laps.push(new Lap({
+                        lapNumber,
+                        vehicle,
+                        startTime,
+                        endTime,
+                        sectorTimes: sectorTimes.get(`${carNumber}-${lapNumber}`) ?? this.parseSectorTimes(rowsByLap.get(lapNumber)!)
+                    }));
+                } catch (error) {
+                    skipped++;
+                    console.warn(`Skipped ${vehicleId} lap ${lapNumber}:`, error);
+                }
+            }
+        }
+
+        return { laps, skipped };
+    }
+
+    /**
+     * Read all valid rows of a lap timing CSV
+     */
+    private readRows(file: File): Promise<LapCSVRow[]> {
         return new Promise((resolve, reject) => {
             const rawRows: LapCSVRow[] = [];
 
@@ -31,21 +115,28 @@ export class LapTimeCSVParser {
                     }
                 },
 
-                complete: () => {
-                    try {
-                        const laps = this.processRows(rawRows);
-                        console.log(`Parsed ${laps.length} laps from ${rawRows.length} rows`);
-                        resolve(laps);
-                    } catch (error) {
-                        reject(error);
-                    }
-                },
+                complete: () => resolve(rawRows),
 
                 error: (error: Error) => reject(error)
             });
         });
     }
 
+    /**
+     * Index rows by vehicle and lap, keeping the largest value per duplicate
+     */
+    private indexByVehicleLap(rows: LapCSVRow[]): Map<string, LapCSVRow> {
+        const index = new Map<string, LapCSVRow>();
+        for (const row of rows) {
+            const key = `${row.vehicle_id}-${row.lap}`;
+            const existing = index.get(key);
+            if (!existing || row.value > existing.value) {
+                index.set(key, row);
+            }
+        }
+        return index;
+    }
+
     /**
      * Process raw rows into Lap entities
      */
@@ -162,6 +253,11 @@ export class LapTimeCSVParser {
     }
 }
 
+export interface SessionLapParseResult {
+    laps: Lap[];
+    skipped: number;
+}
+
 interface LapCSVRow {
     vehicle_id: string;
     lap: number;
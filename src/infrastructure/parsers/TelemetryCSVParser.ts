@@ -1,11 +1,22 @@
 import Papa from 'papaparse';
 import { TelemetryFrame, TelemetryFrameData } from '@/domain/entities/TelemetryFrame';
+import { ChannelMappingProfile, MAPPED_FIELDS } from '@/domain/entities/ChannelMappingProfile';
+import { ChannelSeries, ResampleOptions, TelemetryResampler } from '@/domain/services/TelemetryResampler';
+import { LapDistanceCalculator, LapDistanceMethod } from '@/domain/services/LapDistanceCalculator';
+import { TelemetryFileIndex } from '@/infrastructure/indexing/TelemetryFileIndex';
+import { TOYOTA_GR_CUP_PROFILE } from '@/infrastructure/profiles/DefaultChannelProfiles';
 
 /**
  * Telemetry CSV Parser for COTA Dataset
- * Handles "long format" where each row is a single telemetry metric
+ * Handles both layouts, auto-detected from the header row:
+ * - "long format": each row is a single telemetry metric (telemetry_name/telemetry_value)
+ * - "wide format": each row is a sample with one column per channel
+ *
+ * Column and channel names come from a ChannelMappingProfile (Strategy Pattern),
+ * defaulting to the Toyota GR Cup profile.
  */
 export class TelemetryCSVParser {
+
     async parseFile(
         file: File,
         options: {
@@ -16,9 +27,29 @@ export class TelemetryCSVParser {
                 lap?: number;
             };
             onProgress?: (progress: number) => void;
+            index?: TelemetryFileIndex;
+            profile?: ChannelMappingProfile;
+            resample?: ResampleOptions;
+            lapDistance?: LapDistanceMethod;
         } = {}
     ): Promise<TelemetryFrame[]> {
-        const { maxRows = 100000, skipRows = 0, filter, onProgress } = options;
+        const {
+            maxRows = 100000,
+            skipRows = 0,
+            filter,
+            onProgress,
+            index,
+            profile = TOYOTA_GR_CUP_PROFILE,
+            resample,
+            lapDistance = 'speed'
+        } = options;
+
+        // With an index, read only the chunks holding the requested vehicle/lap
+        const source = index && filter?.vehicleId
+            ? index.createSlice(file, filter.vehicleId, filter.lap)
+            : file;
+
+        const layout = await this.detectFileLayout(source, profile);
 
         return new Promise((resolve, reject) => {
             const rawRows: TelemetryRow[] = [];
@@ -28,7 +59,7 @@ export class TelemetryCSVParser {
             let foundVehicleButWrongLap = false;
             let gpsDebugCount = 0;
 
-            Papa.parse<any>(file, {
+            Papa.parse<any>(source, {
                 header: true,
                 dynamicTyping: true,
                 skipEmptyLines: true,
@@ -43,9 +74,9 @@ export class TelemetryCSVParser {
                     for (const raw of rows) {
                         if (rowCount <= skipRows) continue;
 
-                        const row = this.normalizeRow(raw);
+                        const row = this.normalizeRow(raw, profile);
 
-                        if (this.isValidRow(row)) {
+                        if (this.isValidRow(row, layout)) {
                             // GLOBAL DEBUG: Check if ANY GPS data exists in the file
                             if (gpsDebugCount < 5) {
                                 const name = String(row.telemetry_name).toLowerCase();
@@ -57,7 +88,7 @@ export class TelemetryCSVParser {
 
                             // Apply Filters
                             if (filter) {
-                                const rowVehicleId = this.normalizeVehicleId(row.vehicle_id);
+                                const rowVehicleId = TelemetryCSVParser.normalizeVehicleId(row.vehicle_id);
 
                                 if (seenVehicleIds.size < 20 && !seenVehicleIds.has(rowVehicleId)) {
                                     seenVehicleIds.add(rowVehicleId);
@@ -81,7 +112,7 @@ export class TelemetryCSVParser {
                                 aborted = true;
                                 parser.abort();
                                 console.log(`Reached limit of ${maxRows} matched rows, aborting parse.`);
-                                const frames = this.pivotToFrames(rawRows);
+                                const frames = this.pivotToFrames(rawRows, layout, profile, resample, lapDistance);
                                 resolve(frames);
                                 return;
                             }
@@ -97,7 +128,7 @@ export class TelemetryCSVParser {
                 complete: () => {
                     if (!aborted) {
                         console.log(`Parsed ${rawRows.length} matched telemetry rows (Complete). Scanned ${rowCount} total rows.`);
-                        const frames = this.pivotToFrames(rawRows);
+                        const frames = this.pivotToFrames(rawRows, layout, profile, resample, lapDistance);
                         resolve(frames);
                     }
                 },
@@ -107,44 +138,143 @@ export class TelemetryCSVParser {
         });
     }
 
-    private normalizeRow(raw: any): TelemetryRow {
+    /**
+     * Suggest the profile that best matches the channels in a file
+     * Samples the first megabyte: channel names for long format, headers for wide.
+     */
+    async suggestProfile(
+        file: File,
+        profiles: readonly ChannelMappingProfile[]
+    ): Promise<ChannelMappingProfile | null> {
+        const sample = await file.slice(0, 1024 * 1024).text();
+        const lines = sample.split(/\r?\n/);
+        if (file.size > 1024 * 1024) lines.pop(); // Drop the partial last line
+
+        const parsed = Papa.parse<Record<string, string>>(lines.join('\n'), {
+            header: true,
+            skipEmptyLines: true
+        });
+        const headers = parsed.meta.fields || [];
+
+        const channelNames = new Set<string>();
+        for (const profile of profiles) {
+            if (TelemetryCSVParser.detectLayout(headers, profile) === 'wide') continue;
+            for (const row of parsed.data) {
+                const name = profile.readHeader(row, 'telemetryName');
+                if (name) channelNames.add(name);
+            }
+        }
+
+        const channels = channelNames.size > 0 ? Array.from(channelNames) : headers;
+        return ChannelMappingProfile.suggest(profiles, channels);
+    }
+
+    /**
+     * Detect the CSV layout from its header row
+     * Long format needs both a channel-name and a channel-value column.
+     */
+    static detectLayout(
+        headers: string[],
+        profile: ChannelMappingProfile = TOYOTA_GR_CUP_PROFILE
+    ): TelemetryLayout {
+        const trimmed = headers.map(h => h.trim());
+        const hasName = trimmed.some(h => profile.getHeaderAliases('telemetryName').includes(h));
+        const hasValue = trimmed.some(h => profile.getHeaderAliases('telemetryValue').includes(h));
+        return hasName && hasValue ? 'long' : 'wide';
+    }
+
+    /**
+     * Read just the header line of a file and detect its layout
+     */
+    private async detectFileLayout(file: File, profile: ChannelMappingProfile): Promise<TelemetryLayout> {
+        const head = await file.slice(0, 64 * 1024).text();
+        const headerLine = head.split(/\r?\n/)[0] || '';
+        const headers = Papa.parse<string[]>(headerLine, { header: false }).data[0] || [];
+        return TelemetryCSVParser.detectLayout(headers, profile);
+    }
+
+    private normalizeRow(raw: any, profile: ChannelMappingProfile): TelemetryRow {
         return {
-            timestamp: raw.timestamp || raw.Time || raw.time,
-            vehicle_id: raw.vehicle_id || raw.VehicleId || raw.vehicleId,
-            lap: raw.lap || raw.Lap || raw.lapNumber,
-            telemetry_name: raw.telemetry_name || raw.name || raw.Parameter || raw.signal,
-            telemetry_value: raw.telemetry_value ?? raw.value ?? raw.Value ?? raw.result,
+            timestamp: profile.readHeader(raw, 'timestamp'),
+            vehicle_id: profile.readHeader(raw, 'vehicleId'),
+            lap: profile.readHeader(raw, 'lap'),
+            telemetry_name: profile.readHeader(raw, 'telemetryName'),
+            telemetry_value: profile.readHeader(raw, 'telemetryValue'),
             ...raw
         };
     }
 
-    private isValidRow(row: TelemetryRow): boolean {
-        return !!(
-            row.telemetry_name &&
-            (row.telemetry_value || row.telemetry_value === 0) &&
+    private isValidRow(row: TelemetryRow, layout: TelemetryLayout): boolean {
+        const hasIdentity = !!(
             row.timestamp &&
             row.vehicle_id &&
             typeof row.lap === 'number'
         );
+
+        if (layout === 'wide') return hasIdentity;
+
+        return hasIdentity && !!(
+            row.telemetry_name &&
+            (row.telemetry_value || row.telemetry_value === 0)
+        );
+    }
+
+    private pivotToFrames(
+        rows: TelemetryRow[],
+        layout: TelemetryLayout,
+        profile: ChannelMappingProfile,
+        resample?: ResampleOptions,
+        lapDistance: LapDistanceMethod = 'speed'
+    ): TelemetryFrame[] {
+        const groups = this.groupByTimestamp(rows, layout, profile);
+        const frames = resample
+            ? this.resampleGroups(groups, profile, resample)
+            : this.buildFrames(groups, profile);
+        return new LapDistanceCalculator().apply(frames, lapDistance);
     }
 
-    private pivotToFrames(rows: TelemetryRow[]): TelemetryFrame[] {
+    /**
+     * Collect channel values that share a timestamp/vehicle/lap
+     */
+    private groupByTimestamp(
+        rows: TelemetryRow[],
+        layout: TelemetryLayout,
+        profile: ChannelMappingProfile
+    ): Map<string, Map<string, number>> {
         const groups = new Map<string, Map<string, number>>();
+        const idColumns = new Set(
+            (['timestamp', 'vehicleId', 'lap'] as const)
+                .flatMap(field => profile.getHeaderAliases(field))
+                .map(alias => alias.toLowerCase())
+        );
 
         for (const row of rows) {
-            const key = `${row.timestamp}_${row.vehicle_id}_${row.lap}`;
+            // Key on epoch ms: dynamicTyping turns ISO strings into Dates, whose
+            // string form drops milliseconds and would merge distinct samples
+            const time = new Date(row.timestamp).getTime();
+            const key = `${time}_${row.vehicle_id}_${row.lap}`;
 
             if (!groups.has(key)) {
                 groups.set(key, new Map());
             }
 
             const metrics = groups.get(key)!;
-            const telemetryName = String(row.telemetry_name).toLowerCase();
 
-            metrics.set(telemetryName, row.telemetry_value);
+            if (layout === 'long') {
+                const telemetryName = String(row.telemetry_name).toLowerCase();
+                metrics.set(telemetryName, row.telemetry_value);
+            } else {
+                // Wide rows already hold every channel: copy each numeric column
+                for (const [column, value] of Object.entries(row)) {
+                    const channel = column.toLowerCase();
+                    if (typeof value === 'number' && !idColumns.has(channel)) {
+                        metrics.set(channel, value);
+                    }
+                }
+            }
 
             if (!metrics.has('_timestamp')) {
-                metrics.set('_timestamp', new Date(row.timestamp).getTime());
+                metrics.set('_timestamp', time);
             }
             if (!metrics.has('_vehicle_id')) {
                 metrics.set('_vehicle_id', row.vehicle_id as any);
@@ -154,7 +284,21 @@ export class TelemetryCSVParser {
             }
         }
 
+        return groups;
+    }
+
+    /**
+     * Build one frame per timestamp group (no resampling)
+     * In long-format files a timestamp often carries no speed sample; such
+     * frames hold the car's last speed (its first one at the start of a lap)
+     * rather than 0, which would drag the integrated lap distance short.
+     */
+    private buildFrames(
+        groups: Map<string, Map<string, number>>,
+        profile: ChannelMappingProfile
+    ): TelemetryFrame[] {
         const frames: TelemetryFrame[] = [];
+        const speeds = this.heldSpeeds(groups, profile);
         let loggedKeys = false;
 
         for (const [key, metrics] of groups.entries()) {
@@ -166,24 +310,15 @@ export class TelemetryCSVParser {
 
                 const frameData: TelemetryFrameData = {
                     timestamp: new Date(metrics.get('_timestamp')!),
-                    vehicleId: this.normalizeVehicleId(String(metrics.get('_vehicle_id')!)),
+                    vehicleId: TelemetryCSVParser.normalizeVehicleId(String(metrics.get('_vehicle_id')!)),
                     lap: metrics.get('_lap')!,
-                    speed: metrics.get('speed') || metrics.get('speed_can') || 0,
-                    throttlePos: this.clamp(
-                        metrics.get('ath') || metrics.get('throttle_pos') || metrics.get('throttle') || 0,
-                        0, 100
-                    ),
-                    brakePos: this.clamp(
-                        Math.max(
-                            metrics.get('pbrake_f') || 0,
-                            metrics.get('pbrake_r') || 0,
-                            metrics.get('brake_pos') || 0
-                        ),
-                        0, 100
-                    ),
-                    gpsLatitude: metrics.get('gps_lat') || metrics.get('gps_latitude') || metrics.get('latitude') || 0,
-                    gpsLongitude: metrics.get('gps_lon') || metrics.get('gps_longitude') || metrics.get('longitude') || 0,
-                    gear: metrics.get('gear') || undefined
+                    speed: Math.max(speeds.get(key) ?? 0, 0),
+                    throttlePos: this.clamp(profile.resolve('throttlePos', metrics) ?? 0, 0, 100),
+                    brakePos: this.clamp(profile.resolve('brakePos', metrics) ?? 0, 0, 100),
+                    gpsLatitude: profile.resolve('gpsLatitude', metrics) ?? 0,
+                    gpsLongitude: profile.resolve('gpsLongitude', metrics) ?? 0,
+                    steeringAngle: profile.resolve('steeringAngle', metrics),
+                    gear: profile.resolve('gear', metrics) || undefined
                 };
 
                 if (frames.length === 0) {
@@ -205,7 +340,84 @@ export class TelemetryCSVParser {
         return frames;
     }
 
-    private normalizeVehicleId(vehicleId: string): string {
+    /**
+     * Speed for every timestamp group, carrying each vehicle/lap's last
+     * sample over groups without one
+     */
+    private heldSpeeds(
+        groups: Map<string, Map<string, number>>,
+        profile: ChannelMappingProfile
+    ): Map<string, number> {
+        const byLap = new Map<string, Array<{ key: string; time: number; speed: number | undefined }>>();
+        for (const [key, metrics] of groups.entries()) {
+            const lapKey = `${metrics.get('_vehicle_id')}-${metrics.get('_lap')}`;
+            const series = byLap.get(lapKey) || [];
+            series.push({ key, time: metrics.get('_timestamp') ?? 0, speed: profile.resolve('speed', metrics) });
+            byLap.set(lapKey, series);
+        }
+
+        const speeds = new Map<string, number>();
+        for (const series of byLap.values()) {
+            series.sort((a, b) => a.time - b.time);
+            let last = series.find(s => s.speed !== undefined)?.speed;
+            for (const sample of series) {
+                if (sample.speed !== undefined) last = sample.speed;
+                if (last !== undefined) speeds.set(sample.key, last);
+            }
+        }
+        return speeds;
+    }
+
+    /**
+     * Split groups into per-field sample series for each vehicle/lap and
+     * resample them onto a uniform time base
+     */
+    private resampleGroups(
+        groups: Map<string, Map<string, number>>,
+        profile: ChannelMappingProfile,
+        options: ResampleOptions
+    ): TelemetryFrame[] {
+        const seriesMap = new Map<string, ChannelSeries>();
+
+        for (const metrics of groups.values()) {
+            const vehicleId = TelemetryCSVParser.normalizeVehicleId(String(metrics.get('_vehicle_id')!));
+            const lap = metrics.get('_lap')!;
+            const time = metrics.get('_timestamp')!;
+            if (isNaN(time)) continue;
+
+            const seriesKey = `${vehicleId}-${lap}`;
+            let series = seriesMap.get(seriesKey);
+            if (!series) {
+                series = { vehicleId, lap, channels: {} };
+                seriesMap.set(seriesKey, series);
+            }
+
+            for (const field of MAPPED_FIELDS) {
+                const value = profile.resolve(field, metrics);
+                if (value === undefined) continue;
+                (series.channels[field] ??= []).push({ time, value });
+            }
+        }
+
+        const resampler = new TelemetryResampler();
+        const frames: TelemetryFrame[] = [];
+
+        for (const series of seriesMap.values()) {
+            try {
+                frames.push(...resampler.resample(series, options));
+            } catch (error) {
+                console.warn(`Failed to resample ${series.vehicleId} lap ${series.lap}:`, error);
+            }
+        }
+
+        frames.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+        return frames;
+    }
+
+    /**
+     * Strip the series prefix so IDs match the lap timing files
+     */
+    static normalizeVehicleId(vehicleId: string): string {
         return vehicleId.replace(/^GR86-/, '');
     }
 
@@ -214,6 +426,8 @@ export class TelemetryCSVParser {
     }
 }
 
+export type TelemetryLayout = 'long' | 'wide';
+
 interface TelemetryRow {
     timestamp: string;
     vehicle_id: string;
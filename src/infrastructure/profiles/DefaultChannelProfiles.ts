@@ -0,0 +1,76 @@
+import { ChannelMappingProfile, HeaderField } from '@/domain/entities/ChannelMappingProfile';
+
+/**
+ * Built-in Channel Mapping Profiles
+ * Shipped defaults; users can edit and save copies through the profile repository.
+ */
+
+const STANDARD_HEADERS: Record<HeaderField, string[]> = {
+    timestamp: ['timestamp', 'Time', 'time'],
+    vehicleId: ['vehicle_id', 'VehicleId', 'vehicleId'],
+    lap: ['lap', 'Lap', 'lapNumber'],
+    telemetryName: ['telemetry_name', 'name', 'Parameter', 'signal'],
+    telemetryValue: ['telemetry_value', 'value', 'Value', 'result']
+};
+
+/**
+ * Toyota GR Cup (Hack the Track dataset)
+ * Speed in km/h, aTH in %, brake pressures in bar (front/rear, take the larger)
+ */
+export const TOYOTA_GR_CUP_PROFILE = new ChannelMappingProfile({
+    id: 'toyota-gr-cup',
+    name: 'Toyota GR Cup',
+    builtIn: true,
+    channels: {
+        speed: { sources: ['speed', 'speed_can'], scale: 1, offset: 0 },
+        throttlePos: { sources: ['ath', 'throttle_pos', 'throttle'], scale: 1, offset: 0 },
+        brakePos: { sources: ['pbrake_f', 'pbrake_r', 'brake_pos'], scale: 1, offset: 0, combine: 'max' },
+        gpsLatitude: { sources: ['vbox_lat_min', 'gps_lat', 'gps_latitude', 'latitude'], scale: 1, offset: 0 },
+        gpsLongitude: { sources: ['vbox_long_minutes', 'gps_lon', 'gps_longitude', 'longitude'], scale: 1, offset: 0 },
+        steeringAngle: { sources: ['steering_angle'], scale: 1, offset: 0 },
+        gear: { sources: ['gear'], scale: 1, offset: 0 }
+    },
+    headers: STANDARD_HEADERS
+});
+
+/**
+ * Generic logger export
+ * Common channel names; speed assumed in km/h and pedals in %
+ */
+export const GENERIC_PROFILE = new ChannelMappingProfile({
+    id: 'generic',
+    name: 'Generic',
+    builtIn: true,
+    channels: {
+        speed: { sources: ['speed', 'vehicle_speed', 'gps_speed'], scale: 1, offset: 0 },
+        throttlePos: { sources: ['throttle', 'throttle_pos', 'tps'], scale: 1, offset: 0 },
+        brakePos: { sources: ['brake', 'brake_pos', 'brake_pressure'], scale: 1, offset: 0, combine: 'max' },
+        gpsLatitude: { sources: ['latitude', 'lat', 'gps_lat'], scale: 1, offset: 0 },
+        gpsLongitude: { sources: ['longitude', 'lon', 'lng', 'gps_lon'], scale: 1, offset: 0 },
+        steeringAngle: { sources: ['steering', 'steering_angle', 'steer'], scale: 1, offset: 0 },
+        gear: { sources: ['gear'], scale: 1, offset: 0 }
+    },
+    headers: STANDARD_HEADERS
+});
+
+export const DEFAULT_CHANNEL_PROFILES: readonly ChannelMappingProfile[] = [
+    TOYOTA_GR_CUP_PROFILE,
+    GENERIC_PROFILE
+];
+
+/**
+ * Unit conversion presets offered in the profile editor (scale/offset to frame units)
+ */
+export const UNIT_CONVERSION_PRESETS: readonly UnitConversionPreset[] = [
+    { label: 'None', scale: 1, offset: 0 },
+    { label: 'mph → km/h', scale: 1.609344, offset: 0 },
+    { label: 'm/s → km/h', scale: 3.6, offset: 0 },
+    { label: 'fraction → %', scale: 100, offset: 0 },
+    { label: 'radians → degrees', scale: 180 / Math.PI, offset: 0 }
+];
+
+export interface UnitConversionPreset {
+    label: string;
+    scale: number;
+    offset: number;
+}
@@ -0,0 +1,77 @@
+import { IChannelProfileRepository } from '@/domain/repositories/IChannelProfileRepository';
+import { ChannelMappingProfile, ChannelMappingProfileData } from '@/domain/entities/ChannelMappingProfile';
+import { DEFAULT_CHANNEL_PROFILES } from '@/infrastructure/profiles/DefaultChannelProfiles';
+
+/**
+ * Local Storage Channel Profile Repository
+ * Implements IChannelProfileRepository on top of window.localStorage.
+ *
+ * Design Pattern: Repository Pattern
+ * Data Structure: Map<profileId, ChannelMappingProfileData> persisted as JSON
+ *
+ * Built-in profiles are always available; saved entries with the same ID
+ * override them until deleted.
+ */
+export class ChannelProfileRepository implements IChannelProfileRepository {
+    private static readonly STORAGE_KEY = 'race-strategy-dashboard.channel-profiles';
+
+    async getAllProfiles(): Promise<ChannelMappingProfile[]> {
+        const saved = this.readSaved();
+        const profiles: ChannelMappingProfile[] = [];
+
+        // Built-ins first (in their default order), replaced by overrides
+        for (const profile of DEFAULT_CHANNEL_PROFILES) {
+            const override = saved.get(profile.id);
+            profiles.push(override ? this.toProfile(override, true) : profile);
+            saved.delete(profile.id);
+        }
+
+        for (const data of saved.values()) {
+            profiles.push(this.toProfile(data, false));
+        }
+
+        return profiles;
+    }
+
+    async getProfile(id: string): Promise<ChannelMappingProfile | null> {
+        const profiles = await this.getAllProfiles();
+        return profiles.find(profile => profile.id === id) || null;
+    }
+
+    async saveProfile(profile: ChannelMappingProfile): Promise<void> {
+        const saved = this.readSaved();
+        saved.set(profile.id, profile.toJSON());
+        this.writeSaved(saved);
+    }
+
+    async deleteProfile(id: string): Promise<void> {
+        const saved = this.readSaved();
+        saved.delete(id);
+        this.writeSaved(saved);
+    }
+
+    private readSaved(): Map<string, ChannelMappingProfileData> {
+        if (typeof window === 'undefined') return new Map();
+
+        try {
+            const raw = window.localStorage.getItem(ChannelProfileRepository.STORAGE_KEY);
+            const list: ChannelMappingProfileData[] = raw ? JSON.parse(raw) : [];
+            return new Map(list.map(data => [data.id, data]));
+        } catch (error) {
+            console.warn('Failed to read saved channel profiles:', error);
+            return new Map();
+        }
+    }
+
+    private writeSaved(saved: Map<string, ChannelMappingProfileData>): void {
+        if (typeof window === 'undefined') return;
+        window.localStorage.setItem(
+            ChannelProfileRepository.STORAGE_KEY,
+            JSON.stringify(Array.from(saved.values()))
+        );
+    }
+
+    private toProfile(data: ChannelMappingProfileData, builtIn: boolean): ChannelMappingProfile {
+        return new ChannelMappingProfile({ ...data, builtIn });
+    }
+}
@@ -86,6 +86,14 @@ export class LapRepository implements ILapRepository {
         }
     }
 
+    /**
+     * Replace a vehicle's laps
+     * Complexity: O(n log n) where n is number of laps for vehicle
+     */
+    async replaceLaps(vehicleId: string, laps: Lap[]): Promise<void> {
+        this.data.set(vehicleId, [...laps].sort((a, b) => a.lapNumber - b.lapNumber));
+    }
+
     /**
      * Get all vehicle IDs
      */
@@ -117,6 +117,22 @@ export class TelemetryRepository implements ITelemetryRepository {
         }
     }
 
+    /**
+     * Clear one vehicle's data
+     * Complexity: O(1)
+     */
+    async clearVehicle(vehicleId: string): Promise<void> {
+        this.data.delete(vehicleId);
+    }
+
+    /**
+     * Clear one lap of a vehicle's data
+     * Complexity: O(1)
+     */
+    async clearLap(vehicleId: string, lap: number): Promise<void> {
+        this.data.get(vehicleId)?.delete(lap);
+    }
+
     /**
      * Clear all data
      */
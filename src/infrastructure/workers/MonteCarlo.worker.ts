@@ -0,0 +1,19 @@
+import { MonteCarloRaceSimulator } from '@/domain/services/MonteCarloRaceSimulator';
+import { MonteCarloWorkerRequest, MonteCarloWorkerResponse } from './MonteCarloWorkerMessages';
+
+/**
+ * Web Worker: Monte Carlo race simulation
+ * Runs MonteCarloRaceSimulator off the main thread and reports progress.
+ */
+const send = (message: MonteCarloWorkerResponse) => postMessage(message);
+
+addEventListener('message', (event: MessageEvent<MonteCarloWorkerRequest>) => {
+    try {
+        const result = new MonteCarloRaceSimulator().run(event.data.input, (completed, total) => {
+            send({ type: 'progress', completed, total });
+        });
+        send({ type: 'result', result });
+    } catch (error) {
+        send({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+});
@@ -0,0 +1,13 @@
+import { MonteCarloInput, MonteCarloResult } from '@/domain/services/MonteCarloRaceSimulator';
+
+/**
+ * Messages between WorkerMonteCarloRunner and the Monte Carlo worker
+ */
+export interface MonteCarloWorkerRequest {
+    input: MonteCarloInput;
+}
+
+export type MonteCarloWorkerResponse =
+    | { type: 'progress'; completed: number; total: number }
+    | { type: 'result'; result: MonteCarloResult }
+    | { type: 'error'; message: string };
@@ -0,0 +1,64 @@
+import { IMonteCarloRunner } from '@/application/use-cases/SimulateRaceOutcomes';
+import { MonteCarloInput, MonteCarloResult } from '@/domain/services/MonteCarloRaceSimulator';
+import { MonteCarloWorkerRequest, MonteCarloWorkerResponse } from './MonteCarloWorkerMessages';
+
+/**
+ * Monte Carlo runner backed by a Web Worker
+ * Each run gets a fresh worker; starting a new run or calling cancel()
+ * terminates the one in progress and rejects its promise.
+ *
+ * Design Pattern: Adapter Pattern (Worker messages to a Promise)
+ */
+export class WorkerMonteCarloRunner implements IMonteCarloRunner {
+    private worker: Worker | null = null;
+    private rejectCurrent: ((reason: Error) => void) | null = null;
+
+    run(input: MonteCarloInput, onProgress?: (completed: number, total: number) => void): Promise<MonteCarloResult> {
+        this.cancel();
+
+        return new Promise((resolve, reject) => {
+            const worker = new Worker(new URL('./MonteCarlo.worker.ts', import.meta.url));
+            this.worker = worker;
+            this.rejectCurrent = reject;
+
+            const finish = () => {
+                worker.terminate();
+                if (this.worker === worker) {
+                    this.worker = null;
+                    this.rejectCurrent = null;
+                }
+            };
+
+            worker.onmessage = (event: MessageEvent<MonteCarloWorkerResponse>) => {
+                const message = event.data;
+                if (message.type === 'progress') {
+                    onProgress?.(message.completed, message.total);
+                } else if (message.type === 'result') {
+                    finish();
+                    resolve(message.result);
+                } else {
+                    finish();
+                    reject(new Error(message.message));
+                }
+            };
+            worker.onerror = (event) => {
+                finish();
+                reject(new Error(event.message || 'Simulation worker failed'));
+            };
+
+            const request: MonteCarloWorkerRequest = { input };
+            worker.postMessage(request);
+        });
+    }
+
+    /**
+     * Stop the run in progress, if any
+     */
+    cancel(): void {
+        if (!this.worker) return;
+        this.worker.terminate();
+        this.rejectCurrent?.(new Error('Simulation cancelled'));
+        this.worker = null;
+        this.rejectCurrent = null;
+    }
+}
@@ -0,0 +1,235 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+    ChannelMappingProfile,
+    ChannelMappingProfileData,
+    HEADER_FIELDS,
+    HeaderField,
+    MAPPED_FIELDS,
+    MappedField
+} from '@/domain/entities/ChannelMappingProfile';
+import { UNIT_CONVERSION_PRESETS } from '@/infrastructure/profiles/DefaultChannelProfiles';
+
+const FIELD_LABELS: Record<MappedField, string> = {
+    speed: 'Speed (km/h)',
+    throttlePos: 'Throttle (%)',
+    brakePos: 'Brake (0-100)',
+    gpsLatitude: 'GPS Latitude',
+    gpsLongitude: 'GPS Longitude',
+    steeringAngle: 'Steering (deg)',
+    gear: 'Gear'
+};
+
+const HEADER_LABELS: Record<HeaderField, string> = {
+    timestamp: 'Timestamp',
+    vehicleId: 'Vehicle ID',
+    lap: 'Lap',
+    telemetryName: 'Channel name (long)',
+    telemetryValue: 'Channel value (long)'
+};
+
+interface ChannelProfileEditorProps {
+    profiles: ChannelMappingProfile[];
+    activeProfile: ChannelMappingProfile;
+    suggestedProfileId: string | null;
+    onSelect: (profileId: string) => void;
+    onSave: (profile: ChannelMappingProfile) => Promise<void>;
+    onDelete: (profileId: string) => Promise<void>;
+}
+
+/**
+ * ChannelProfileEditor Component
+ * Lets the user pick, edit and save channel mapping profiles.
+ *
+ * Design Pattern: Controlled Component (profiles are owned by the parent)
+ */
+export default function ChannelProfileEditor({
+    profiles,
+    activeProfile,
+    suggestedProfileId,
+    onSelect,
+    onSave,
+    onDelete
+}: ChannelProfileEditorProps) {
+    const [draft, setDraft] = useState<ChannelMappingProfileData | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const startEditing = () => {
+        // Deep copy so edits never touch the active profile
+        setDraft(JSON.parse(JSON.stringify(activeProfile.toJSON())));
+        setError(null);
+    };
+
+    const updateChannel = (field: MappedField, changes: Partial<ChannelMappingProfileData['channels'][MappedField]>) => {
+        if (!draft) return;
+        setDraft({
+            ...draft,
+            channels: { ...draft.channels, [field]: { ...draft.channels[field], ...changes } }
+        });
+    };
+
+    const updateHeader = (field: HeaderField, text: string) => {
+        if (!draft) return;
+        setDraft({ ...draft, headers: { ...draft.headers, [field]: text.split(',') } });
+    };
+
+    const saveDraft = async (asNew: boolean) => {
+        if (!draft) return;
+
+        try {
+            const cleanList = (list: string[]) => list.map(item => item.trim()).filter(item => item !== '');
+            const channels = { ...draft.channels };
+            for (const field of MAPPED_FIELDS) {
+                channels[field] = { ...channels[field], sources: cleanList(channels[field].sources) };
+            }
+            const headers = { ...draft.headers };
+            for (const field of HEADER_FIELDS) {
+                headers[field] = cleanList(headers[field]);
+            }
+
+            const profile = new ChannelMappingProfile({
+                ...draft,
+                id: asNew ? `custom-${Date.now()}` : draft.id,
+                name: asNew ? `${draft.name} (copy)` : draft.name,
+                builtIn: asNew ? false : draft.builtIn,
+                channels,
+                headers
+            });
+
+            await onSave(profile);
+            setDraft(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Invalid profile');
+        }
+    };
+
+    const deleteDraft = async () => {
+        if (!draft) return;
+
+        try {
+            await onDelete(draft.id);
+            setDraft(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not delete the profile');
+        }
+    };
+
+    const inputClass = 'w-full px-2 py-1 text-xs bg-white dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded';
+
+    return (
+        <div className="space-y-2">
+            <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                Channel Mapping Profile
+            </label>
+            <div className="flex gap-2">
+                <select
+                    value={activeProfile.id}
+                    onChange={(e) => { onSelect(e.target.value); setDraft(null); }}
+                    className="block w-full px-3 py-2 bg-white dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-md"
+                >
+                    {profiles.map(profile => (
+                        <option key={profile.id} value={profile.id}>
+                            {profile.name}{profile.id === suggestedProfileId ? ' (suggested)' : ''}
+                        </option>
+                    ))}
+                </select>
+                {!draft && (
+                    <button
+                        type="button"
+                        onClick={startEditing}
+                        className="px-3 py-2 text-sm rounded-md bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-200"
+                    >
+                        Edit
+                    </button>
+                )}
+            </div>
+            {suggestedProfileId && suggestedProfileId !== activeProfile.id && (
+                <button
+                    type="button"
+                    onClick={() => onSelect(suggestedProfileId)}
+                    className="text-xs text-blue-600 hover:underline"
+                >
+                    Use suggested profile: {profiles.find(p => p.id === suggestedProfileId)?.name}
+                </button>
+            )}
+
+            {draft && (
+                <div className="space-y-3 p-3 border border-zinc-200 dark:border-zinc-700 rounded-md">
+                    <input
+                        value={draft.name}
+                        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                        className={inputClass}
+                        placeholder="Profile name"
+                    />
+
+                    <div className="space-y-2">
+                        {MAPPED_FIELDS.map(field => (
+                            <div key={field} className="grid grid-cols-3 gap-1 items-center">
+                                <span className="text-xs text-zinc-600 dark:text-zinc-400">{FIELD_LABELS[field]}</span>
+                                <input
+                                    value={draft.channels[field].sources.join(',')}
+                                    onChange={(e) => updateChannel(field, { sources: e.target.value.split(',') })}
+                                    className={inputClass}
+                                    title="Source channels, comma separated"
+                                />
+                                <select
+                                    value={UNIT_CONVERSION_PRESETS.findIndex(p =>
+                                        p.scale === draft.channels[field].scale && p.offset === draft.channels[field].offset
+                                    )}
+                                    onChange={(e) => {
+                                        const preset = UNIT_CONVERSION_PRESETS[parseInt(e.target.value)];
+                                        if (preset) updateChannel(field, { scale: preset.scale, offset: preset.offset });
+                                    }}
+                                    className={inputClass}
+                                >
+                                    <option value={-1} disabled>
+                                        ×{draft.channels[field].scale} +{draft.channels[field].offset}
+                                    </option>
+                                    {UNIT_CONVERSION_PRESETS.map((preset, i) => (
+                                        <option key={preset.label} value={i}>{preset.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="space-y-2">
+                        <p className="text-xs font-medium text-zinc-700 dark:text-zinc-300">Column names</p>
+                        {HEADER_FIELDS.map(field => (
+                            <div key={field} className="grid grid-cols-3 gap-1 items-center">
+                                <span className="text-xs text-zinc-600 dark:text-zinc-400">{HEADER_LABELS[field]}</span>
+                                <input
+                                    value={draft.headers[field].join(',')}
+                                    onChange={(e) => updateHeader(field, e.target.value)}
+                                    className={`${inputClass} col-span-2`}
+                                />
+                            </div>
+                        ))}
+                    </div>
+
+                    {error && <p className="text-xs text-red-600">{error}</p>}
+
+                    <div className="flex flex-wrap gap-2">
+                        <button type="button" onClick={() => saveDraft(false)} className="px-3 py-1 text-xs rounded bg-blue-600 text-white hover:bg-blue-700">
+                            Save
+                        </button>
+                        <button type="button" onClick={() => saveDraft(true)} className="px-3 py-1 text-xs rounded bg-zinc-200 dark:bg-zinc-700 hover:bg-zinc-300">
+                            Save as new
+                        </button>
+                        <button type="button" onClick={() => setDraft(null)} className="px-3 py-1 text-xs rounded text-zinc-600 hover:underline">
+                            Cancel
+                        </button>
+                        <button
+                            type="button"
+                            onClick={deleteDraft}
+                            className="px-3 py-1 text-xs rounded text-red-600 hover:underline ml-auto"
+                        >
+                            {draft.builtIn ? 'Reset to default' : 'Delete'}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
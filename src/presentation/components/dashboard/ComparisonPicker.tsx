@@ -0,0 +1,187 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useTelemetryContext } from '@/presentation/contexts/TelemetryContext';
+import { Lap, TrafficCondition } from '@/domain/entities/Lap';
+import { IdealLapBuilder } from '@/domain/services/IdealLapBuilder';
+
+const TRAFFIC_LABELS: Record<TrafficCondition, string> = {
+    traffic: 'traffic',
+    slipstream: 'slipstream'
+};
+
+interface LapPick {
+    vehicleId: string;
+    lap: number;
+}
+
+/**
+ * ComparisonPicker Component
+ * Chooses the comparison (reference) lap drawn against the selected lap.
+ * Quick picks: this car's best lap, the session-fastest lap, the previous lap,
+ * and an ideal lap stitched from the best mini-sectors of this car's loaded laps.
+ * Laps tagged as run in traffic or in a slipstream are labelled, since their
+ * times do not reflect the car's own pace. Laps invalidated by track limits
+ * are labelled too and left out of the quick picks and the ideal lap's
+ * source laps unless included.
+ *
+ * Design Pattern: Observer Pattern (reads and updates selection via Context)
+ */
+export default function ComparisonPicker() {
+    const context = useTelemetryContext();
+    const { selectedVehicleId, selectedLap, comparisonVehicleId, comparisonLap, lapData, telemetryData } = context;
+    const [idealStatus, setIdealStatus] = useState('');
+    const [includeInvalid, setIncludeInvalid] = useState(false);
+
+    const quickPicks = useMemo(() => {
+        const fastest = (laps: readonly Lap[]): Lap | null => laps
+            .filter(lap => includeInvalid || lap.isValid)
+            .reduce<Lap | null>((best, lap) => (!best || lap.isFasterThan(best) ? lap : best), null);
+        const toRef = (lap: Lap | null): LapPick | null =>
+            lap ? { vehicleId: lap.vehicle.id, lap: lap.lapNumber } : null;
+
+        const vehicleLaps = selectedVehicleId ? lapData.get(selectedVehicleId) || [] : [];
+        const previous = vehicleLaps
+            .filter(lap => selectedLap !== null && lap.lapNumber < selectedLap && (includeInvalid || lap.isValid))
+            .reduce<Lap | null>((latest, lap) => (!latest || lap.lapNumber > latest.lapNumber ? lap : latest), null);
+
+        return {
+            best: toRef(fastest(vehicleLaps)),
+            sessionFastest: toRef(fastest(Array.from(lapData.values()).flat())),
+            previous: toRef(previous)
+        };
+    }, [lapData, selectedVehicleId, selectedLap, includeInvalid]);
+
+    if (!selectedVehicleId || selectedLap === null) return null;
+
+    const sourceVehicleId = IdealLapBuilder.sourceVehicleId(selectedVehicleId);
+    const idealVehicleId = IdealLapBuilder.vehicleIdFor(sourceVehicleId);
+
+    const lapOf = (vehicleId: string | null, lapNumber: number | null) =>
+        vehicleId ? (lapData.get(vehicleId) || []).find(l => l.lapNumber === lapNumber) : undefined;
+
+    // Rebuilt on every click so newly loaded laps are included
+    const buildIdealLap = () => {
+        const laps = Array.from(telemetryData.values())
+            .filter(frames => frames.length > 0 && frames[0].vehicleId === sourceVehicleId)
+            .filter(frames => includeInvalid || (lapOf(sourceVehicleId, frames[0].lap)?.isValid ?? true));
+        const ideal = new IdealLapBuilder().build(laps);
+        if (!ideal) {
+            setIdealStatus('Load at least two full laps of this car first');
+            return;
+        }
+        context.setTelemetryData(idealVehicleId, IdealLapBuilder.LAP_NUMBER, ideal.frames);
+        context.setComparisonLap(idealVehicleId, IdealLapBuilder.LAP_NUMBER);
+        setIdealStatus(`Ideal ${(ideal.idealMs / 1000).toFixed(3)}s from ${laps.length} laps`);
+    };
+
+    const isSelected = (ref: LapPick | null) =>
+        !ref || (ref.vehicleId === selectedVehicleId && ref.lap === selectedLap);
+    const comparisonLaps = comparisonVehicleId ? lapData.get(comparisonVehicleId) || [] : [];
+    const flagged = [lapOf(selectedVehicleId, selectedLap), lapOf(comparisonVehicleId, comparisonLap)]
+        .filter((lap): lap is Lap => !!lap && (lap.isTrafficLap || !lap.isValid));
+
+    // Selecting a lap that is already in the list swaps it with the reference
+    const swapReference = () => {
+        if (!comparisonVehicleId || comparisonLap === null) return;
+        context.selectVehicleAndLap(comparisonVehicleId, comparisonLap);
+    };
+
+    const buttonClass = 'px-3 py-1 text-xs rounded bg-zinc-200 dark:bg-zinc-700 hover:bg-zinc-300 disabled:opacity-50';
+    const selectClass = 'block w-full px-3 py-2 bg-white dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-md';
+
+    return (
+        <div className="space-y-2">
+            <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                Compare Against
+            </label>
+
+            <div className="flex flex-wrap gap-1">
+                {([
+                    ['Best lap', quickPicks.best],
+                    ['Session fastest', quickPicks.sessionFastest],
+                    ['Previous lap', quickPicks.previous]
+                ] as const).map(([label, ref]) => (
+                    <button
+                        key={label}
+                        type="button"
+                        disabled={isSelected(ref)}
+                        onClick={() => ref && context.setComparisonLap(ref.vehicleId, ref.lap)}
+                        className={buttonClass}
+                    >
+                        {label}
+                    </button>
+                ))}
+                <button type="button" onClick={buildIdealLap} className={buttonClass}>
+                    Ideal lap
+                </button>
+                <label className="flex items-center gap-1 text-xs text-zinc-600 dark:text-zinc-400">
+                    <input type="checkbox" checked={includeInvalid} onChange={(e) => setIncludeInvalid(e.target.checked)} />
+                    Include invalid laps
+                </label>
+            </div>
+            {idealStatus && <p className="text-xs text-zinc-500">{idealStatus}</p>}
+
+            <div className="grid grid-cols-2 gap-2">
+                <select
+                    value={comparisonVehicleId || ''}
+                    onChange={(e) => {
+                        const laps = lapData.get(e.target.value);
+                        if (laps && laps.length > 0) {
+                            context.setComparisonLap(e.target.value, laps[0].lapNumber);
+                        } else {
+                            context.clearComparison();
+                        }
+                    }}
+                    className={selectClass}
+                >
+                    <option value="">-- None --</option>
+                    {comparisonVehicleId && IdealLapBuilder.isIdeal(comparisonVehicleId) && (
+                        <option value={comparisonVehicleId}>
+                            {IdealLapBuilder.sourceVehicleId(comparisonVehicleId)} ideal
+                        </option>
+                    )}
+                    {Array.from(lapData.keys()).map(id => (
+                        <option key={id} value={id}>{id}</option>
+                    ))}
+                </select>
+                <select
+                    value={comparisonLap ?? ''}
+                    disabled={!comparisonVehicleId}
+                    onChange={(e) => comparisonVehicleId && context.setComparisonLap(comparisonVehicleId, parseInt(e.target.value))}
+                    className={selectClass}
+                >
+                    {comparisonVehicleId && IdealLapBuilder.isIdeal(comparisonVehicleId) && (
+                        <option value={IdealLapBuilder.LAP_NUMBER}>Ideal lap</option>
+                    )}
+                    {comparisonLaps.map(lap => (
+                        <option key={lap.lapNumber} value={lap.lapNumber}>
+                            {`Lap ${lap.lapNumber} (${lap.lapTimeFormatted})`}
+                            {`${lap.traffic ? ` · ${TRAFFIC_LABELS[lap.traffic]}` : ''}${lap.isValid ? '' : ' · invalid'}`}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            {comparisonVehicleId && (
+                <div className="flex gap-1">
+                    <button type="button" onClick={swapReference} className={buttonClass}>
+                        Swap reference
+                    </button>
+                    <button type="button" onClick={context.clearComparison} className={buttonClass}>
+                        Clear
+                    </button>
+                </div>
+            )}
+
+            {flagged.map(lap => (
+                <p key={`${lap.vehicle.id}-${lap.lapNumber}`} className="text-xs text-amber-600">
+                    {lap.vehicle.id} lap {lap.lapNumber}
+                    {lap.traffic && ` was run mostly in ${TRAFFIC_LABELS[lap.traffic]}`}
+                    {lap.traffic && !lap.isValid && ' and'}
+                    {!lap.isValid && ' broke track limits (invalid)'}
+                </p>
+            ))}
+        </div>
+    );
+}
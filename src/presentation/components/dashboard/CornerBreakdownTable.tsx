@@ -0,0 +1,116 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { useTelemetry } from '@/presentation/hooks/useTelemetry';
+import { useTelemetryContext } from '@/presentation/contexts/TelemetryContext';
+import { TelemetryAnalysisService } from '@/domain/services/TelemetryAnalysisService';
+
+/**
+ * CornerBreakdownTable Component
+ * Per-corner metrics for the selected lap, with deltas against the comparison
+ * lap. The three corners with the most time to gain are highlighted.
+ *
+ * Design Pattern: Observer Pattern (reacts to selection and track layout via Context)
+ */
+export default function CornerBreakdownTable() {
+    const { selectedTelemetry, comparisonTelemetry } = useTelemetry();
+    const { trackLayout } = useTelemetryContext();
+
+    const rows = useMemo(() => {
+        if (!trackLayout || selectedTelemetry.length === 0) return [];
+
+        const service = new TelemetryAnalysisService();
+        const lap = service.analyzeCorners(selectedTelemetry, trackLayout);
+        if (comparisonTelemetry.length === 0) {
+            return lap.map(metrics => ({ metrics, comparison: null }));
+        }
+
+        const comparisons = new Map(
+            service.compareCorners(lap, service.analyzeCorners(comparisonTelemetry, trackLayout))
+                .map(c => [c.cornerId, c])
+        );
+        return lap.map(metrics => ({ metrics, comparison: comparisons.get(metrics.cornerId) ?? null }));
+    }, [trackLayout, selectedTelemetry, comparisonTelemetry]);
+
+    if (selectedTelemetry.length === 0) return null;
+
+    if (!trackLayout) {
+        return (
+            <div className="bg-white dark:bg-zinc-900 rounded-lg shadow p-6">
+                <h3 className="text-lg font-semibold mb-2 text-zinc-900 dark:text-zinc-100">Corner Breakdown</h3>
+                <p className="text-sm text-zinc-500">Use &quot;Detect corners&quot; on the track map to see per-corner metrics.</p>
+            </div>
+        );
+    }
+
+    const metres = (value: number | null) => value === null ? '—' : value.toFixed(0);
+    const delta = (value: number | null | undefined, digits: number, unit: string) => {
+        if (value === null || value === undefined) return null;
+        return (
+            <span className="block text-[10px] text-zinc-500">
+                {value >= 0 ? '+' : ''}{value.toFixed(digits)}{unit}
+            </span>
+        );
+    };
+    const rowClass = (rank: number | null | undefined) =>
+        rank !== null && rank !== undefined && rank <= 3
+            ? 'bg-red-50 dark:bg-red-950/40'
+            : '';
+
+    return (
+        <div className="bg-white dark:bg-zinc-900 rounded-lg shadow p-6">
+            <h3 className="text-lg font-semibold mb-1 text-zinc-900 dark:text-zinc-100">Corner Breakdown</h3>
+            <p className="text-xs text-zinc-500 mb-4">
+                Distances in metres from the start/finish line. Deltas are selected lap minus comparison lap;
+                highlighted rows are where the most time can be gained.
+            </p>
+            <div className="overflow-x-auto">
+                <table className="w-full text-xs text-zinc-800 dark:text-zinc-200">
+                    <thead>
+                        <tr className="text-left text-zinc-500 border-b border-zinc-200 dark:border-zinc-700">
+                            <th className="py-1">Corner</th>
+                            <th className="text-right">Brake on</th>
+                            <th className="text-right">Peak brake</th>
+                            <th className="text-right">Min speed</th>
+                            <th className="text-right">@</th>
+                            <th className="text-right">Throttle on</th>
+                            <th className="text-right">Exit speed</th>
+                            <th className="text-right">Time (s)</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(({ metrics, comparison }) => (
+                            <tr key={metrics.cornerId} className={`border-b border-zinc-100 dark:border-zinc-800 ${rowClass(comparison?.gainRank)}`}>
+                                <td className="py-1 font-semibold">
+                                    {metrics.cornerId}
+                                    {comparison?.gainRank && comparison.gainRank <= 3 && (
+                                        <span className="ml-1 text-red-600">#{comparison.gainRank}</span>
+                                    )}
+                                </td>
+                                <td className="text-right">
+                                    {metres(metrics.brakeOnDistance)}
+                                    {delta(comparison?.brakeOnDelta, 0, ' m')}
+                                </td>
+                                <td className="text-right">{metrics.peakBrake.toFixed(0)}%</td>
+                                <td className="text-right">
+                                    {metrics.minSpeed.toFixed(1)}
+                                    {delta(comparison?.minSpeedDelta, 1, ' km/h')}
+                                </td>
+                                <td className="text-right">{metres(metrics.minSpeedDistance)}</td>
+                                <td className="text-right">{metres(metrics.throttleOnDistance)}</td>
+                                <td className="text-right">
+                                    {metrics.exitSpeed.toFixed(1)}
+                                    {delta(comparison?.exitSpeedDelta, 1, ' km/h')}
+                                </td>
+                                <td className="text-right">
+                                    {(metrics.timeInCornerMs / 1000).toFixed(2)}
+                                    {delta(comparison ? comparison.timeDeltaMs / 1000 : null, 3, ' s')}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
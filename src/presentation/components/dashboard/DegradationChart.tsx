@@ -0,0 +1,186 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { ComposedChart, Line, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { useTelemetryContext } from '@/presentation/contexts/TelemetryContext';
+import { RepositoryFactory } from '@/infrastructure/factories/RepositoryFactory';
+import { AnalyzeTyreDegradation } from '@/application/use-cases/AnalyzeTyreDegradation';
+import { VehicleDegradation } from '@/domain/services/TyreDegradationService';
+import { IdealLapBuilder } from '@/domain/services/IdealLapBuilder';
+
+const FIT_COLORS = ['#3B82F6', '#10B981', '#A855F7', '#F97316'];
+
+type LapTimeBasis = 'raw' | 'corrected';
+
+/**
+ * DegradationChart Component
+ * Lap times of one car with the fitted degradation line and its 95% band for
+ * each stint. Out/in laps and outliers are drawn grey and left out of the fit.
+ * Lap times can be raw or fuel-corrected.
+ *
+ * Design Pattern: Observer Pattern (re-runs the analysis when the loaded session changes)
+ */
+export default function DegradationChart() {
+    const { lapData, loadedSession, selectedVehicleId, fuelCorrection } = useTelemetryContext();
+    const [vehicleId, setVehicleId] = useState<string | null>(null);
+    const [basis, setBasis] = useState<LapTimeBasis>('raw');
+
+    const analysis = useMemo((): VehicleDegradation[] => {
+        if (!loadedSession) return [];
+        try {
+            return new AnalyzeTyreDegradation(RepositoryFactory.getLapRepository())
+                .analyze(loadedSession, {}, basis === 'corrected' ? fuelCorrection : null);
+        } catch (error) {
+            console.warn('Degradation analysis failed:', error);
+            return [];
+        }
+    }, [loadedSession, basis, fuelCorrection]);
+
+    // Follow the selected car unless another one was picked here
+    const activeId = vehicleId ?? (selectedVehicleId ? IdealLapBuilder.sourceVehicleId(selectedVehicleId) : null);
+    const vehicle = analysis.find(v => v.vehicleId === activeId) ?? analysis[0] ?? null;
+
+    const chart = useMemo(() => {
+        if (!vehicle) return null;
+
+        const points = vehicle.stints.flatMap(s => s.points);
+        const used = points.filter(p => p.excluded === null).map(p => ({ lapNumber: p.lapNumber, lapTime: p.lapTimeS }));
+        const excluded = points.filter(p => p.excluded !== null).map(p => ({ lapNumber: p.lapNumber, lapTime: p.lapTimeS, reason: p.excluded }));
+
+        // Scale to the laps in the fit; pit laps would flatten everything else
+        const times = used.length > 0 ? used.map(p => p.lapTime) : points.map(p => p.lapTimeS);
+        const min = Math.min(...times);
+        const max = Math.max(...times);
+        const margin = Math.max(0.5, (max - min) * 0.2);
+
+        return {
+            used,
+            excluded,
+            domain: [Math.floor((min - margin) * 10) / 10, Math.ceil((max + margin) * 10) / 10] as [number, number]
+        };
+    }, [vehicle]);
+
+    if (lapData.size === 0 || !vehicle || !chart) return null;
+
+    const selectClass = 'px-2 py-1 text-xs bg-white dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded';
+    const signed = (value: number, digits: number) => `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+    return (
+        <div className="bg-white dark:bg-zinc-900 rounded-lg shadow p-6">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">Tyre Degradation</h3>
+                <div className="flex gap-2">
+                    <select value={basis} onChange={(e) => setBasis(e.target.value as LapTimeBasis)} className={selectClass}>
+                        <option value="raw">Raw lap times</option>
+                        <option value="corrected">Fuel-corrected</option>
+                    </select>
+                    <select value={vehicle.vehicleId} onChange={(e) => setVehicleId(e.target.value)} className={selectClass}>
+                        {analysis.map(v => (
+                            <option key={v.vehicleId} value={v.vehicleId}>{v.vehicleId}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            <ResponsiveContainer width="100%" height={300}>
+                <ComposedChart>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    <XAxis
+                        dataKey="lapNumber"
+                        type="number"
+                        domain={['dataMin', 'dataMax']}
+                        allowDecimals={false}
+                        stroke="#9CA3AF"
+                        label={{ value: 'Lap', position: 'insideBottom', offset: -5 }}
+                    />
+                    <YAxis
+                        type="number"
+                        domain={chart.domain}
+                        allowDataOverflow
+                        tickFormatter={(v: number) => v.toFixed(1)}
+                        stroke="#9CA3AF"
+                        label={{ value: 'Lap time (s)', angle: -90, position: 'insideLeft' }}
+                    />
+                    <Tooltip
+                        contentStyle={{ backgroundColor: '#1F2937', border: 'none', borderRadius: '8px' }}
+                        labelStyle={{ color: '#F3F4F6' }}
+                        formatter={(value) => (typeof value === 'number' ? value.toFixed(3) : value)}
+                    />
+                    <Legend />
+                    <Scatter data={chart.used} dataKey="lapTime" name="Lap time" fill="#F3F4F6" />
+                    <Scatter data={chart.excluded} dataKey="lapTime" name="Excluded" fill="#6B7280" />
+                    {vehicle.stints.filter(s => s.fit).flatMap(stint => {
+                        const color = FIT_COLORS[(stint.stintNumber - 1) % FIT_COLORS.length];
+                        return [
+                            <Line
+                                key={`fit-${stint.stintNumber}`}
+                                data={stint.curve}
+                                dataKey="fittedS"
+                                stroke={color}
+                                strokeWidth={2}
+                                dot={false}
+                                name={`Stint ${stint.stintNumber} fit`}
+                            />,
+                            <Line
+                                key={`lower-${stint.stintNumber}`}
+                                data={stint.curve}
+                                dataKey="lowerS"
+                                stroke={color}
+                                strokeDasharray="4 4"
+                                dot={false}
+                                legendType="none"
+                                name={`Stint ${stint.stintNumber} 95% low`}
+                            />,
+                            <Line
+                                key={`upper-${stint.stintNumber}`}
+                                data={stint.curve}
+                                dataKey="upperS"
+                                stroke={color}
+                                strokeDasharray="4 4"
+                                dot={false}
+                                legendType="none"
+                                name={`Stint ${stint.stintNumber} 95% high`}
+                            />
+                        ];
+                    })}
+                </ComposedChart>
+            </ResponsiveContainer>
+
+            <table className="w-full mt-4 text-xs text-zinc-800 dark:text-zinc-200">
+                <thead>
+                    <tr className="text-left text-zinc-500 border-b border-zinc-200 dark:border-zinc-700">
+                        <th className="py-1">Stint</th>
+                        <th>Laps</th>
+                        <th className="text-right">Degradation (s/lap)</th>
+                        <th className="text-right">95% interval</th>
+                        <th className="text-right">R²</th>
+                        <th className="text-right">Laps fitted</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {vehicle.stints.map(stint => (
+                        <tr key={stint.stintNumber} className="border-b border-zinc-100 dark:border-zinc-800">
+                            <td className="py-1">{stint.stintNumber}</td>
+                            <td>{stint.startLap}–{stint.endLap}</td>
+                            {stint.fit ? (
+                                <>
+                                    <td className="text-right font-semibold">{signed(stint.fit.degradationSPerLap, 3)}</td>
+                                    <td className="text-right">
+                                        {signed(stint.fit.confidenceLow, 3)} … {signed(stint.fit.confidenceHigh, 3)}
+                                    </td>
+                                    <td className="text-right">{stint.fit.rSquared.toFixed(2)}</td>
+                                    <td className="text-right">{stint.fit.lapsUsed}</td>
+                                </>
+                            ) : (
+                                <td colSpan={4} className="text-right text-zinc-500">Too few clean laps to fit</td>
+                            )}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <p className="mt-2 text-xs text-zinc-500">
+                Out laps, in laps, caution laps and outliers (traffic) are excluded from the fit.
+            </p>
+        </div>
+    );
+}
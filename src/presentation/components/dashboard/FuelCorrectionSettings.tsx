@@ -0,0 +1,59 @@
+'use client';
+
+import React from 'react';
+import { FuelCorrectionOptions } from '@/domain/services/FuelCorrectionModel';
+
+interface FuelCorrectionSettingsProps {
+    value: FuelCorrectionOptions;
+    onChange: (options: FuelCorrectionOptions) => void;
+}
+
+/**
+ * FuelCorrectionSettings Component
+ * Fuel burn per lap and time cost per kilogram for fuel-corrected lap times.
+ *
+ * Design Pattern: Controlled Component
+ */
+export default function FuelCorrectionSettings({ value, onChange }: FuelCorrectionSettingsProps) {
+    const update = (field: keyof FuelCorrectionOptions, input: string) => {
+        const parsed = parseFloat(input);
+        if (!isNaN(parsed) && parsed >= 0) {
+            onChange({ ...value, [field]: parsed });
+        }
+    };
+
+    const inputClass = 'block w-full px-2 py-1 text-xs bg-white dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded';
+
+    return (
+        <div className="space-y-2">
+            <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                Fuel Correction
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+                <label className="text-xs text-zinc-600 dark:text-zinc-400">
+                    Burn (kg/lap)
+                    <input
+                        type="number"
+                        min={0}
+                        step={0.1}
+                        value={value.burnKgPerLap}
+                        onChange={(e) => update('burnKgPerLap', e.target.value)}
+                        className={inputClass}
+                    />
+                </label>
+                <label className="text-xs text-zinc-600 dark:text-zinc-400">
+                    Penalty (s/kg)
+                    <input
+                        type="number"
+                        min={0}
+                        step={0.005}
+                        value={value.secondsPerKg}
+                        onChange={(e) => update('secondsPerKg', e.target.value)}
+                        className={inputClass}
+                    />
+                </label>
+            </div>
+            <p className="text-xs text-zinc-500">Corrected times are adjusted to the fuel load of the last lap.</p>
+        </div>
+    );
+}
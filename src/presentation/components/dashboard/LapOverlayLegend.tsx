@@ -0,0 +1,118 @@
+'use client';
+
+import React from 'react';
+import { useTelemetryContext } from '@/presentation/contexts/TelemetryContext';
+import { Lap } from '@/domain/entities/Lap';
+import { IdealLapBuilder } from '@/domain/services/IdealLapBuilder';
+
+/**
+ * LapOverlayLegend Component
+ * Lists the overlaid laps in order with their colors; each can be hidden,
+ * made the reference or removed. Quick actions add groups of laps; the best
+ * laps are picked from valid laps only.
+ *
+ * Design Pattern: Observer Pattern (reads and updates selection via Context)
+ */
+export default function LapOverlayLegend() {
+    const context = useTelemetryContext();
+    const { lapRefs, lapData, telemetryData, selectedVehicleId } = context;
+
+    if (lapRefs.length === 0) return null;
+
+    const lapLabel = (vehicleId: string, lap: number) => {
+        if (!IdealLapBuilder.isIdeal(vehicleId)) {
+            const time = lapData.get(vehicleId)?.find(l => l.lapNumber === lap)?.lapTimeFormatted ?? '';
+            return `${vehicleId} L${lap} ${time}`;
+        }
+        // Ideal laps have no Lap entity; their time is the span of the stitched frames
+        const frames = telemetryData.get(`${vehicleId}-${lap}`) || [];
+        const ms = frames.length > 1
+            ? frames[frames.length - 1].timestamp.getTime() - frames[0].timestamp.getTime()
+            : null;
+        return `${IdealLapBuilder.sourceVehicleId(vehicleId)} ideal ${ms === null ? '' : `${(ms / 1000).toFixed(3)}s`}`;
+    };
+
+    const addAllLapsOfCar = () => {
+        if (!selectedVehicleId) return;
+        const vehicleId = IdealLapBuilder.sourceVehicleId(selectedVehicleId);
+        const laps = [...(lapData.get(vehicleId) || [])].sort((a, b) => a.lapNumber - b.lapNumber);
+        context.addLapRefs(laps.map(l => ({ vehicleId, lap: l.lapNumber })));
+    };
+
+    const addTopBestLaps = (count: number) => {
+        const bests: Lap[] = [];
+        for (const laps of lapData.values()) {
+            const best = laps
+                .filter(lap => lap.isValid)
+                .reduce<Lap | null>((b, lap) => (!b || lap.isFasterThan(b) ? lap : b), null);
+            if (best) bests.push(best);
+        }
+        bests.sort((a, b) => a.durationMs - b.durationMs);
+        context.addLapRefs(bests.slice(0, count).map(l => ({ vehicleId: l.vehicle.id, lap: l.lapNumber })));
+    };
+
+    const buttonClass = 'px-2 py-1 text-xs rounded bg-zinc-200 dark:bg-zinc-700 hover:bg-zinc-300';
+
+    return (
+        <div className="bg-white dark:bg-zinc-900 rounded-lg shadow p-4 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h3 className="text-sm font-semibold text-zinc-900 dark:text-zinc-100">Laps</h3>
+                <div className="flex gap-1">
+                    <button type="button" onClick={addAllLapsOfCar} disabled={!selectedVehicleId} className={buttonClass}>
+                        + All laps of this car
+                    </button>
+                    <button type="button" onClick={() => addTopBestLaps(5)} className={buttonClass}>
+                        + Top 5 best laps
+                    </button>
+                </div>
+            </div>
+
+            <ul className="flex flex-wrap gap-2">
+                {lapRefs.map((ref, index) => (
+                    <li
+                        key={`${ref.vehicleId}-${ref.lap}`}
+                        className={`flex items-center gap-2 px-2 py-1 rounded border text-xs ${ref.visible
+                            ? 'border-zinc-300 dark:border-zinc-600 text-zinc-800 dark:text-zinc-200'
+                            : 'border-dashed border-zinc-300 dark:border-zinc-700 text-zinc-400'
+                            }`}
+                    >
+                        <button
+                            type="button"
+                            onClick={() => context.toggleLapVisibility(ref.vehicleId, ref.lap)}
+                            title={ref.visible ? 'Hide' : 'Show'}
+                            className="flex items-center gap-2"
+                        >
+                            <span
+                                className="inline-block w-3 h-3 rounded-full"
+                                style={{ backgroundColor: ref.visible ? ref.color : 'transparent', border: `2px solid ${ref.color}` }}
+                            />
+                            {lapLabel(ref.vehicleId, ref.lap)}
+                        </button>
+                        {index === 0 && <span className="text-zinc-500">ref</span>}
+                        {index === 1 && <span className="text-zinc-500">cmp</span>}
+                        {index > 0 && (
+                            <button
+                                type="button"
+                                onClick={() => context.selectVehicleAndLap(ref.vehicleId, ref.lap)}
+                                title="Make reference"
+                                className="text-zinc-500 hover:text-blue-600"
+                            >
+                                ★
+                            </button>
+                        )}
+                        {index > 0 && (
+                            <button
+                                type="button"
+                                onClick={() => context.removeLapRef(ref.vehicleId, ref.lap)}
+                                title="Remove"
+                                className="text-zinc-500 hover:text-red-600"
+                            >
+                                ×
+                            </button>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import { useTelemetryContext } from '@/presentation/contexts/TelemetryContext';
+import { RepositoryFactory } from '@/infrastructure/factories/RepositoryFactory';
+import { ReconstructLaps, ReconstructLapsResponse } from '@/application/use-cases/ReconstructLaps';
+import { TimingLine } from '@/domain/entities/TimingLine';
+import { TelemetryFrame } from '@/domain/entities/TelemetryFrame';
+import { GeoCalculator } from '@/domain/services/GeoCalculator';
+import { LapDistanceMethod } from '@/domain/services/LapDistanceCalculator';
+
+interface LapReconstructionPanelProps {
+    vehicleId: string;
+    referenceFrames: TelemetryFrame[];
+    loadVehicleTelemetry: (vehicleId: string) => Promise<void>;
+    lapDistanceMethod: LapDistanceMethod;
+}
+
+interface LineInputs {
+    lat1: string;
+    lon1: string;
+    lat2: string;
+    lon2: string;
+}
+
+/**
+ * LapReconstructionPanel Component
+ * Rebuilds a vehicle's laps from GPS start/finish line crossings.
+ *
+ * Design Pattern: Command Pattern (delegates to ReconstructLaps use case)
+ */
+export default function LapReconstructionPanel({
+    vehicleId,
+    referenceFrames,
+    loadVehicleTelemetry,
+    lapDistanceMethod
+}: LapReconstructionPanelProps) {
+    const context = useTelemetryContext();
+    const [line, setLine] = useState<LineInputs>({ lat1: '', lon1: '', lat2: '', lon2: '' });
+    const [replaceLaps, setReplaceLaps] = useState(false);
+    const [status, setStatus] = useState('');
+    const [result, setResult] = useState<ReconstructLapsResponse | null>(null);
+
+    /**
+     * Place the line across the track at the first GPS fix of the selected lap,
+     * perpendicular to the direction of travel
+     */
+    const setLineFromSelectedLap = useCallback(() => {
+        const fixes = referenceFrames.filter(f =>
+            GeoCalculator.isValidFix({ latitude: f.gpsLatitude, longitude: f.gpsLongitude })
+        );
+        if (fixes.length < 2) {
+            setStatus('✗ Selected lap has no usable GPS fixes');
+            return;
+        }
+
+        const origin = { latitude: fixes[0].gpsLatitude, longitude: fixes[0].gpsLongitude };
+        const ahead = fixes[Math.min(10, fixes.length - 1)];
+        const step = GeoCalculator.toLocalMeters(origin, { latitude: ahead.gpsLatitude, longitude: ahead.gpsLongitude });
+        const heading = Math.atan2(step.x, step.y) * 180 / Math.PI;
+
+        const timingLine = TimingLine.fromCenter(origin, heading, 30);
+        setLine({
+            lat1: timingLine.start.latitude.toFixed(7),
+            lon1: timingLine.start.longitude.toFixed(7),
+            lat2: timingLine.end.latitude.toFixed(7),
+            lon2: timingLine.end.longitude.toFixed(7)
+        });
+    }, [referenceFrames]);
+
+    const rebuildLaps = useCallback(async () => {
+        try {
+            const timingLine = new TimingLine({
+                start: { latitude: parseFloat(line.lat1), longitude: parseFloat(line.lon1) },
+                end: { latitude: parseFloat(line.lat2), longitude: parseFloat(line.lon2) }
+            });
+
+            setStatus(`Loading all telemetry for ${vehicleId}...`);
+            context.setLoading(true);
+            await loadVehicleTelemetry(vehicleId);
+
+            setStatus('Finding timing line crossings...');
+            const useCase = new ReconstructLaps(
+                RepositoryFactory.getTelemetryRepository(),
+                RepositoryFactory.getLapRepository()
+            );
+            const response = await useCase.execute({ vehicleId, timingLine, replaceLaps, lapDistance: lapDistanceMethod });
+            setResult(response);
+
+            if (replaceLaps) {
+                context.setLapData(vehicleId, response.laps);
+
+                // Relabelled frames replace what was loaded under the logger's lap numbers
+                const framesByLap = new Map<number, TelemetryFrame[]>();
+                for (const frame of response.frames) {
+                    const lapFrames = framesByLap.get(frame.lap) || [];
+                    lapFrames.push(frame);
+                    framesByLap.set(frame.lap, lapFrames);
+                }
+                context.clearTelemetryData(vehicleId);
+                for (const [lap, frames] of framesByLap.entries()) {
+                    context.setTelemetryData(vehicleId, lap, frames);
+                }
+            }
+
+            setStatus(`✓ ${response.laps.length} laps from ${response.crossingCount} crossings, ${response.discrepancies.length} discrepancies`);
+        } catch (error) {
+            setStatus(`✗ Error: ${error instanceof Error ? error.message : 'Unknown'}`);
+        } finally {
+            context.setLoading(false);
+        }
+    }, [line, vehicleId, replaceLaps, loadVehicleTelemetry, lapDistanceMethod, context]);
+
+    const inputClass = 'w-full px-2 py-1 text-xs bg-white dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded';
+
+    return (
+        <div className="space-y-2">
+            <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                Rebuild Laps from GPS
+            </label>
+            <div className="grid grid-cols-2 gap-1">
+                {(['lat1', 'lon1', 'lat2', 'lon2'] as const).map(key => (
+                    <input
+                        key={key}
+                        value={line[key]}
+                        onChange={(e) => setLine({ ...line, [key]: e.target.value })}
+                        placeholder={key.startsWith('lat') ? 'Latitude' : 'Longitude'}
+                        className={inputClass}
+                    />
+                ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+                <button
+                    type="button"
+                    onClick={setLineFromSelectedLap}
+                    disabled={referenceFrames.length === 0}
+                    className="px-3 py-1 text-xs rounded bg-zinc-200 dark:bg-zinc-700 hover:bg-zinc-300 disabled:opacity-50"
+                >
+                    Line at selected lap start
+                </button>
+                <label className="flex items-center gap-1 text-xs text-zinc-600 dark:text-zinc-400">
+                    <input type="checkbox" checked={replaceLaps} onChange={(e) => setReplaceLaps(e.target.checked)} />
+                    Replace CSV laps
+                </label>
+                <button
+                    type="button"
+                    onClick={rebuildLaps}
+                    className="px-3 py-1 text-xs rounded bg-blue-600 text-white hover:bg-blue-700 ml-auto"
+                >
+                    Rebuild
+                </button>
+            </div>
+
+            {status && <p className="text-xs text-zinc-600 dark:text-zinc-400">{status}</p>}
+
+            {result && result.discrepancies.length > 0 && (
+                <table className="w-full text-xs">
+                    <thead>
+                        <tr className="text-left text-zinc-500">
+                            <th>GPS lap</th>
+                            <th>CSV lap</th>
+                            <th>Issue</th>
+                            <th className="text-right">Δ (s)</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {result.discrepancies.map(d => (
+                            <tr key={d.reconstructedLap}>
+                                <td>{d.reconstructedLap}</td>
+                                <td>{d.timedLap ?? '—'}</td>
+                                <td>{d.kind}</td>
+                                <td className="text-right">{d.deltaMs !== null ? (d.deltaMs / 1000).toFixed(3) : '—'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+}
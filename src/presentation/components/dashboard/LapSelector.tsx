@@ -1,26 +1,158 @@
 'use client';
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { useTelemetryContext } from '@/presentation/contexts/TelemetryContext';
 import { TelemetryCSVParser } from '@/infrastructure/parsers/TelemetryCSVParser';
 import { LapTimeCSVParser } from '@/infrastructure/parsers/LapTimeCSVParser';
 import { RepositoryFactory } from '@/infrastructure/factories/RepositoryFactory';
+import { TelemetryFileIndexer } from '@/infrastructure/indexing/TelemetryFileIndexer';
+import { TelemetryFileIndex } from '@/infrastructure/indexing/TelemetryFileIndex';
+import { ChannelMappingProfile } from '@/domain/entities/ChannelMappingProfile';
+import { TOYOTA_GR_CUP_PROFILE } from '@/infrastructure/profiles/DefaultChannelProfiles';
+import { ResampleOptions } from '@/domain/services/TelemetryResampler';
+import { LapDistanceMethod } from '@/domain/services/LapDistanceCalculator';
+import { IdealLapBuilder } from '@/domain/services/IdealLapBuilder';
+import { FuelCorrectionModel } from '@/domain/services/FuelCorrectionModel';
+import { Lap } from '@/domain/entities/Lap';
+import { SessionImporter, SessionFileKind } from '@/infrastructure/importers/SessionImporter';
+import ChannelProfileEditor from './ChannelProfileEditor';
+import ResamplingSettings from './ResamplingSettings';
+import LapReconstructionPanel from './LapReconstructionPanel';
+import ComparisonPicker from './ComparisonPicker';
+import FuelCorrectionSettings from './FuelCorrectionSettings';
 
 export default function LapSelector() {
     const context = useTelemetryContext();
     const [uploadStatus, setUploadStatus] = useState<string>('');
     const [telemetryFile, setTelemetryFile] = useState<File | null>(null);
     const [loadedRows, setLoadedRows] = useState(0);
+    const [indexed, setIndexed] = useState<{ profileId: string; index: TelemetryFileIndex | null } | null>(null);
+    const [profiles, setProfiles] = useState<ChannelMappingProfile[]>([TOYOTA_GR_CUP_PROFILE]);
+    const [activeProfileId, setActiveProfileId] = useState(TOYOTA_GR_CUP_PROFILE.id);
+    const [suggestedProfileId, setSuggestedProfileId] = useState<string | null>(null);
+    const [resampleOptions, setResampleOptions] = useState<ResampleOptions | null>(null);
+    const [lapDistanceMethod, setLapDistanceMethod] = useState<LapDistanceMethod>('speed');
+    const [missingSessionFiles, setMissingSessionFiles] = useState<SessionFileKind[]>([]);
+    const pendingLoads = useRef(new Set<string>()); // vehicleId-lap keys being parsed
+    const folderInput = useRef<HTMLInputElement>(null);
+    const activeProfile = profiles.find(p => p.id === activeProfileId) ?? TOYOTA_GR_CUP_PROFILE;
+    // The index locates rows through the profile's columns, so it only serves frames parsed with that profile
+    const telemetryIndex = indexed?.profileId === activeProfile.id ? indexed.index : null;
+    const isIndexing = telemetryFile !== null && indexed?.profileId !== activeProfile.id;
 
+    // Load saved profiles once
+    useEffect(() => {
+        const load = async () => {
+            try {
+                setProfiles(await RepositoryFactory.getChannelProfileRepository().getAllProfiles());
+            } catch (error) {
+                // Keep the built-in profile
+                console.warn('Failed to load channel profiles:', error);
+            }
+        };
+        load();
+    }, []);
 
-    const handleTelemetryUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
-        const file = event.target.files?.[0];
-        if (!file) return;
+    // React has no webkitdirectory attribute, so the folder picker sets it on the element
+    useEffect(() => {
+        if (folderInput.current) folderInput.current.webkitdirectory = true;
+    }, []);
+
+    const refreshProfiles = useCallback(async () => {
+        const all = await RepositoryFactory.getChannelProfileRepository().getAllProfiles();
+        setProfiles(all);
+        return all;
+    }, []);
 
+    /**
+     * Drop every loaded lap from the context and the telemetry repository,
+     * so the laps reload with the new settings instead of being added twice
+     */
+    const clearLoadedTelemetry = useCallback(async () => {
+        context.clearTelemetryData();
+        await RepositoryFactory.getTelemetryRepository().clear();
+    }, [context]);
+
+    const handleSelectProfile = useCallback(async (profileId: string) => {
+        setActiveProfileId(profileId);
+        // Loaded frames were mapped with the previous profile
+        await clearLoadedTelemetry();
+    }, [clearLoadedTelemetry]);
+
+    const handleResampleChange = useCallback(async (options: ResampleOptions | null) => {
+        setResampleOptions(options);
+        // Reload loaded laps on the new time base
+        await clearLoadedTelemetry();
+    }, [clearLoadedTelemetry]);
+
+    const handleLapDistanceChange = useCallback(async (method: LapDistanceMethod) => {
+        setLapDistanceMethod(method);
+        // Loaded frames carry distances from the previous method
+        await clearLoadedTelemetry();
+    }, [clearLoadedTelemetry]);
+
+    const handleSaveProfile = useCallback(async (profile: ChannelMappingProfile) => {
+        await RepositoryFactory.getChannelProfileRepository().saveProfile(profile);
+        await refreshProfiles();
+        await handleSelectProfile(profile.id);
+    }, [refreshProfiles, handleSelectProfile]);
+
+    const handleDeleteProfile = useCallback(async (profileId: string) => {
+        await RepositoryFactory.getChannelProfileRepository().deleteProfile(profileId);
+        const all = await refreshProfiles();
+        await handleSelectProfile(all.some(p => p.id === profileId) ? profileId : TOYOTA_GR_CUP_PROFILE.id);
+    }, [refreshProfiles, handleSelectProfile]);
+
+
+    const indexTelemetryFile = useCallback(async (file: File) => {
         setTelemetryFile(file);
+        setIndexed(null);
         setLoadedRows(0);
-        setUploadStatus('File selected. Select a vehicle and lap to load data.');
-    }, []);
+        setUploadStatus('Indexing telemetry file...');
+
+        try {
+            const suggested = await new TelemetryCSVParser().suggestProfile(file, profiles);
+            setSuggestedProfileId(suggested?.id ?? null);
+        } catch (error) {
+            console.warn('Profile suggestion failed:', error);
+            setSuggestedProfileId(null);
+        }
+    }, [profiles]);
+
+    // Index the file with the active profile, again whenever another profile is chosen;
+    // one pass over the file, later lap loads read only the indexed chunks
+    useEffect(() => {
+        if (!telemetryFile || indexed?.profileId === activeProfile.id) return;
+        let current = true;
+
+        const buildIndex = async () => {
+            try {
+                const index = await new TelemetryFileIndexer().buildIndex(telemetryFile, {
+                    profile: activeProfile,
+                    onProgress: (fraction) => {
+                        if (current) setUploadStatus(`Indexing telemetry file... ${Math.round(fraction * 100)}%`);
+                    }
+                });
+                if (!current) return;
+                setIndexed({ profileId: activeProfile.id, index });
+                setUploadStatus(`✓ Indexed ${index.totalRows.toLocaleString()} rows for ${index.vehicleIds.length} vehicles. Select a vehicle and lap to load data.`);
+            } catch (error) {
+                if (!current) return;
+                // Fall back to full scans when the file cannot be indexed
+                console.warn('Telemetry indexing failed:', error);
+                setIndexed({ profileId: activeProfile.id, index: null });
+                setUploadStatus('File selected (not indexed). Select a vehicle and lap to load data.');
+            }
+        };
+        buildIndex();
+        return () => { current = false; };
+    }, [telemetryFile, activeProfile, indexed]);
+
+    const handleTelemetryUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        await indexTelemetryFile(file);
+    }, [indexTelemetryFile]);
 
     const loadTelemetryData = useCallback(async (vehicleId: string, lap: number) => {
         if (!telemetryFile) return;
@@ -34,7 +166,11 @@ export default function LapSelector() {
             // Use a large maxRows for the MATCHED data (e.g. 100k frames is plenty for one lap)
             const frames = await parser.parseFile(telemetryFile, {
                 maxRows: 100000,
-                filter: { vehicleId, lap }
+                filter: { vehicleId, lap },
+                index: telemetryIndex ?? undefined,
+                profile: activeProfile,
+                resample: resampleOptions ?? undefined,
+                lapDistance: lapDistanceMethod
             });
 
             if (frames.length === 0) {
@@ -45,7 +181,9 @@ export default function LapSelector() {
 
             console.log(`Loaded ${frames.length} frames for ${vehicleId} Lap ${lap}`);
 
+            // Replace, not add to, whatever was loaded for this lap before
             const repository = RepositoryFactory.getTelemetryRepository();
+            await repository.clearLap(vehicleId, lap);
             await repository.saveTelemetry(frames);
 
             // Update context
@@ -58,19 +196,80 @@ export default function LapSelector() {
             console.error('Telemetry load error:', error);
             context.setLoading(false);
         }
-    }, [telemetryFile, context]);
+    }, [telemetryFile, telemetryIndex, activeProfile, resampleOptions, lapDistanceMethod, context]);
+
+    /**
+     * Load every lap of a vehicle into the telemetry repository
+     * (used when lap boundaries are rebuilt from GPS)
+     */
+    const loadVehicleTelemetry = useCallback(async (vehicleId: string) => {
+        if (!telemetryFile) {
+            throw new Error('Upload a telemetry file first');
+        }
+
+        const parser = new TelemetryCSVParser();
+        const frames = await parser.parseFile(telemetryFile, {
+            maxRows: 5000000,
+            filter: { vehicleId },
+            index: telemetryIndex ?? undefined,
+            profile: activeProfile,
+            resample: resampleOptions ?? undefined,
+            lapDistance: lapDistanceMethod
+        });
+
+        const repository = RepositoryFactory.getTelemetryRepository();
+        await repository.clearVehicle(vehicleId);
+        await repository.saveTelemetry(frames);
+    }, [telemetryFile, telemetryIndex, activeProfile, resampleOptions, lapDistanceMethod]);
 
-    // Trigger load when selection changes
+    // Trigger load when a lap is added to the selection list
+    // (wait for indexing so we never fall back to a full scan; ideal laps are built, not loaded)
     useEffect(() => {
-        if (context.selectedVehicleId && context.selectedLap !== null && telemetryFile) {
-            const key = `${context.selectedVehicleId}-${context.selectedLap}`;
-            const hasData = context.telemetryData.has(key);
+        if (!telemetryFile || isIndexing) return;
 
-            if (!hasData) {
-                loadTelemetryData(context.selectedVehicleId, context.selectedLap);
+        const missing = context.lapRefs.map(ref => [ref.vehicleId, ref.lap] as const).filter(([vehicleId, lap]) => {
+            const key = `${vehicleId}-${lap}`;
+            return !IdealLapBuilder.isIdeal(vehicleId) && !context.telemetryData.has(key) && !pendingLoads.current.has(key);
+        });
+        if (missing.length === 0) return;
+
+        // One lap at a time through the same parser path
+        (async () => {
+            for (const [vehicleId, lap] of missing) {
+                const key = `${vehicleId}-${lap}`;
+                pendingLoads.current.add(key);
+                try {
+                    await loadTelemetryData(vehicleId, lap);
+                } finally {
+                    pendingLoads.current.delete(key);
+                }
             }
+        })();
+    }, [context.lapRefs, telemetryFile, isIndexing, context.telemetryData, loadTelemetryData]);
+
+    /**
+     * Save laps and publish them per vehicle
+     * @returns Number of vehicles
+     */
+    const publishLaps = useCallback(async (laps: Lap[]) => {
+        const repository = RepositoryFactory.getLapRepository();
+        await repository.saveLaps(laps);
+
+        const vehicleMap = new Map<string, Lap[]>();
+        for (const lap of laps) {
+            const vehicleId = lap.vehicle.id;
+            const existing = vehicleMap.get(vehicleId) || [];
+            existing.push(lap);
+            vehicleMap.set(vehicleId, existing);
+        }
+
+        for (const [vehicleId, vehicleLaps] of vehicleMap.entries()) {
+            context.setLapData(vehicleId, vehicleLaps);
         }
-    }, [context.selectedVehicleId, context.selectedLap, telemetryFile, context.telemetryData, loadTelemetryData]);
+
+        console.log('Loaded lap data for vehicles:', Array.from(vehicleMap.keys()));
+        return vehicleMap.size;
+    }, [context]);
 
     const handleLapTimeUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
@@ -82,41 +281,97 @@ export default function LapSelector() {
 
             const parser = new LapTimeCSVParser();
             const laps = await parser.parseFile(file);
+            const vehicleCount = await publishLaps(laps);
 
-            const repository = RepositoryFactory.getLapRepository();
-            await repository.saveLaps(laps);
+            setUploadStatus(`✓ Loaded ${laps.length} laps for ${vehicleCount} vehicles`);
+            context.setLoading(false);
+        } catch (error) {
+            setUploadStatus(`✗ Error: ${error instanceof Error ? error.message : 'Unknown'}`);
+            context.setLoading(false);
+        }
+    }, [context, publishLaps]);
 
-            const vehicleMap = new Map<string, typeof laps>();
-            for (const lap of laps) {
-                const vehicleId = lap.vehicle.id;
-                const existing = vehicleMap.get(vehicleId) || [];
-                existing.push(lap);
-                vehicleMap.set(vehicleId, existing);
-            }
+    /**
+     * Import a whole race folder (directory picker) or its zip
+     */
+    const handleSessionUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files ?? []);
+        if (files.length === 0) return;
 
-            for (const [vehicleId, vehicleLaps] of vehicleMap.entries()) {
-                context.setLapData(vehicleId, vehicleLaps);
-            }
+        try {
+            setUploadStatus('Importing session...');
+            context.setLoading(true);
+
+            const importer = new SessionImporter();
+            const zip = files.find(f => /\.zip$/i.test(f.name));
+            const result = zip
+                ? await importer.importZip(zip, { profiles })
+                : await importer.importFiles(files.filter(f => /\.csv$/i.test(f.name)), { profiles });
 
-            console.log('Loaded lap data for vehicles:', Array.from(vehicleMap.keys()));
-            setUploadStatus(`✓ Loaded ${laps.length} laps for ${vehicleMap.size} vehicles`);
+            // A new session replaces the previous one in the repositories as well
+            context.clearAllData();
+            await RepositoryFactory.getLapRepository().clear();
+            await RepositoryFactory.getTelemetryRepository().clear();
+            context.setRaceSession(result.session);
+            const vehicleCount = await publishLaps(result.laps);
+            setMissingSessionFiles(result.missing);
+            result.warnings.forEach(warning => console.warn(warning));
+
+            setUploadStatus(`✓ Imported ${result.laps.length} laps for ${vehicleCount} vehicles`);
             context.setLoading(false);
+
+            if (result.telemetryFile) {
+                await indexTelemetryFile(result.telemetryFile);
+            }
         } catch (error) {
             setUploadStatus(`✗ Error: ${error instanceof Error ? error.message : 'Unknown'}`);
             context.setLoading(false);
         }
-    }, [context]);
+    }, [context, profiles, publishLaps, indexTelemetryFile]);
 
     const vehicleIds = Array.from(context.lapData.keys());
     const selectedVehicleLaps = context.selectedVehicleId
         ? context.lapData.get(context.selectedVehicleId) || []
         : [];
+    // Fuel-corrected times for the lap list, corrected to the session's last lap
+    const lastLapNumber = Math.max(0, ...Array.from(context.lapData.values()).flat().map(l => l.lapNumber));
+    const fuelModel = new FuelCorrectionModel(context.fuelCorrection);
+    const correctedLapTime = (lap: Lap) => fuelModel.correct(lap, lastLapNumber).lapTimeFormatted;
+    const selectedIndexEntry = telemetryIndex && context.selectedVehicleId && context.selectedLap !== null
+        ? telemetryIndex.getEntry(context.selectedVehicleId, context.selectedLap)
+        : undefined;
 
     return (
         <div className="bg-white dark:bg-zinc-900 rounded-lg shadow p-6 space-y-6">
             <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">Data Selection</h3>
 
             <div className="space-y-4">
+                <div>
+                    <label className="block text-sm font-medium mb-2 text-zinc-700 dark:text-zinc-300">
+                        Import Session Folder or Zip
+                    </label>
+                    <div className="flex gap-2">
+                        <input
+                            ref={folderInput}
+                            type="file"
+                            multiple
+                            onChange={handleSessionUpload}
+                            className="block w-full text-sm text-zinc-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-purple-50 file:text-purple-700 hover:file:bg-purple-100"
+                        />
+                        <input
+                            type="file"
+                            accept=".zip"
+                            onChange={handleSessionUpload}
+                            className="block w-full text-sm text-zinc-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-purple-50 file:text-purple-700 hover:file:bg-purple-100"
+                        />
+                    </div>
+                    {missingSessionFiles.length > 0 && (
+                        <p className="mt-2 text-xs text-amber-700 dark:text-amber-400">
+                            Missing from session: {missingSessionFiles.join(', ')}
+                        </p>
+                    )}
+                </div>
+
                 <div>
                     <label className="block text-sm font-medium mb-2 text-zinc-700 dark:text-zinc-300">
                         Upload Telemetry CSV
@@ -129,6 +384,30 @@ export default function LapSelector() {
                     />
                 </div>
 
+                <ChannelProfileEditor
+                    profiles={profiles}
+                    activeProfile={activeProfile}
+                    suggestedProfileId={suggestedProfileId}
+                    onSelect={handleSelectProfile}
+                    onSave={handleSaveProfile}
+                    onDelete={handleDeleteProfile}
+                />
+
+                <ResamplingSettings value={resampleOptions} onChange={handleResampleChange} />
+
+                <div>
+                    <label className="block text-sm font-medium mb-2 text-zinc-700 dark:text-zinc-300">
+                        Lap Distance From
+                    </label>
+                    <select
+                        value={lapDistanceMethod}
+                        onChange={(e) => handleLapDistanceChange(e.target.value as LapDistanceMethod)}
+                        className="block w-full px-3 py-2 bg-white dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-md"
+                    >
+                        <option value="speed">Integrated speed</option>
+                        <option value="gps">GPS distance</option>
+                    </select>
+                </div>
 
 
                 <div>
@@ -192,12 +471,34 @@ export default function LapSelector() {
                         <option value="">-- Select Lap --</option>
                         {selectedVehicleLaps.map(lap => (
                             <option key={lap.lapNumber} value={lap.lapNumber}>
-                                Lap {lap.lapNumber} ({lap.lapTimeFormatted})
+                                Lap {lap.lapNumber} ({lap.lapTimeFormatted} • fuel-corr. {correctedLapTime(lap)})
                             </option>
                         ))}
                     </select>
+                    {selectedIndexEntry && (
+                        <p className="mt-2 text-xs text-zinc-500" title={selectedIndexEntry.channels.join(', ')}>
+                            {selectedIndexEntry.rowCount.toLocaleString()} rows • {selectedIndexEntry.channels.length} channels
+                        </p>
+                    )}
                 </div>
             )}
+
+            {vehicleIds.length > 0 && (
+                <FuelCorrectionSettings value={context.fuelCorrection} onChange={context.setFuelCorrection} />
+            )}
+
+            {selectedVehicleLaps.length > 0 && <ComparisonPicker />}
+
+            {context.selectedVehicleId && telemetryFile && (
+                <LapReconstructionPanel
+                    vehicleId={context.selectedVehicleId}
+                    referenceFrames={context.selectedLap !== null
+                        ? context.telemetryData.get(`${context.selectedVehicleId}-${context.selectedLap}`) || []
+                        : []}
+                    loadVehicleTelemetry={loadVehicleTelemetry}
+                    lapDistanceMethod={lapDistanceMethod}
+                />
+            )}
         </div>
     );
 }
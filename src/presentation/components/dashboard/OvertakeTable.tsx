@@ -0,0 +1,99 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { useTelemetryContext } from '@/presentation/contexts/TelemetryContext';
+import { RepositoryFactory } from '@/infrastructure/factories/RepositoryFactory';
+import { DetectOvertakes } from '@/application/use-cases/DetectOvertakes';
+
+/**
+ * OvertakeTable Component
+ * Every pass found in the loaded telemetry: when, where and between which
+ * cars. The car filter also decides which passes the track map marks, and
+ * clicking a pass loads the passing car's lap.
+ *
+ * Design Pattern: Observer Pattern (re-runs detection when the loaded session changes)
+ */
+export default function OvertakeTable() {
+    const {
+        lapData, loadedSession, trackLayout,
+        overtakes, overtakeFilter, setOvertakes, setOvertakeFilter, selectVehicleAndLap
+    } = useTelemetryContext();
+
+    // The loaded session holds only laps from the lap files, so synthetic ideal laps stay out
+    useEffect(() => {
+        if (!loadedSession) return;
+
+        try {
+            const useCase = new DetectOvertakes(RepositoryFactory.getLapRepository());
+            setOvertakes(useCase.detect(loadedSession, trackLayout));
+        } catch (error) {
+            console.warn('Overtake detection failed:', error);
+            setOvertakes([]);
+        }
+    }, [loadedSession, trackLayout, setOvertakes]);
+
+    if (lapData.size === 0 || overtakes.length === 0) return null;
+
+    const vehicles = Array.from(new Set(overtakes.flatMap(o => [o.passingVehicleId, o.passedVehicleId])))
+        .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    const shown = overtakes.filter(o =>
+        !overtakeFilter || o.passingVehicleId === overtakeFilter || o.passedVehicleId === overtakeFilter
+    );
+    const inputClass = 'px-2 py-1 text-xs bg-white dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded';
+
+    return (
+        <div className="bg-white dark:bg-zinc-900 rounded-lg shadow p-6">
+            <div className="flex items-center justify-between mb-1">
+                <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">Overtakes</h3>
+                <select
+                    value={overtakeFilter ?? ''}
+                    onChange={(e) => setOvertakeFilter(e.target.value || null)}
+                    className={inputClass}
+                >
+                    <option value="">All cars</option>
+                    {vehicles.map(id => <option key={id} value={id}>{id}</option>)}
+                </select>
+            </div>
+            <p className="text-xs text-zinc-500 mb-4">
+                Passes in lap distance from loaded telemetry, marked on the track map (amber: position, blue: lapping).
+                Click a pass to load the passing car&apos;s lap.
+            </p>
+
+            <div className="overflow-x-auto max-h-96">
+                <table className="w-full text-xs text-zinc-800 dark:text-zinc-200">
+                    <thead>
+                        <tr className="text-left text-zinc-500 border-b border-zinc-200 dark:border-zinc-700">
+                            <th className="py-1">Time</th>
+                            <th>Lap</th>
+                            <th>Passing</th>
+                            <th>Passed</th>
+                            <th>Where</th>
+                            <th className="text-right">Distance (m)</th>
+                            <th className="pl-4">Kind</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {shown.map(pass => (
+                            <tr
+                                key={`${pass.time.getTime()}-${pass.passingVehicleId}-${pass.passedVehicleId}`}
+                                onClick={() => selectVehicleAndLap(pass.passingVehicleId, pass.lapNumber)}
+                                className="border-b border-zinc-100 dark:border-zinc-800 cursor-pointer hover:bg-zinc-50 dark:hover:bg-zinc-800"
+                            >
+                                <td className="py-1">{pass.time.toLocaleTimeString()}</td>
+                                <td>{pass.lapNumber}</td>
+                                <td className="font-semibold">{pass.passingVehicleId}</td>
+                                <td>{pass.passedVehicleId}</td>
+                                <td>{pass.segmentId ?? '–'}</td>
+                                <td className="text-right">{pass.lapDistance.toFixed(0)}</td>
+                                <td className="pl-4 text-zinc-500">
+                                    {pass.kind === 'position' ? 'Position' : 'Lapping'}
+                                    {pass.inPitSequence && ' (pit)'}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useTelemetryContext } from '@/presentation/contexts/TelemetryContext';
+import { RepositoryFactory } from '@/infrastructure/factories/RepositoryFactory';
+import { SessionInputAdapter } from '@/presentation/services/SessionInputAdapter';
+import { WorkerMonteCarloRunner } from '@/infrastructure/workers/WorkerMonteCarloRunner';
+import { SimulateRaceOutcomes } from '@/application/use-cases/SimulateRaceOutcomes';
+import { MonteCarloResult } from '@/domain/services/MonteCarloRaceSimulator';
+import { IdealLapBuilder } from '@/domain/services/IdealLapBuilder';
+
+interface Settings {
+    runs: number;
+    seed: number;
+    cautionsPerRace: number;
+    pitLossStdS: number;
+}
+
+const SETTING_FIELDS: Array<{ key: keyof Settings; label: string; min: number; step: number }> = [
+    { key: 'runs', label: 'Runs per strategy', min: 10, step: 100 },
+    { key: 'seed', label: 'Seed', min: 0, step: 1 },
+    { key: 'cautionsPerRace', label: 'Cautions per race', min: 0, step: 0.1 },
+    { key: 'pitLossStdS', label: 'Pit loss spread (s)', min: 0, step: 0.5 }
+];
+
+/**
+ * RaceOutcomePanel Component
+ * Monte Carlo finishing positions: for the chosen car, the probability of
+ * each position under each of its strategies, the rest of the field on
+ * their optimal stop. Runs in a Web Worker; the same seed gives the same
+ * result.
+ *
+ * Design Pattern: Command Pattern (runs on demand, not on every data change)
+ */
+export default function RaceOutcomePanel() {
+    const { lapData, raceSession, telemetryData, fuelCorrection, pitLane, selectedVehicleId } = useTelemetryContext();
+    const [runner] = useState(() => new WorkerMonteCarloRunner());
+    const [settings, setSettings] = useState<Settings>({ runs: 1000, seed: 1, cautionsPerRace: 0.5, pitLossStdS: 2 });
+    const [result, setResult] = useState<MonteCarloResult | null>(null);
+    const [progress, setProgress] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [vehicleId, setVehicleId] = useState<string | null>(null);
+
+    // Stop a run in progress when the panel goes away
+    useEffect(() => () => runner.cancel(), [runner]);
+
+    if (lapData.size === 0) return null;
+
+    const run = async () => {
+        setError(null);
+        setProgress(0);
+        try {
+            const useCase = new SimulateRaceOutcomes(RepositoryFactory.getLapRepository(), runner);
+            const outcome = await useCase.execute(SessionInputAdapter.fromRaceSession(raceSession), {
+                runs: settings.runs,
+                seed: settings.seed,
+                cautionsPerRace: settings.cautionsPerRace,
+                pitLossStdMs: settings.pitLossStdS * 1000
+            }, fuelCorrection, { telemetry: telemetryData, pitLane }, (completed, total) => setProgress(completed / total));
+            setResult(outcome);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    const setSetting = (key: keyof Settings, raw: string, min: number) => {
+        const value = parseFloat(raw);
+        if (!Number.isFinite(value) || value < min) return;
+        setSettings({ ...settings, [key]: key === 'runs' || key === 'seed' ? Math.round(value) : value });
+    };
+
+    // Follow the selected car unless another one was picked here
+    const activeId = vehicleId ?? (selectedVehicleId ? IdealLapBuilder.sourceVehicleId(selectedVehicleId) : null);
+    const car = result ? result.cars.find(c => c.vehicleId === activeId) ?? result.cars[0] ?? null : null;
+    const positions = result ? result.cars.length : 0;
+    const inputClass = 'px-2 py-1 text-xs bg-white dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded';
+
+    return (
+        <div className="bg-white dark:bg-zinc-900 rounded-lg shadow p-6">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">Race Outcome Simulation</h3>
+                {result && car && (
+                    <select value={car.vehicleId} onChange={(e) => setVehicleId(e.target.value)} className={inputClass}>
+                        {result.cars.map(c => (
+                            <option key={c.vehicleId} value={c.vehicleId}>{c.vehicleId}</option>
+                        ))}
+                    </select>
+                )}
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2 mb-4 text-xs text-zinc-600 dark:text-zinc-400 items-end">
+                {SETTING_FIELDS.map(field => (
+                    <label key={field.key}>
+                        {field.label}
+                        <input
+                            type="number"
+                            min={field.min}
+                            step={field.step}
+                            value={settings[field.key]}
+                            onChange={(e) => setSetting(field.key, e.target.value, field.min)}
+                            className={`${inputClass} block w-full`}
+                        />
+                    </label>
+                ))}
+                {progress === null ? (
+                    <button
+                        onClick={run}
+                        className="px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded"
+                    >
+                        Run simulation
+                    </button>
+                ) : (
+                    <button
+                        onClick={() => runner.cancel()}
+                        className="px-3 py-1.5 text-sm bg-zinc-200 dark:bg-zinc-700 text-zinc-800 dark:text-zinc-100 rounded"
+                    >
+                        Cancel
+                    </button>
+                )}
+            </div>
+
+            {progress !== null && (
+                <div className="mb-4">
+                    <div className="h-2 bg-zinc-200 dark:bg-zinc-800 rounded">
+                        <div className="h-2 bg-blue-600 rounded" style={{ width: `${(progress * 100).toFixed(1)}%` }} />
+                    </div>
+                    <p className="mt-1 text-xs text-zinc-500">{(progress * 100).toFixed(0)}%</p>
+                </div>
+            )}
+            {error && <p className="mb-4 text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+            {result && car && (
+                <>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-xs text-zinc-800 dark:text-zinc-200">
+                            <thead>
+                                <tr className="text-left text-zinc-500 border-b border-zinc-200 dark:border-zinc-700">
+                                    <th className="py-1">Strategy</th>
+                                    <th className="text-right pr-2">Avg pos</th>
+                                    {Array.from({ length: positions }, (_, i) => (
+                                        <th key={i} className="text-center">P{i + 1}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {car.strategies.map(outcome => (
+                                    <tr key={outcome.strategy.id} className="border-b border-zinc-100 dark:border-zinc-800">
+                                        <td className="py-1 whitespace-nowrap">{outcome.strategy.label}</td>
+                                        <td className="text-right pr-2 font-semibold">{outcome.meanPosition.toFixed(2)}</td>
+                                        {outcome.positionProbabilities.map((p, i) => (
+                                            <td
+                                                key={i}
+                                                className="text-center"
+                                                style={{ backgroundColor: `rgba(59, 130, 246, ${p.toFixed(3)})` }}
+                                            >
+                                                {p >= 0.005 ? `${(p * 100).toFixed(0)}%` : ''}
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <p className="mt-2 text-xs text-zinc-500">
+                        {result.runs} runs per strategy, seed {result.seed}. Other cars stop on their optimal lap;
+                        every strategy sees the same random races.
+                    </p>
+                </>
+            )}
+        </div>
+    );
+}
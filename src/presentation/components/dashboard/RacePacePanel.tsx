@@ -0,0 +1,120 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useTelemetryContext } from '@/presentation/contexts/TelemetryContext';
+import { RepositoryFactory } from '@/infrastructure/factories/RepositoryFactory';
+import { AnalyzeRaceSession } from '@/application/use-cases/AnalyzeRaceSession';
+import { RacePaceService, PaceMetric, PaceFigure, VehiclePace } from '@/domain/services/RacePaceService';
+
+const METRIC_LABELS: Record<PaceMetric, string> = {
+    median: 'Median',
+    trimmedMean: 'Trimmed mean',
+    bestConsecutive: 'Best consecutive'
+};
+
+/**
+ * RacePacePanel Component
+ * Ranks cars on green-flag race pace instead of one fastest lap. Every
+ * figure comes from clean laps only and shows how many laps it is based on.
+ *
+ * Design Pattern: Observer Pattern (re-runs the analysis when the loaded session changes)
+ */
+export default function RacePacePanel() {
+    const { lapData, loadedSession } = useTelemetryContext();
+    const [metric, setMetric] = useState<PaceMetric>('median');
+    const [consecutiveLaps, setConsecutiveLaps] = useState(5);
+
+    const paces = useMemo(() => {
+        if (!loadedSession) return [];
+        try {
+            const analysis = new AnalyzeRaceSession(RepositoryFactory.getLapRepository())
+                .analyze(loadedSession, { pace: { consecutiveLaps } });
+            return analysis.vehicleAnalysis
+                .map(v => v.racePace)
+                .filter((pace): pace is VehiclePace => pace !== null);
+        } catch (error) {
+            console.warn('Race pace analysis failed:', error);
+            return [];
+        }
+    }, [loadedSession, consecutiveLaps]);
+
+    if (lapData.size === 0 || paces.length === 0) return null;
+
+    const ranked = new RacePaceService().rank(paces, metric);
+    const leaderMs = ranked[0][metric].valueMs;
+    const inputClass = 'px-2 py-1 text-xs bg-white dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded';
+
+    const figure = (value: PaceFigure, highlight: boolean) => (
+        <td className={`text-right ${highlight ? 'font-semibold' : ''}`}>
+            {value.valueMs !== null ? (value.valueMs / 1000).toFixed(3) : '–'}
+            <span className="ml-1 text-zinc-500 font-normal">({value.laps})</span>
+        </td>
+    );
+
+    return (
+        <div className="bg-white dark:bg-zinc-900 rounded-lg shadow p-6">
+            <div className="flex items-center justify-between mb-1">
+                <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">Race Pace</h3>
+                <div className="flex gap-2 items-center text-xs text-zinc-600 dark:text-zinc-400">
+                    <select value={metric} onChange={(e) => setMetric(e.target.value as PaceMetric)} className={inputClass}>
+                        {(Object.keys(METRIC_LABELS) as PaceMetric[]).map(m => (
+                            <option key={m} value={m}>Rank by {METRIC_LABELS[m].toLowerCase()}</option>
+                        ))}
+                    </select>
+                    <label>
+                        N
+                        <input
+                            type="number"
+                            min={2}
+                            value={consecutiveLaps}
+                            onChange={(e) => {
+                                const value = parseInt(e.target.value);
+                                if (value >= 2) setConsecutiveLaps(value);
+                            }}
+                            className={`${inputClass} ml-1 w-14`}
+                        />
+                    </label>
+                </div>
+            </div>
+            <p className="text-xs text-zinc-500 mb-4">
+                Clean green-flag laps only: out/in laps, caution laps, traffic or slipstream laps and outliers are left out. Lap counts in brackets.
+            </p>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-xs text-zinc-800 dark:text-zinc-200">
+                    <thead>
+                        <tr className="text-left text-zinc-500 border-b border-zinc-200 dark:border-zinc-700">
+                            <th className="py-1">#</th>
+                            <th>Vehicle</th>
+                            <th className="text-right">Median (s)</th>
+                            <th className="text-right">Trimmed mean (s)</th>
+                            <th className="text-right">Best {consecutiveLaps} in a row (s)</th>
+                            <th className="text-right">Gap (s)</th>
+                            <th className="text-right pl-4">Excluded (pit / caution / traffic / outlier)</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {ranked.map((pace, i) => {
+                            const value = pace[metric].valueMs;
+                            return (
+                                <tr key={pace.vehicleId} className="border-b border-zinc-100 dark:border-zinc-800">
+                                    <td className="py-1">{value !== null ? i + 1 : '–'}</td>
+                                    <td className="font-semibold">{pace.vehicleId}</td>
+                                    {figure(pace.median, metric === 'median')}
+                                    {figure(pace.trimmedMean, metric === 'trimmedMean')}
+                                    {figure(pace.bestConsecutive, metric === 'bestConsecutive')}
+                                    <td className="text-right">
+                                        {value !== null && leaderMs !== null ? `+${((value - leaderMs) / 1000).toFixed(3)}` : '–'}
+                                    </td>
+                                    <td className="text-right pl-4 text-zinc-500">
+                                        {pace.excluded.pitLaps} / {pace.excluded.cautionLaps} / {pace.excluded.trafficLaps} / {pace.excluded.outliers}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,197 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ReferenceArea, ResponsiveContainer } from 'recharts';
+import { useTelemetryContext, LAP_COLORS } from '@/presentation/contexts/TelemetryContext';
+import { RepositoryFactory } from '@/infrastructure/factories/RepositoryFactory';
+import { AnalyzeRaceSession } from '@/application/use-cases/AnalyzeRaceSession';
+import { LapPosition } from '@/domain/services/RacePositionService';
+import { CautionType } from '@/domain/entities/Lap';
+
+const CAUTION_COLORS: Record<CautionType, string> = {
+    caution: '#F59E0B',
+    redFlag: '#EF4444'
+};
+
+interface CarSeries {
+    vehicleId: string;
+    color: string;
+    points: Array<LapPosition & { gapToLeaderS: number }>;
+}
+
+/**
+ * RacePositionCharts Component
+ * How the race unfolded: a lap chart (position after every lap) and a race
+ * trace (gap to the leader after every lap). Hovering a car highlights it
+ * in both charts; clicking a point loads that car's lap. Caution and
+ * red-flag periods are shaded over the leader's laps they cover.
+ *
+ * Design Pattern: Observer Pattern (re-runs the analysis when the loaded session changes)
+ */
+export default function RacePositionCharts() {
+    const { lapData, loadedSession, selectVehicleAndLap } = useTelemetryContext();
+    const [highlighted, setHighlighted] = useState<string | null>(null);
+    const [hovered, setHovered] = useState<LapPosition | null>(null);
+
+    const { history, cautions } = useMemo(() => {
+        if (!loadedSession) return { history: [], cautions: [] };
+        try {
+            const analysis = new AnalyzeRaceSession(RepositoryFactory.getLapRepository()).analyze(loadedSession);
+            return { history: analysis.positionHistory, cautions: analysis.cautionPeriods };
+        } catch (error) {
+            console.warn('Race position analysis failed:', error);
+            return { history: [], cautions: [] };
+        }
+    }, [loadedSession]);
+
+    const series = useMemo(() => {
+        const byVehicle = new Map<string, CarSeries['points']>();
+        for (const entry of history) {
+            const points = byVehicle.get(entry.vehicleId) ?? [];
+            points.push({ ...entry, gapToLeaderS: entry.gapToLeaderMs / 1000 });
+            byVehicle.set(entry.vehicleId, points);
+        }
+        return Array.from(byVehicle.keys())
+            .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+            .map((vehicleId, i): CarSeries => ({
+                vehicleId,
+                color: LAP_COLORS[i % LAP_COLORS.length],
+                points: byVehicle.get(vehicleId) ?? []
+            }));
+    }, [history]);
+
+    if (lapData.size === 0 || series.length === 0) return null;
+
+    const seconds = (ms: number) => (ms / 1000).toFixed(3);
+    const lineProps = (car: CarSeries) => {
+        const dimmed = highlighted !== null && highlighted !== car.vehicleId;
+        return {
+            data: car.points,
+            name: car.vehicleId,
+            stroke: car.color,
+            strokeWidth: highlighted === car.vehicleId ? 3 : 1.5,
+            strokeOpacity: dimmed ? 0.2 : 1,
+            isAnimationActive: false,
+            onMouseEnter: () => setHighlighted(car.vehicleId),
+            dot: (props: { cx?: number; cy?: number; payload: LapPosition; index: number }) => (
+                <circle
+                    key={`${car.vehicleId}-${props.index}`}
+                    cx={props.cx}
+                    cy={props.cy}
+                    r={highlighted === car.vehicleId ? 4 : 2.5}
+                    fill={car.color}
+                    fillOpacity={dimmed ? 0.2 : 1}
+                    style={{ cursor: 'pointer' }}
+                    onMouseEnter={() => { setHighlighted(car.vehicleId); setHovered(props.payload); }}
+                    onClick={() => selectVehicleAndLap(car.vehicleId, props.payload.lapNumber)}
+                />
+            )
+        };
+    };
+    const cautionBands = cautions
+        .filter(period => period.startLap !== null && period.endLap !== null)
+        .map((period, i) => (
+            <ReferenceArea
+                key={`caution-${i}`}
+                x1={(period.startLap ?? 0) - 0.5}
+                x2={(period.endLap ?? 0) + 0.5}
+                fill={CAUTION_COLORS[period.type]}
+                fillOpacity={0.15}
+                ifOverflow="hidden"
+            />
+        ));
+    const xAxis = (
+        <XAxis
+            dataKey="lapNumber"
+            type="number"
+            domain={['dataMin', 'dataMax']}
+            allowDecimals={false}
+            stroke="#9CA3AF"
+            label={{ value: 'Lap', position: 'insideBottom', offset: -5 }}
+        />
+    );
+
+    return (
+        <div
+            className="bg-white dark:bg-zinc-900 rounded-lg shadow p-6"
+            onMouseLeave={() => { setHighlighted(null); setHovered(null); }}
+        >
+            <h3 className="text-lg font-semibold mb-1 text-zinc-900 dark:text-zinc-100">Race Positions</h3>
+            <p className="text-xs text-zinc-500 mb-3 h-4">
+                {hovered
+                    ? `${hovered.vehicleId} • Lap ${hovered.lapNumber} • P${hovered.position}` +
+                      (hovered.gapToAheadMs !== null
+                          ? ` • +${seconds(hovered.gapToLeaderMs)}s to leader • +${seconds(hovered.gapToAheadMs)}s to car ahead`
+                          : ' • leader')
+                    : 'Hover a car to highlight it; click a point to load that lap.'}
+            </p>
+            {cautions.length > 0 && (
+                <p className="text-xs text-zinc-500 mb-3">
+                    {cautions.map((period, i) => (
+                        <span key={i} className="mr-3">
+                            <span className="inline-block w-2 h-2 mr-1 rounded-sm" style={{ backgroundColor: CAUTION_COLORS[period.type] }} />
+                            {period.type === 'redFlag' ? 'Red flag' : 'Caution'}
+                            {period.startLap !== null && ` L${period.startLap}${period.endLap !== period.startLap ? `–${period.endLap}` : ''}`}
+                        </span>
+                    ))}
+                </p>
+            )}
+
+            <div className="flex flex-wrap gap-2 mb-4">
+                {series.map(car => (
+                    <button
+                        key={car.vehicleId}
+                        onMouseEnter={() => setHighlighted(car.vehicleId)}
+                        className={`flex items-center gap-1 px-2 py-0.5 text-xs rounded border ${highlighted === car.vehicleId
+                            ? 'border-zinc-500 text-zinc-900 dark:text-zinc-100'
+                            : 'border-zinc-200 dark:border-zinc-700 text-zinc-600 dark:text-zinc-400'
+                            }`}
+                    >
+                        <span className="w-3 h-0.5" style={{ backgroundColor: car.color }} />
+                        {car.vehicleId}
+                    </button>
+                ))}
+            </div>
+
+            <h4 className="text-sm font-semibold mb-2 text-zinc-700 dark:text-zinc-300">Lap Chart</h4>
+            <ResponsiveContainer width="100%" height={280}>
+                <LineChart margin={{ left: 10, bottom: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    {cautionBands}
+                    {xAxis}
+                    <YAxis
+                        type="number"
+                        reversed
+                        domain={[1, series.length]}
+                        allowDecimals={false}
+                        interval={0}
+                        stroke="#9CA3AF"
+                        label={{ value: 'Position', angle: -90, position: 'insideLeft' }}
+                    />
+                    {series.map(car => (
+                        <Line key={car.vehicleId} type="linear" dataKey="position" {...lineProps(car)} />
+                    ))}
+                </LineChart>
+            </ResponsiveContainer>
+
+            <h4 className="text-sm font-semibold mt-6 mb-2 text-zinc-700 dark:text-zinc-300">Race Trace</h4>
+            <ResponsiveContainer width="100%" height={280}>
+                <LineChart margin={{ left: 10, bottom: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    {cautionBands}
+                    {xAxis}
+                    <YAxis
+                        type="number"
+                        reversed
+                        tickFormatter={(v: number) => v.toFixed(0)}
+                        stroke="#9CA3AF"
+                        label={{ value: 'Gap to leader (s)', angle: -90, position: 'insideLeft' }}
+                    />
+                    {series.map(car => (
+                        <Line key={car.vehicleId} type="linear" dataKey="gapToLeaderS" {...lineProps(car)} />
+                    ))}
+                </LineChart>
+            </ResponsiveContainer>
+        </div>
+    );
+}
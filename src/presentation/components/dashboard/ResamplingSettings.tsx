@@ -0,0 +1,72 @@
+'use client';
+
+import React from 'react';
+import { MAPPED_FIELDS, MappedField } from '@/domain/entities/ChannelMappingProfile';
+import { ResampleOptions, ResampleStrategy, TelemetryResampler } from '@/domain/services/TelemetryResampler';
+
+const RATE_OPTIONS = [10, 20, 50, 100];
+
+const STRATEGY_LABELS: Record<ResampleStrategy, string> = {
+    'forward-fill': 'Forward-fill',
+    'linear': 'Linear',
+    'nearest': 'Nearest'
+};
+
+interface ResamplingSettingsProps {
+    value: ResampleOptions | null;
+    onChange: (options: ResampleOptions | null) => void;
+}
+
+/**
+ * ResamplingSettings Component
+ * Chooses the common sample rate and per-channel fill strategy.
+ *
+ * Design Pattern: Controlled Component
+ */
+export default function ResamplingSettings({ value, onChange }: ResamplingSettingsProps) {
+    const strategyFor = (field: MappedField): ResampleStrategy =>
+        value?.strategies?.[field] ?? TelemetryResampler.DEFAULT_STRATEGIES[field];
+
+    return (
+        <div className="space-y-2">
+            <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                Resample Channels
+            </label>
+            <select
+                value={value?.rateHz ?? ''}
+                onChange={(e) => {
+                    const rateHz = parseInt(e.target.value);
+                    onChange(rateHz > 0 ? { ...value, rateHz } : null);
+                }}
+                className="block w-full px-3 py-2 bg-white dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-md"
+            >
+                <option value="">Off (logged timestamps)</option>
+                {RATE_OPTIONS.map(rate => (
+                    <option key={rate} value={rate}>{rate} Hz</option>
+                ))}
+            </select>
+
+            {value && (
+                <div className="grid grid-cols-2 gap-1">
+                    {MAPPED_FIELDS.map(field => (
+                        <React.Fragment key={field}>
+                            <span className="text-xs text-zinc-600 dark:text-zinc-400 self-center">{field}</span>
+                            <select
+                                value={strategyFor(field)}
+                                onChange={(e) => onChange({
+                                    ...value,
+                                    strategies: { ...value.strategies, [field]: e.target.value as ResampleStrategy }
+                                })}
+                                className="px-2 py-1 text-xs bg-white dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded"
+                            >
+                                {Object.entries(STRATEGY_LABELS).map(([strategy, label]) => (
+                                    <option key={strategy} value={strategy}>{label}</option>
+                                ))}
+                            </select>
+                        </React.Fragment>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useTelemetryContext } from '@/presentation/contexts/TelemetryContext';
+import { RepositoryFactory } from '@/infrastructure/factories/RepositoryFactory';
+import { AnalyzeRaceSession, VehicleAnalysis } from '@/application/use-cases/AnalyzeRaceSession';
+import { GeoPoint } from '@/domain/services/GeoCalculator';
+import { PitEvidence } from '@/domain/services/PitStopDetector';
+
+const EVIDENCE_LABELS: Record<PitEvidence, string> = {
+    lapTime: 'lap time',
+    pitLane: 'pit lane GPS',
+    speedLimiter: 'limiter'
+};
+
+/**
+ * StintPanel Component
+ * Stints and pit stops for every car, from AnalyzeRaceSession.
+ * Loaded telemetry adds pit-lane and speed-limiter evidence; the pit-lane
+ * polygon is entered as one "latitude, longitude" corner per line.
+ *
+ * Design Pattern: Observer Pattern (re-runs the analysis when the loaded session changes)
+ */
+export default function StintPanel() {
+    const {
+        lapData, loadedSession, fuelCorrection, pitLane, setPitLane, pitSpeedLimitKmh, setPitSpeedLimitKmh
+    } = useTelemetryContext();
+    const [polygonText, setPolygonText] = useState(() =>
+        pitLane.map(p => `${p.latitude}, ${p.longitude}`).join('\n')
+    );
+
+    const vehicles = useMemo((): VehicleAnalysis[] => {
+        if (!loadedSession) return [];
+        try {
+            return new AnalyzeRaceSession(RepositoryFactory.getLapRepository())
+                .analyze(loadedSession, { fuel: fuelCorrection })
+                .vehicleAnalysis;
+        } catch (error) {
+            console.warn('Stint analysis failed:', error);
+            return [];
+        }
+    }, [loadedSession, fuelCorrection]);
+
+    const applyPolygon = (text: string) => {
+        setPolygonText(text);
+        const points: GeoPoint[] = text.split('\n')
+            .map(line => line.split(',').map(v => parseFloat(v.trim())))
+            .filter(([lat, lon]) => !isNaN(lat) && !isNaN(lon))
+            .map(([latitude, longitude]) => ({ latitude, longitude }));
+        setPitLane(points.length >= 3 ? points : []);
+    };
+
+    if (lapData.size === 0 || vehicles.length === 0) return null;
+
+    const seconds = (ms: number) => (ms / 1000).toFixed(3);
+    const inputClass = 'px-2 py-1 text-xs bg-white dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded';
+
+    return (
+        <div className="bg-white dark:bg-zinc-900 rounded-lg shadow p-6">
+            <h3 className="text-lg font-semibold mb-1 text-zinc-900 dark:text-zinc-100">Stints &amp; Pit Stops</h3>
+            <p className="text-xs text-zinc-500 mb-4">
+                Without telemetry a lap-time spike marks a stop; loaded laps are checked for the pit lane and the speed limiter.
+                Average pace leaves out out laps and in laps.
+            </p>
+
+            <details className="mb-4 text-xs text-zinc-600 dark:text-zinc-400">
+                <summary className="cursor-pointer">Pit lane settings</summary>
+                <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-2">
+                    <label>
+                        Pit-lane polygon (latitude, longitude per line)
+                        <textarea
+                            value={polygonText}
+                            onChange={(e) => applyPolygon(e.target.value)}
+                            rows={4}
+                            className={`${inputClass} block w-full font-mono`}
+                        />
+                    </label>
+                    <label>
+                        Pit speed limit (km/h)
+                        <input
+                            type="number"
+                            min={1}
+                            value={pitSpeedLimitKmh}
+                            onChange={(e) => {
+                                const value = parseFloat(e.target.value);
+                                if (value > 0) setPitSpeedLimitKmh(value);
+                            }}
+                            className={`${inputClass} block w-24`}
+                        />
+                    </label>
+                </div>
+            </details>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-xs text-zinc-800 dark:text-zinc-200">
+                    <thead>
+                        <tr className="text-left text-zinc-500 border-b border-zinc-200 dark:border-zinc-700">
+                            <th className="py-1">Vehicle</th>
+                            <th>Stint</th>
+                            <th>Laps</th>
+                            <th className="text-right">Completed</th>
+                            <th className="text-right">Avg pace (s)</th>
+                            <th className="text-right">Best (s)</th>
+                            <th className="pl-4">Pit stop after</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {vehicles.flatMap(vehicle => vehicle.stints.map((stint, i) => {
+                            const stop = vehicle.pitStops.find(s => s.inLap === stint.endLap);
+                            return (
+                                <tr key={`${vehicle.vehicleId}-${stint.stintNumber}`} className="border-b border-zinc-100 dark:border-zinc-800">
+                                    <td className="py-1 font-semibold">{i === 0 ? vehicle.vehicleId : ''}</td>
+                                    <td>{stint.stintNumber}</td>
+                                    <td>{stint.startLap}–{stint.endLap}</td>
+                                    <td className="text-right">{stint.lapsCompleted}</td>
+                                    <td className="text-right">{seconds(stint.averagePaceMs)}</td>
+                                    <td className="text-right">{seconds(stint.fastestLapMs)}</td>
+                                    <td className="pl-4 text-zinc-500">
+                                        {stop && (
+                                            <>
+                                                in L{stop.inLap}{stop.outLap !== null ? `, out L${stop.outLap}` : ' (retired)'}
+                                                {' • '}+{seconds(stop.timeLostMs)}s
+                                                {stop.pitLaneTimeMs !== null && ` • lane ${seconds(stop.pitLaneTimeMs)}s`}
+                                                {' • '}{stop.evidence.map(e => EVIDENCE_LABELS[e]).join(', ')}
+                                            </>
+                                        )}
+                                    </td>
+                                </tr>
+                            );
+                        }))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
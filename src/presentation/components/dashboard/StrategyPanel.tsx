@@ -0,0 +1,207 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceArea, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { useTelemetryContext } from '@/presentation/contexts/TelemetryContext';
+import { RepositoryFactory } from '@/infrastructure/factories/RepositoryFactory';
+import { SimulateRaceStrategy } from '@/application/use-cases/SimulateRaceStrategy';
+import { StrategySimulator, StrategyModel } from '@/domain/services/StrategySimulator';
+import { IdealLapBuilder } from '@/domain/services/IdealLapBuilder';
+
+type EditableField = 'raceLaps' | 'basePaceMs' | 'degradationMsPerLap' | 'fuelEffectMsPerLap' | 'pitLossMs';
+
+const FIELDS: Array<{ key: EditableField; label: string; unit: 'laps' | 's'; step: number }> = [
+    { key: 'raceLaps', label: 'Race laps', unit: 'laps', step: 1 },
+    { key: 'basePaceMs', label: 'Base pace (s)', unit: 's', step: 0.1 },
+    { key: 'degradationMsPerLap', label: 'Degradation (s/lap)', unit: 's', step: 0.01 },
+    { key: 'fuelEffectMsPerLap', label: 'Fuel effect (s/lap)', unit: 's', step: 0.01 },
+    { key: 'pitLossMs', label: 'Pit loss (s)', unit: 's', step: 0.5 }
+];
+
+const PIT_LOSS_SOURCES: Record<StrategyModel['pitLossSource'], string> = {
+    vehicle: "this car's stops",
+    field: "the field's stops",
+    default: 'default, no stops detected'
+};
+
+const OFFSETS = [-5, -3, -1, 1, 3, 5];
+
+const NO_EDITS: Partial<Record<EditableField, number>> = {};
+
+/**
+ * StrategyPanel Component
+ * One-stop strategy for a car: race time against pit lap, the best window,
+ * and the cost of pitting early or late. Inputs start from the values
+ * measured in the session and can be edited to try other scenarios.
+ *
+ * Design Pattern: Observer Pattern (re-measures when the loaded session changes)
+ */
+export default function StrategyPanel() {
+    const { lapData, loadedSession, fuelCorrection, selectedVehicleId } = useTelemetryContext();
+    const [vehicleId, setVehicleId] = useState<string | null>(null);
+    const [edits, setEdits] = useState<{ vehicleId: string; values: Partial<Record<EditableField, number>> } | null>(null);
+    const [toleranceS, setToleranceS] = useState(1);
+
+    const models = useMemo((): StrategyModel[] => {
+        if (!loadedSession) return [];
+        try {
+            return new SimulateRaceStrategy(RepositoryFactory.getLapRepository())
+                .measure(loadedSession.session, fuelCorrection);
+        } catch (error) {
+            console.warn('Strategy model failed:', error);
+            return [];
+        }
+    }, [loadedSession, fuelCorrection]);
+
+    // Follow the selected car unless another one was picked here
+    const activeId = vehicleId ?? (selectedVehicleId ? IdealLapBuilder.sourceVehicleId(selectedVehicleId) : null);
+    const measured = models.find(m => m.vehicleId === activeId) ?? models[0] ?? null;
+    const overrides = edits && measured && edits.vehicleId === measured.vehicleId ? edits.values : NO_EDITS;
+
+    const sweep = useMemo(() => {
+        if (!measured) return null;
+        const model: StrategyModel = { ...measured, ...overrides };
+        return new StrategySimulator().sweep(model, toleranceS * 1000);
+    }, [measured, overrides, toleranceS]);
+
+    if (lapData.size === 0 || !measured || !sweep) return null;
+    const bestPitLap = sweep.bestPitLap;
+
+    const setField = (key: EditableField, raw: string) => {
+        const value = parseFloat(raw);
+        if (!Number.isFinite(value)) return;
+        const scaled = key === 'raceLaps' ? Math.max(2, Math.round(value)) : value * 1000;
+        setEdits({ vehicleId: measured.vehicleId, values: { ...overrides, [key]: scaled } });
+    };
+
+    const seconds = (ms: number, digits = 3) => (ms / 1000).toFixed(digits);
+    const raceTime = (ms: number) => {
+        const minutes = Math.floor(ms / 60000);
+        return `${minutes}:${((ms - minutes * 60000) / 1000).toFixed(3).padStart(6, '0')}`;
+    };
+    const chartData = sweep.options.map(o => ({ pitLap: o.pitLap, cost: o.costMs / 1000 }));
+    const inputClass = 'px-2 py-1 text-xs bg-white dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded';
+
+    return (
+        <div className="bg-white dark:bg-zinc-900 rounded-lg shadow p-6">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">Pit Strategy</h3>
+                <select value={measured.vehicleId} onChange={(e) => setVehicleId(e.target.value)} className={inputClass}>
+                    {models.map(m => (
+                        <option key={m.vehicleId} value={m.vehicleId}>{m.vehicleId}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-2 mb-2 text-xs text-zinc-600 dark:text-zinc-400">
+                {FIELDS.map(field => {
+                    const value = overrides[field.key] ?? measured[field.key];
+                    return (
+                        <label key={field.key}>
+                            {field.label}
+                            <input
+                                type="number"
+                                step={field.step}
+                                value={field.unit === 'laps' ? value : Math.round(value) / 1000}
+                                onChange={(e) => setField(field.key, e.target.value)}
+                                className={`${inputClass} block w-full`}
+                            />
+                        </label>
+                    );
+                })}
+                <label>
+                    Window (± s)
+                    <input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        value={toleranceS}
+                        onChange={(e) => {
+                            const value = parseFloat(e.target.value);
+                            if (value >= 0) setToleranceS(value);
+                        }}
+                        className={`${inputClass} block w-full`}
+                    />
+                </label>
+            </div>
+            <p className="text-xs text-zinc-500 mb-4">
+                Measured from fuel-corrected stints; pit loss from {PIT_LOSS_SOURCES[measured.pitLossSource]}.
+                {Object.keys(overrides).length > 0 && (
+                    <button onClick={() => setEdits(null)} className="ml-2 text-blue-600 dark:text-blue-400 hover:underline">
+                        Reset to measured
+                    </button>
+                )}
+            </p>
+
+            {bestPitLap !== null ? (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4 text-sm">
+                        <div>
+                            <div className="text-xs text-zinc-500">Best pit lap</div>
+                            <div className="font-semibold text-zinc-900 dark:text-zinc-100">End of lap {bestPitLap}</div>
+                        </div>
+                        <div>
+                            <div className="text-xs text-zinc-500">Pit window</div>
+                            <div className="font-semibold text-zinc-900 dark:text-zinc-100">Laps {sweep.windowStart}–{sweep.windowEnd}</div>
+                        </div>
+                        <div>
+                            <div className="text-xs text-zinc-500">Race time</div>
+                            <div className="font-semibold text-zinc-900 dark:text-zinc-100">{raceTime(sweep.bestRaceTimeMs)}</div>
+                        </div>
+                        <div>
+                            <div className="text-xs text-zinc-500">No stop</div>
+                            <div className="font-semibold text-zinc-900 dark:text-zinc-100">
+                                {sweep.noStopCostMs > 0 ? `+${seconds(sweep.noStopCostMs, 1)}s` : `${seconds(sweep.noStopCostMs, 1)}s (faster)`}
+                            </div>
+                        </div>
+                    </div>
+
+                    <ResponsiveContainer width="100%" height={260}>
+                        <LineChart data={chartData}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                            <XAxis
+                                dataKey="pitLap"
+                                type="number"
+                                domain={['dataMin', 'dataMax']}
+                                allowDecimals={false}
+                                stroke="#9CA3AF"
+                                label={{ value: 'Pit at end of lap', position: 'insideBottom', offset: -5 }}
+                            />
+                            <YAxis
+                                stroke="#9CA3AF"
+                                tickFormatter={(v: number) => v.toFixed(0)}
+                                label={{ value: 'Cost vs best (s)', angle: -90, position: 'insideLeft' }}
+                            />
+                            <Tooltip
+                                contentStyle={{ backgroundColor: '#1F2937', border: 'none', borderRadius: '8px' }}
+                                labelStyle={{ color: '#F3F4F6' }}
+                                labelFormatter={(lap) => `Pit end of lap ${lap}`}
+                                formatter={(value) => (typeof value === 'number' ? `+${value.toFixed(3)}s` : value)}
+                            />
+                            {sweep.windowStart !== null && sweep.windowEnd !== null && (
+                                <ReferenceArea x1={sweep.windowStart} x2={sweep.windowEnd} fill="#10B981" fillOpacity={0.15} />
+                            )}
+                            <ReferenceLine x={bestPitLap} stroke="#10B981" strokeDasharray="4 4" />
+                            <Line type="monotone" dataKey="cost" name="Cost" stroke="#3B82F6" strokeWidth={2} dot={false} />
+                        </LineChart>
+                    </ResponsiveContainer>
+
+                    <div className="flex flex-wrap gap-4 mt-4 text-xs text-zinc-600 dark:text-zinc-400">
+                        {OFFSETS.map(offset => {
+                            const option = sweep.options.find(o => o.pitLap === bestPitLap + offset);
+                            if (!option) return null;
+                            return (
+                                <span key={offset}>
+                                    {Math.abs(offset)} lap{Math.abs(offset) > 1 ? 's' : ''} {offset < 0 ? 'early' : 'late'}:
+                                    {' '}<span className="font-semibold">+{seconds(option.costMs)}s</span>
+                                </span>
+                            );
+                        })}
+                    </div>
+                </>
+            ) : (
+                <p className="text-sm text-zinc-500">The race is too short to stop.</p>
+            )}
+        </div>
+    );
+}
@@ -1,31 +1,66 @@
 'use client';
 
-import React, { useMemo } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine, ReferenceArea } from 'recharts';
 import { useTelemetry } from '@/presentation/hooks/useTelemetry';
-import { ChartDataAdapter } from '@/presentation/services/ChartDataAdapter';
+import { ChartDataAdapter, ChartDataPoint } from '@/presentation/services/ChartDataAdapter';
+import { LapAlignment, TelemetryAnalysisService } from '@/domain/services/TelemetryAnalysisService';
+import { IdealLapBuilder } from '@/domain/services/IdealLapBuilder';
+
+type XAxisMode = 'distance' | 'time' | 'index';
+
+/**
+ * X axis options: data key, axis label and tick formatting
+ */
+const X_AXIS_OPTIONS: Record<XAxisMode, { dataKey: keyof ChartDataPoint; label: string; format: (value: number) => string }> = {
+    distance: { dataKey: 'distance', label: 'Distance (m)', format: (v) => v.toFixed(0) },
+    time: { dataKey: 'elapsedMs', label: 'Lap Time (s)', format: (v) => (v / 1000).toFixed(1) },
+    index: { dataKey: 'index', label: 'Data Point', format: (v) => String(v) }
+};
 
 /**
  * TelemetryCharts Component
  * Displays synchronized telemetry data charts.
  * 
+ * Every visible lap reference is drawn in its own color; the delta panel
+ * compares the selected lap against the comparison lap.
+ *
  * Design Pattern: Observer Pattern (reacts to selected lap changes via Context)
  * SOLID Principles:
  * - Single Responsibility: Focused on chart rendering
  * - Open/Closed: Can extend with new chart types
  */
 export default function TelemetryCharts() {
-    const { selectedTelemetry, comparisonTelemetry, isLoading } = useTelemetry();
+    const { selectedTelemetry, comparisonTelemetry, overlayTelemetry, isLoading } = useTelemetry();
+    const [xAxisMode, setXAxisMode] = useState<XAxisMode>('distance');
+    const xAxis = X_AXIS_OPTIONS[xAxisMode];
+    const [alignment, setAlignment] = useState<LapAlignment>('distance');
 
     // Convert domain entities to chart data (Adapter Pattern)
     const chartData = useMemo(() => {
         return ChartDataAdapter.toLineChartData(selectedTelemetry);
     }, [selectedTelemetry]);
 
-    const comparisonData = useMemo(() => {
-        if (comparisonTelemetry.length === 0) return null;
-        return ChartDataAdapter.toLineChartData(comparisonTelemetry);
-    }, [comparisonTelemetry]);
+    const overlays = useMemo(() => {
+        return overlayTelemetry.map(({ ref, frames }) => ({
+            key: `${ref.vehicleId}-${ref.lap}`,
+            label: IdealLapBuilder.isIdeal(ref.vehicleId)
+                ? `${IdealLapBuilder.sourceVehicleId(ref.vehicleId)} ideal`
+                : `${ref.vehicleId} L${ref.lap}`,
+            color: ref.color,
+            data: ChartDataAdapter.toLineChartData(frames)
+        }));
+    }, [overlayTelemetry]);
+    // A single lap keeps the fixed throttle/brake colors
+    const singleLap = overlays.length <= 1;
+
+    const comparison = useMemo(() => {
+        if (selectedTelemetry.length === 0 || comparisonTelemetry.length === 0) return null;
+        return new TelemetryAnalysisService().compareLaps(selectedTelemetry, comparisonTelemetry, { alignment });
+    }, [selectedTelemetry, comparisonTelemetry, alignment]);
+
+    // The delta trace lives on a distance grid; index mode falls back to distance
+    const deltaAxis = xAxisMode === 'time' ? X_AXIS_OPTIONS.time : X_AXIS_OPTIONS.distance;
 
     if (isLoading) {
         return (
@@ -45,80 +80,176 @@ export default function TelemetryCharts() {
 
     return (
         <div className="space-y-8">
+            {/* X Axis Selector */}
+            <div className="flex justify-end gap-1">
+                {(Object.keys(X_AXIS_OPTIONS) as XAxisMode[]).map(mode => (
+                    <button
+                        key={mode}
+                        type="button"
+                        onClick={() => setXAxisMode(mode)}
+                        className={`px-3 py-1 text-xs rounded ${xAxisMode === mode
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-zinc-200 dark:bg-zinc-700 text-zinc-700 dark:text-zinc-200 hover:bg-zinc-300'
+                            }`}
+                    >
+                        {X_AXIS_OPTIONS[mode].label}
+                    </button>
+                ))}
+            </div>
+
             {/* Speed Chart */}
             <div className="bg-white dark:bg-zinc-900 rounded-lg shadow p-6">
                 <h3 className="text-lg font-semibold mb-4 text-zinc-900 dark:text-zinc-100">Speed (km/h)</h3>
                 <ResponsiveContainer width="100%" height={300}>
-                    <LineChart data={chartData}>
+                    <LineChart>
                         <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
                         <XAxis
-                            dataKey="index"
+                            dataKey={xAxis.dataKey}
+                            type="number"
+                            domain={['dataMin', 'dataMax']}
+                            tickFormatter={xAxis.format}
                             stroke="#9CA3AF"
-                            label={{ value: 'Data Point', position: 'insideBottom', offset: -5 }}
+                            label={{ value: xAxis.label, position: 'insideBottom', offset: -5 }}
                         />
                         <YAxis stroke="#9CA3AF" />
                         <Tooltip
                             contentStyle={{ backgroundColor: '#1F2937', border: 'none', borderRadius: '8px' }}
                             labelStyle={{ color: '#F3F4F6' }}
+                            labelFormatter={(value) => `${xAxis.label}: ${xAxis.format(Number(value))}`}
                         />
                         <Legend />
-                        <Line
-                            type="monotone"
-                            dataKey="speed"
-                            stroke="#3B82F6"
-                            strokeWidth={2}
-                            dot={false}
-                            name="Speed (Main)"
-                        />
-                        {comparisonData && (
+                        {overlays.map(overlay => (
                             <Line
+                                key={overlay.key}
                                 type="monotone"
-                                data={comparisonData}
+                                data={overlay.data}
                                 dataKey="speed"
-                                stroke="#F59E0B"
+                                stroke={overlay.color}
                                 strokeWidth={2}
                                 dot={false}
-                                strokeDasharray="5 5"
-                                name="Speed (Comparison)"
+                                name={overlay.label}
                             />
-                        )}
+                        ))}
                     </LineChart>
                 </ResponsiveContainer>
             </div>
 
+            {/* Time Delta Chart */}
+            {comparison && (
+                <div className="bg-white dark:bg-zinc-900 rounded-lg shadow p-6">
+                    <div className="flex items-center justify-between mb-4">
+                        <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">
+                            Time Delta (s) — {comparison.finalDeltaMs >= 0 ? '+' : ''}{(comparison.finalDeltaMs / 1000).toFixed(3)}
+                        </h3>
+                        <select
+                            value={alignment}
+                            onChange={(e) => setAlignment(e.target.value as LapAlignment)}
+                            className="px-2 py-1 text-xs bg-white dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded"
+                        >
+                            <option value="distance">Align by distance</option>
+                            <option value="position">Align by track position</option>
+                        </select>
+                    </div>
+                    <ResponsiveContainer width="100%" height={200}>
+                        <LineChart data={comparison.deltaTrace}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                            <XAxis
+                                dataKey={deltaAxis.dataKey}
+                                type="number"
+                                domain={['dataMin', 'dataMax']}
+                                tickFormatter={deltaAxis.format}
+                                stroke="#9CA3AF"
+                                label={{ value: deltaAxis.label, position: 'insideBottom', offset: -5 }}
+                            />
+                            <YAxis yAxisId="delta" stroke="#A855F7" tickFormatter={(v: number) => (v / 1000).toFixed(2)} />
+                            <YAxis yAxisId="speed" orientation="right" stroke="#9CA3AF" />
+                            <Tooltip
+                                contentStyle={{ backgroundColor: '#1F2937', border: 'none', borderRadius: '8px' }}
+                                labelStyle={{ color: '#F3F4F6' }}
+                                labelFormatter={(value) => `${deltaAxis.label}: ${deltaAxis.format(Number(value))}`}
+                                formatter={(value, name) => name === 'Delta'
+                                    ? [`${(Number(value) / 1000).toFixed(3)} s`, name]
+                                    : [`${Number(value).toFixed(1)} km/h`, name]}
+                            />
+                            <Legend />
+                            <ReferenceLine yAxisId="delta" y={0} stroke="#6B7280" />
+                            {xAxisMode !== 'time' && comparison.deltaZones.map(zone => (
+                                <ReferenceArea
+                                    key={zone.startDistance}
+                                    yAxisId="delta"
+                                    x1={zone.startDistance}
+                                    x2={zone.endDistance}
+                                    fill={zone.deltaChangeMs > 0 ? '#EF4444' : '#10B981'}
+                                    fillOpacity={0.15}
+                                />
+                            ))}
+                            <Line
+                                yAxisId="delta"
+                                type="monotone"
+                                dataKey="deltaMs"
+                                stroke="#A855F7"
+                                strokeWidth={2}
+                                dot={false}
+                                name="Delta"
+                            />
+                            <Line
+                                yAxisId="speed"
+                                type="monotone"
+                                dataKey="speedDelta"
+                                stroke="#6B7280"
+                                strokeWidth={1}
+                                dot={false}
+                                name="Speed Δ"
+                            />
+                        </LineChart>
+                    </ResponsiveContainer>
+                </div>
+            )}
+
             {/* Throttle & Brake Chart */}
             <div className="bg-white dark:bg-zinc-900 rounded-lg shadow p-6">
                 <h3 className="text-lg font-semibold mb-4 text-zinc-900 dark:text-zinc-100">Throttle & Brake (%)</h3>
                 <ResponsiveContainer width="100%" height={300}>
-                    <LineChart data={chartData}>
+                    <LineChart>
                         <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
                         <XAxis
-                            dataKey="index"
+                            dataKey={xAxis.dataKey}
+                            type="number"
+                            domain={['dataMin', 'dataMax']}
+                            tickFormatter={xAxis.format}
                             stroke="#9CA3AF"
-                            label={{ value: 'Data Point', position: 'insideBottom', offset: -5 }}
+                            label={{ value: xAxis.label, position: 'insideBottom', offset: -5 }}
                         />
                         <YAxis stroke="#9CA3AF" domain={[0, 100]} />
                         <Tooltip
                             contentStyle={{ backgroundColor: '#1F2937', border: 'none', borderRadius: '8px' }}
                             labelStyle={{ color: '#F3F4F6' }}
+                            labelFormatter={(value) => `${xAxis.label}: ${xAxis.format(Number(value))}`}
                         />
                         <Legend />
-                        <Line
-                            type="monotone"
-                            dataKey="throttle"
-                            stroke="#10B981"
-                            strokeWidth={2}
-                            dot={false}
-                            name="Throttle"
-                        />
-                        <Line
-                            type="monotone"
-                            dataKey="brake"
-                            stroke="#EF4444"
-                            strokeWidth={2}
-                            dot={false}
-                            name="Brake"
-                        />
+                        {overlays.flatMap(overlay => [
+                            <Line
+                                key={`${overlay.key}-throttle`}
+                                type="monotone"
+                                data={overlay.data}
+                                dataKey="throttle"
+                                stroke={singleLap ? '#10B981' : overlay.color}
+                                strokeWidth={2}
+                                dot={false}
+                                name={singleLap ? 'Throttle' : `${overlay.label} Throttle`}
+                            />,
+                            <Line
+                                key={`${overlay.key}-brake`}
+                                type="monotone"
+                                data={overlay.data}
+                                dataKey="brake"
+                                stroke={singleLap ? '#EF4444' : overlay.color}
+                                strokeWidth={2}
+                                strokeDasharray={singleLap ? undefined : '5 5'}
+                                dot={false}
+                                name={singleLap ? 'Brake' : `${overlay.label} Brake`}
+                            />
+                        ])}
                     </LineChart>
                 </ResponsiveContainer>
             </div>
@@ -0,0 +1,121 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useTelemetryContext } from '@/presentation/contexts/TelemetryContext';
+import { TheoreticalBestService, TheoreticalBest } from '@/domain/services/TheoreticalBestService';
+import { IdealLapBuilder } from '@/domain/services/IdealLapBuilder';
+
+type SegmentSource = 'sectors' | 'mini';
+
+/**
+ * TheoreticalBestPanel Component
+ * Theoretical best lap per vehicle and for the field, from official sectors
+ * or from telemetry mini-sectors, with the lap each best segment came from.
+ *
+ * Mini-sectors use every lap whose telemetry is loaded. Enter a count for
+ * evenly spaced mini-sectors, or comma-separated boundary distances in metres.
+ *
+ * Design Pattern: Observer Pattern (reacts to lap and telemetry data via Context)
+ */
+export default function TheoreticalBestPanel() {
+    const { lapData, telemetryData } = useTelemetryContext();
+    const [source, setSource] = useState<SegmentSource>('sectors');
+    const [miniSectors, setMiniSectors] = useState('10');
+
+    const summary = useMemo(() => {
+        const service = new TheoreticalBestService();
+
+        if (source === 'sectors') {
+            return service.calculateAll(service.fromSectors(Array.from(lapData.values()).flat()));
+        }
+
+        // A single number is a mini-sector count, several are boundary distances
+        const values = miniSectors.split(',').map(v => parseFloat(v.trim())).filter(v => !isNaN(v));
+        const spec = values.length === 1 ? values[0] : values;
+        const laps = Array.from(telemetryData.values())
+            .filter(frames => frames.length > 0 && !IdealLapBuilder.isIdeal(frames[0].vehicleId));
+        return service.calculateAll(service.fromTelemetry(laps, spec));
+    }, [source, miniSectors, lapData, telemetryData]);
+
+    if (lapData.size === 0) return null;
+
+    const formatTime = (ms: number) => {
+        const minutes = Math.floor(ms / 60000);
+        const seconds = (ms % 60000) / 1000;
+        return `${minutes}:${seconds.toFixed(3).padStart(6, '0')}`;
+    };
+    const sourceLabel = (best: TheoreticalBest, vehicleId: string | null) =>
+        best.segments.map(s => `${s.segmentId} ${vehicleId ? '' : `${s.vehicleId} `}L${s.lapNumber}`).join(', ');
+
+    const rows: Array<[string, string | null, TheoreticalBest]> = [];
+    if (summary.field) rows.push(['Field', null, summary.field]);
+    Array.from(summary.vehicles.entries())
+        .sort(([, a], [, b]) => a.theoreticalMs - b.theoreticalMs)
+        .forEach(([vehicleId, best]) => rows.push([vehicleId, vehicleId, best]));
+
+    const selectClass = 'px-2 py-1 text-xs bg-white dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded';
+
+    return (
+        <div className="bg-white dark:bg-zinc-900 rounded-lg shadow p-6">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+                <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">Theoretical Best</h3>
+                <div className="flex items-center gap-2">
+                    <select value={source} onChange={(e) => setSource(e.target.value as SegmentSource)} className={selectClass}>
+                        <option value="sectors">Official sectors</option>
+                        <option value="mini">Mini-sectors (telemetry)</option>
+                    </select>
+                    {source === 'mini' && (
+                        <input
+                            type="text"
+                            value={miniSectors}
+                            onChange={(e) => setMiniSectors(e.target.value)}
+                            placeholder="10 or 400, 1200, 2500"
+                            className={`${selectClass} w-40`}
+                        />
+                    )}
+                </div>
+            </div>
+            <p className="text-xs text-zinc-500 mb-4">
+                {source === 'sectors'
+                    ? 'Sum of the best official sector times. Gap is best lap minus theoretical best.'
+                    : 'Mini-sector times from loaded telemetry laps. Load more laps (e.g. "+ All laps of this car") to widen the pool.'}
+            </p>
+
+            {rows.length === 0 ? (
+                <p className="text-sm text-zinc-500">
+                    {source === 'sectors' ? 'No sector times in the loaded lap data.' : 'No complete telemetry laps loaded.'}
+                </p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-xs text-zinc-800 dark:text-zinc-200">
+                        <thead>
+                            <tr className="text-left text-zinc-500 border-b border-zinc-200 dark:border-zinc-700">
+                                <th className="py-1">Vehicle</th>
+                                <th className="text-right">Best lap</th>
+                                <th className="text-right">Theoretical</th>
+                                <th className="text-right">Gap (s)</th>
+                                <th className="pl-4">Best segments from</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map(([label, vehicleId, best]) => (
+                                <tr key={label} className={`border-b border-zinc-100 dark:border-zinc-800 ${vehicleId ? '' : 'font-semibold'}`}>
+                                    <td className="py-1">{label}</td>
+                                    <td className="text-right">
+                                        {formatTime(best.bestLapMs)}
+                                        <span className="block text-[10px] text-zinc-500">
+                                            {vehicleId ? '' : `${best.bestLapVehicleId} `}L{best.bestLapNumber}
+                                        </span>
+                                    </td>
+                                    <td className="text-right">{formatTime(best.theoreticalMs)}</td>
+                                    <td className="text-right">{(best.gapMs / 1000).toFixed(3)}</td>
+                                    <td className="pl-4 text-zinc-500">{sourceLabel(best, vehicleId)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useTelemetryContext } from '@/presentation/contexts/TelemetryContext';
+import { RepositoryFactory } from '@/infrastructure/factories/RepositoryFactory';
+import { CheckTrackLimits } from '@/application/use-cases/CheckTrackLimits';
+import { TrackBoundary } from '@/domain/entities/TrackBoundary';
+import { Lap } from '@/domain/entities/Lap';
+import { TrackBoundaryBuilder } from '@/domain/services/TrackBoundaryBuilder';
+import { LapLimitsCheck } from '@/domain/services/TrackLimitsChecker';
+import { IdealLapBuilder } from '@/domain/services/IdealLapBuilder';
+import { GeoPoint } from '@/domain/services/GeoCalculator';
+
+/**
+ * TrackLimitsPanel Component
+ * Track boundary, imported as polygons ("latitude, longitude" per line) or
+ * built from the envelope of the loaded laps, and every excursion outside
+ * it. Laps with an excursion are marked invalid, so they are not picked as
+ * fastest or reference laps unless asked for.
+ *
+ * Design Pattern: Observer Pattern (re-checks when the boundary or telemetry changes)
+ */
+export default function TrackLimitsPanel() {
+    const {
+        lapData, telemetryData, trackLayout, trackBoundary, trackExcursions,
+        setTrackBoundary, setTrackExcursions, setLapData, selectVehicleAndLap
+    } = useTelemetryContext();
+    const [checks, setChecks] = useState<LapLimitsCheck[]>([]);
+    const [outerText, setOuterText] = useState('');
+    const [innerText, setInnerText] = useState('');
+    const [status, setStatus] = useState('');
+
+    useEffect(() => {
+        if (!trackBoundary || telemetryData.size === 0) return;
+
+        const check = async () => {
+            try {
+                const useCase = new CheckTrackLimits(
+                    RepositoryFactory.getTelemetryRepository(),
+                    RepositoryFactory.getLapRepository()
+                );
+                const result = await useCase.execute(trackBoundary);
+                setChecks(result.checks);
+                setTrackExcursions(result.excursions);
+                const byVehicle = new Map<string, Lap[]>();
+                for (const lap of result.laps) {
+                    byVehicle.set(lap.vehicle.id, [...(byVehicle.get(lap.vehicle.id) ?? []), lap]);
+                }
+                byVehicle.forEach((laps, vehicleId) => setLapData(vehicleId, laps));
+            } catch (error) {
+                setStatus(error instanceof Error ? error.message : 'Track limits check failed');
+            }
+        };
+        check();
+    }, [trackBoundary, telemetryData, setTrackExcursions, setLapData]);
+
+    if (lapData.size === 0) return null;
+
+    const buildEnvelope = () => {
+        try {
+            const laps = Array.from(telemetryData.values())
+                .filter(frames => frames.length > 0 && !IdealLapBuilder.isIdeal(frames[0].vehicleId));
+            setTrackBoundary(new TrackBoundaryBuilder().fromLaps(laps));
+            setStatus(`Built from ${laps.length} loaded laps`);
+        } catch (error) {
+            setStatus(error instanceof Error ? error.message : 'Could not build a boundary');
+        }
+    };
+
+    const importPolygons = () => {
+        const parse = (text: string): GeoPoint[] => text.split('\n')
+            .map(line => line.split(',').map(v => parseFloat(v.trim())))
+            .filter(([lat, lon]) => !isNaN(lat) && !isNaN(lon))
+            .map(([latitude, longitude]) => ({ latitude, longitude }));
+        try {
+            setTrackBoundary(new TrackBoundary({ outer: parse(outerText), inner: parse(innerText), source: 'imported' }));
+            setStatus('Imported');
+        } catch (error) {
+            setStatus(error instanceof Error ? error.message : 'Invalid boundary');
+        }
+    };
+
+    const invalidLaps = checks.filter(c => !c.valid).length;
+    const excursions = [...trackExcursions].sort((a, b) =>
+        a.vehicleId.localeCompare(b.vehicleId, undefined, { numeric: true }) || a.start.getTime() - b.start.getTime()
+    );
+    const buttonClass = 'px-3 py-1 text-xs rounded bg-zinc-200 dark:bg-zinc-700 hover:bg-zinc-300 disabled:opacity-50';
+    const textareaClass = 'w-full h-20 px-2 py-1 text-xs font-mono bg-white dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded';
+
+    return (
+        <div className="bg-white dark:bg-zinc-900 rounded-lg shadow p-6">
+            <div className="flex items-center justify-between mb-1">
+                <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">Track Limits</h3>
+                <div className="flex items-center gap-2">
+                    {status && <span className="text-xs text-zinc-500">{status}</span>}
+                    <button type="button" onClick={buildEnvelope} disabled={telemetryData.size === 0} className={buttonClass}>
+                        Build from loaded laps
+                    </button>
+                </div>
+            </div>
+            <p className="text-xs text-zinc-500 mb-4">
+                Every frame&apos;s GPS position is checked against the boundary. Laps with an excursion are invalid and
+                are not used as fastest or reference laps unless you ask for them. A boundary built from the loaded
+                laps is as wide as the widest of them plus a GPS margin, leaving out a lap where it runs more than
+                3 m outside where most laps run; with few laps, or a car that is often that wide, import the
+                surveyed boundary instead.
+            </p>
+
+            <details className="mb-4 text-xs text-zinc-600 dark:text-zinc-400">
+                <summary className="cursor-pointer">Import boundary polygons</summary>
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                    <label>
+                        Outer edge (latitude, longitude per line)
+                        <textarea value={outerText} onChange={(e) => setOuterText(e.target.value)} className={textareaClass} />
+                    </label>
+                    <label>
+                        Inner edge (optional)
+                        <textarea value={innerText} onChange={(e) => setInnerText(e.target.value)} className={textareaClass} />
+                    </label>
+                </div>
+                <button type="button" onClick={importPolygons} className={`${buttonClass} mt-2`}>
+                    Import
+                </button>
+            </details>
+
+            {trackBoundary && (
+                <>
+                    <p className="text-xs text-zinc-600 dark:text-zinc-400 mb-2">
+                        {trackBoundary.source === 'imported' ? 'Imported' : 'Envelope'} boundary: {checks.length} laps
+                        checked, {invalidLaps} invalid, {trackExcursions.length} excursions
+                    </p>
+                    {excursions.length > 0 && (
+                        <div className="overflow-x-auto max-h-80">
+                            <table className="w-full text-xs text-zinc-800 dark:text-zinc-200">
+                                <thead>
+                                    <tr className="text-left text-zinc-500 border-b border-zinc-200 dark:border-zinc-700">
+                                        <th className="py-1">Vehicle</th>
+                                        <th>Lap</th>
+                                        <th>Where</th>
+                                        <th className="text-right">Distance (m)</th>
+                                        <th className="text-right">Duration (s)</th>
+                                        <th className="pl-4">Location</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {excursions.map(excursion => (
+                                        <tr
+                                            key={`${excursion.vehicleId}-${excursion.start.getTime()}`}
+                                            onClick={() => selectVehicleAndLap(excursion.vehicleId, excursion.lapNumber)}
+                                            className="border-b border-zinc-100 dark:border-zinc-800 cursor-pointer hover:bg-zinc-50 dark:hover:bg-zinc-800"
+                                        >
+                                            <td className="py-1 font-semibold">{excursion.vehicleId}</td>
+                                            <td>{excursion.lapNumber}</td>
+                                            <td>
+                                                {excursion.lapDistance !== null && trackLayout
+                                                    ? trackLayout.segmentAt(excursion.lapDistance)?.id ?? '–'
+                                                    : '–'}
+                                            </td>
+                                            <td className="text-right">{excursion.lapDistance?.toFixed(0) ?? '–'}</td>
+                                            <td className="text-right">{(excursion.durationMs / 1000).toFixed(1)}</td>
+                                            <td className="pl-4 font-mono text-zinc-500">
+                                                {excursion.latitude.toFixed(5)}, {excursion.longitude.toFixed(5)}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -1,21 +1,50 @@
 'use client';
 
-import React, { useEffect, useRef } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { useTelemetry } from '@/presentation/hooks/useTelemetry';
+import { useTelemetryContext } from '@/presentation/contexts/TelemetryContext';
+import { TrackSegmentationService } from '@/domain/services/TrackSegmentationService';
+import { IdealLapBuilder } from '@/domain/services/IdealLapBuilder';
+import { GeoCalculator } from '@/domain/services/GeoCalculator';
 
 /**
  * TrackMap Component
  * Visualizes the racing track with car position marker.
+ * A single visible lap is colored by speed; several laps are drawn in their
+ * overlay colors. Detected corners are labelled at their apex, and detected
+ * overtakes (for the car chosen in the overtake table) are marked where they
+ * happened. The track boundary is outlined, with the drawn laps' track-limits
+ * excursions crossed out.
  * 
  * Design Pattern: Observer Pattern (subscribes to telemetry updates)
  * OOP: Component composition
  */
 export default function TrackMap() {
-    const { selectedTelemetry } = useTelemetry();
+    const { overlayTelemetry } = useTelemetry();
+    const {
+        telemetryData, trackLayout, setTrackLayout, overtakes, overtakeFilter, trackBoundary, trackExcursions
+    } = useTelemetryContext();
     const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [segmentStatus, setSegmentStatus] = useState('');
+
+    /**
+     * Segment the track from every loaded lap (partial laps are discarded by the service)
+     * Synthetic ideal laps are left out.
+     */
+    const detectCorners = useCallback(() => {
+        try {
+            const laps = Array.from(telemetryData.values())
+                .filter(frames => frames.length > 0 && !IdealLapBuilder.isIdeal(frames[0].vehicleId));
+            const layout = new TrackSegmentationService().segment(laps);
+            setTrackLayout(layout);
+            setSegmentStatus(`${layout.corners.length} corners`);
+        } catch (error) {
+            setSegmentStatus(error instanceof Error ? error.message : 'Segmentation failed');
+        }
+    }, [telemetryData, setTrackLayout]);
 
     useEffect(() => {
-        if (!canvasRef.current || selectedTelemetry.length === 0) return;
+        if (!canvasRef.current || overlayTelemetry.length === 0) return;
 
         const canvas = canvasRef.current;
         const ctx = canvas.getContext('2d');
@@ -24,22 +53,26 @@ export default function TrackMap() {
         // Clear canvas
         ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-        // Extract GPS coordinates
-        const coordinates = selectedTelemetry.map(frame => ({
-            lat: frame.gpsLatitude,
-            lng: frame.gpsLongitude,
-            speed: frame.speed
+        // Extract GPS coordinates per lap
+        const laps = overlayTelemetry.map(({ ref, frames }) => ({
+            color: ref.color,
+            coordinates: frames.map(frame => ({
+                lat: frame.gpsLatitude,
+                lng: frame.gpsLongitude,
+                speed: frame.speed
+            }))
         }));
 
-        if (coordinates.length === 0) return;
-
-        // Calculate bounds
-        const lats = coordinates.map(c => c.lat);
-        const lngs = coordinates.map(c => c.lng);
-        const minLat = Math.min(...lats);
-        const maxLat = Math.max(...lats);
-        const minLng = Math.min(...lngs);
-        const maxLng = Math.max(...lngs);
+        // Calculate bounds over every lap (loop: spreading large arrays overflows the stack)
+        let minLat = Infinity, maxLat = -Infinity, minLng = Infinity, maxLng = -Infinity;
+        for (const { coordinates } of laps) {
+            for (const c of coordinates) {
+                minLat = Math.min(minLat, c.lat);
+                maxLat = Math.max(maxLat, c.lat);
+                minLng = Math.min(minLng, c.lng);
+                maxLng = Math.max(maxLng, c.lng);
+            }
+        }
 
         // Scale to canvas
         const padding = 40;
@@ -50,25 +83,57 @@ export default function TrackMap() {
         const toCanvasX = (lng: number) => padding + (lng - minLng) * scale;
         const toCanvasY = (lat: number) => canvas.height - padding - (lat - minLat) * scale;
 
-        // Draw track line with speed gradient
-        for (let i = 1; i < coordinates.length; i++) {
-            const prev = coordinates[i - 1];
-            const curr = coordinates[i];
-
-            // Color based on speed (gradient from blue to red)
-            const speedRatio = curr.speed / 200; // Normalize to max ~200 km/h
-            const hue = 240 - (speedRatio * 240); // Blue (240) to Red (0)
-            ctx.strokeStyle = `hsl(${hue}, 80%, 50%)`;
-            ctx.lineWidth = 2;
+        // Outline the track boundary underneath the laps
+        if (trackBoundary) {
+            ctx.strokeStyle = '#71717A';
+            ctx.lineWidth = 1;
+            for (const edge of [trackBoundary.outer, trackBoundary.inner]) {
+                if (edge.length === 0) continue;
+                ctx.beginPath();
+                edge.forEach((p, i) => {
+                    if (i === 0) ctx.moveTo(toCanvasX(p.longitude), toCanvasY(p.latitude));
+                    else ctx.lineTo(toCanvasX(p.longitude), toCanvasY(p.latitude));
+                });
+                ctx.closePath();
+                ctx.stroke();
+            }
+        }
 
-            ctx.beginPath();
-            ctx.moveTo(toCanvasX(prev.lng), toCanvasY(prev.lat));
-            ctx.lineTo(toCanvasX(curr.lng), toCanvasY(curr.lat));
-            ctx.stroke();
+        if (laps.length > 1) {
+            // Draw each lap in its overlay color, last in list underneath
+            for (const { color, coordinates } of [...laps].reverse()) {
+                ctx.strokeStyle = color;
+                ctx.lineWidth = 2;
+                ctx.beginPath();
+                coordinates.forEach((c, i) => {
+                    if (i === 0) ctx.moveTo(toCanvasX(c.lng), toCanvasY(c.lat));
+                    else ctx.lineTo(toCanvasX(c.lng), toCanvasY(c.lat));
+                });
+                ctx.stroke();
+            }
+        } else {
+            const coordinates = laps[0].coordinates;
+
+            // Draw track line with speed gradient
+            for (let i = 1; i < coordinates.length; i++) {
+                const prev = coordinates[i - 1];
+                const curr = coordinates[i];
+
+                // Color based on speed (gradient from blue to red)
+                const speedRatio = curr.speed / 200; // Normalize to max ~200 km/h
+                const hue = 240 - (speedRatio * 240); // Blue (240) to Red (0)
+                ctx.strokeStyle = `hsl(${hue}, 80%, 50%)`;
+                ctx.lineWidth = 2;
+
+                ctx.beginPath();
+                ctx.moveTo(toCanvasX(prev.lng), toCanvasY(prev.lat));
+                ctx.lineTo(toCanvasX(curr.lng), toCanvasY(curr.lat));
+                ctx.stroke();
+            }
         }
 
         // Draw start/finish marker
-        const start = coordinates[0];
+        const start = laps[0].coordinates[0];
         ctx.fillStyle = '#10B981';
         ctx.beginPath();
         ctx.arc(toCanvasX(start.lng), toCanvasY(start.lat), 8, 0, 2 * Math.PI);
@@ -77,7 +142,51 @@ export default function TrackMap() {
         ctx.lineWidth = 2;
         ctx.stroke();
 
-        // Add legend
+        // Label corners at their apex
+        if (trackLayout) {
+            ctx.font = 'bold 12px sans-serif';
+            for (const corner of trackLayout.corners) {
+                if (corner.apexLatitude === undefined || corner.apexLongitude === undefined) continue;
+                const cx = toCanvasX(corner.apexLongitude);
+                const cy = toCanvasY(corner.apexLatitude);
+                ctx.fillStyle = '#FFFFFF';
+                ctx.beginPath();
+                ctx.arc(cx, cy, 3, 0, 2 * Math.PI);
+                ctx.fill();
+                ctx.fillText(corner.id, cx + 6, cy - 6);
+            }
+        }
+
+        // Mark overtakes: position changes in amber, lapping in sky blue
+        for (const pass of overtakes) {
+            if (overtakeFilter && pass.passingVehicleId !== overtakeFilter && pass.passedVehicleId !== overtakeFilter) continue;
+            if (!GeoCalculator.isValidFix(pass)) continue;
+            ctx.fillStyle = pass.kind === 'position' ? '#F59E0B' : '#38BDF8';
+            ctx.beginPath();
+            ctx.arc(toCanvasX(pass.longitude), toCanvasY(pass.latitude), 5, 0, 2 * Math.PI);
+            ctx.fill();
+            ctx.strokeStyle = '#18181B';
+            ctx.lineWidth = 1;
+            ctx.stroke();
+        }
+
+        // Cross out track-limits excursions of the drawn laps
+        ctx.strokeStyle = '#EF4444';
+        ctx.lineWidth = 2;
+        for (const excursion of trackExcursions) {
+            if (!overlayTelemetry.some(({ ref }) => ref.vehicleId === excursion.vehicleId && ref.lap === excursion.lapNumber)) continue;
+            const ex = toCanvasX(excursion.longitude);
+            const ey = toCanvasY(excursion.latitude);
+            ctx.beginPath();
+            ctx.moveTo(ex - 5, ey - 5);
+            ctx.lineTo(ex + 5, ey + 5);
+            ctx.moveTo(ex + 5, ey - 5);
+            ctx.lineTo(ex - 5, ey + 5);
+            ctx.stroke();
+        }
+
+        // Add legend (overlay colors are explained by the lap legend)
+        if (laps.length > 1) return;
         ctx.font = '14px sans-serif';
         ctx.fillStyle = '#FFFFFF';
         ctx.fillText('Speed:', 10, 20);
@@ -97,12 +206,25 @@ export default function TrackMap() {
         ctx.fillText('Low', 70, 40);
         ctx.fillText('High', 140, 40);
 
-    }, [selectedTelemetry]);
+    }, [overlayTelemetry, trackLayout, overtakes, overtakeFilter, trackBoundary, trackExcursions]);
 
     return (
         <div className="bg-white dark:bg-zinc-900 rounded-lg shadow p-6">
-            <h3 className="text-lg font-semibold mb-4 text-zinc-900 dark:text-zinc-100">Track Map</h3>
-            {selectedTelemetry.length === 0 ? (
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">Track Map</h3>
+                <div className="flex items-center gap-2">
+                    {segmentStatus && <span className="text-xs text-zinc-500">{segmentStatus}</span>}
+                    <button
+                        type="button"
+                        onClick={detectCorners}
+                        disabled={telemetryData.size === 0}
+                        className="px-3 py-1 text-xs rounded bg-zinc-200 dark:bg-zinc-700 hover:bg-zinc-300 disabled:opacity-50"
+                    >
+                        Detect corners
+                    </button>
+                </div>
+            </div>
+            {overlayTelemetry.length === 0 ? (
                 <div className="flex items-center justify-center h-96">
                     <p className="text-zinc-500">Select a lap to view track map</p>
                 </div>
@@ -0,0 +1,137 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ReferenceLine, Tooltip, ResponsiveContainer } from 'recharts';
+import { useTelemetryContext } from '@/presentation/contexts/TelemetryContext';
+import { RepositoryFactory } from '@/infrastructure/factories/RepositoryFactory';
+import { DetectTraffic } from '@/application/use-cases/DetectTraffic';
+import { LapTraffic } from '@/domain/services/TrafficDetector';
+import { Lap, TrafficCondition } from '@/domain/entities/Lap';
+
+const CONDITION_LABELS: Record<TrafficCondition, string> = {
+    traffic: 'In traffic',
+    slipstream: 'In slipstream'
+};
+
+/**
+ * TrafficPanel Component
+ * Gap to the car directly ahead through every loaded lap, and which laps
+ * were spent mostly in traffic or in a slipstream. The tags are written to
+ * the laps, so race pace leaves those laps out and the comparison picker
+ * labels them.
+ *
+ * Design Pattern: Observer Pattern (re-runs detection when telemetry changes)
+ */
+export default function TrafficPanel() {
+    const { lapData, telemetryData, selectedVehicleId, selectedLap, setLapData } = useTelemetryContext();
+    const [traffic, setTraffic] = useState<LapTraffic[]>([]);
+    const [followingDistanceM, setFollowingDistanceM] = useState(50);
+
+    useEffect(() => {
+        if (telemetryData.size === 0) return;
+
+        const detect = async () => {
+            try {
+                const useCase = new DetectTraffic(
+                    RepositoryFactory.getTelemetryRepository(),
+                    RepositoryFactory.getLapRepository()
+                );
+                const result = await useCase.execute({ followingDistanceM });
+                setTraffic(result.traffic);
+                const byVehicle = new Map<string, Lap[]>();
+                for (const lap of result.laps) {
+                    byVehicle.set(lap.vehicle.id, [...(byVehicle.get(lap.vehicle.id) ?? []), lap]);
+                }
+                byVehicle.forEach((laps, vehicleId) => setLapData(vehicleId, laps));
+            } catch (error) {
+                console.warn('Traffic detection failed:', error);
+                setTraffic([]);
+            }
+        };
+        detect();
+    }, [telemetryData, followingDistanceM, setLapData]);
+
+    if (lapData.size === 0 || traffic.length === 0) return null;
+
+    const rows = [...traffic].sort((a, b) =>
+        a.vehicleId.localeCompare(b.vehicleId, undefined, { numeric: true }) || a.lapNumber - b.lapNumber
+    );
+    const selected = traffic.find(t => t.vehicleId === selectedVehicleId && t.lapNumber === selectedLap) ?? null;
+    const gapTrace = selected?.points.map(p => ({ distance: p.lapDistance, gapM: p.gapM, ahead: p.aheadVehicleId })) ?? [];
+    const percent = (fraction: number) => `${(fraction * 100).toFixed(0)}%`;
+    const inputClass = 'px-2 py-1 text-xs bg-white dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded';
+
+    return (
+        <div className="bg-white dark:bg-zinc-900 rounded-lg shadow p-6">
+            <div className="flex items-center justify-between mb-1">
+                <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">Traffic & Slipstream</h3>
+                <label className="text-xs text-zinc-600 dark:text-zinc-400">
+                    Following within
+                    <input
+                        type="number"
+                        min={5}
+                        value={followingDistanceM}
+                        onChange={(e) => {
+                            const value = parseFloat(e.target.value);
+                            if (value >= 5) setFollowingDistanceM(value);
+                        }}
+                        className={`${inputClass} mx-1 w-16`}
+                    />
+                    m
+                </label>
+            </div>
+            <p className="text-xs text-zinc-500 mb-4">
+                Gap to the car ahead on track from the GPS of every loaded car at the same moment. Laps spent mostly
+                following are flagged and left out of race pace.
+            </p>
+
+            {selected && (
+                <div className="h-48 mb-4">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={gapTrace} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#3f3f46" />
+                            <XAxis dataKey="distance" type="number" domain={['dataMin', 'dataMax']} tickFormatter={(d: number) => d.toFixed(0)} />
+                            <YAxis domain={[0, 'auto']} label={{ value: 'Gap ahead (m)', angle: -90, position: 'insideLeft' }} />
+                            <Tooltip
+                                labelFormatter={(d) => `${Number(d).toFixed(0)} m`}
+                                formatter={(value, _name, item) => [`${Number(value).toFixed(1)} m`, `Behind ${item.payload.ahead}`]}
+                            />
+                            <ReferenceLine y={followingDistanceM} stroke="#F59E0B" strokeDasharray="4 4" />
+                            <Line dataKey="gapM" stroke="#3B82F6" dot={false} isAnimationActive={false} connectNulls={false} />
+                        </LineChart>
+                    </ResponsiveContainer>
+                </div>
+            )}
+
+            <div className="overflow-x-auto max-h-80">
+                <table className="w-full text-xs text-zinc-800 dark:text-zinc-200">
+                    <thead>
+                        <tr className="text-left text-zinc-500 border-b border-zinc-200 dark:border-zinc-700">
+                            <th className="py-1">Vehicle</th>
+                            <th>Lap</th>
+                            <th className="text-right">Following</th>
+                            <th className="text-right">Traffic</th>
+                            <th className="text-right">Slipstream</th>
+                            <th className="pl-4">Flag</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(row => (
+                            <tr
+                                key={`${row.vehicleId}-${row.lapNumber}`}
+                                className={`border-b border-zinc-100 dark:border-zinc-800 ${row === selected ? 'bg-zinc-100 dark:bg-zinc-800' : ''}`}
+                            >
+                                <td className="py-1 font-semibold">{row.vehicleId}</td>
+                                <td>{row.lapNumber}</td>
+                                <td className="text-right">{percent(row.closeFraction)}</td>
+                                <td className="text-right">{percent(row.trafficFraction)}</td>
+                                <td className="text-right">{percent(row.slipstreamFraction)}</td>
+                                <td className="pl-4">{row.condition ? CONDITION_LABELS[row.condition] : '–'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
@@ -1,8 +1,18 @@
 'use client';
 
-import React, { createContext, useContext, useState, useCallback } from 'react';
+import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
 import { TelemetryFrame } from '@/domain/entities/TelemetryFrame';
 import { Lap } from '@/domain/entities/Lap';
+import { RaceSession } from '@/domain/entities/RaceSession';
+import { TrackLayout } from '@/domain/entities/TrackLayout';
+import { TrackBoundary } from '@/domain/entities/TrackBoundary';
+import { FuelCorrectionModel, FuelCorrectionOptions } from '@/domain/services/FuelCorrectionModel';
+import { GeoPoint } from '@/domain/services/GeoCalculator';
+import { Overtake } from '@/domain/services/OvertakeDetector';
+import { TrackExcursion } from '@/domain/services/TrackLimitsChecker';
+import { LoadRaceSession, LoadedRaceSession } from '@/application/use-cases/LoadRaceSession';
+import { RepositoryFactory } from '@/infrastructure/factories/RepositoryFactory';
+import { SessionInputAdapter } from '@/presentation/services/SessionInputAdapter';
 
 /**
  * Telemetry Context
@@ -13,14 +23,46 @@ import { Lap } from '@/domain/entities/Lap';
  * 
  * SOLID Principles:
  * - Single Responsibility: Manages telemetry state only
+ *
+ * Selection is an ordered list of lap references: the first is the selected
+ * (reference) lap, the second the comparison lap, the rest are overlays.
+ *
+ * The loaded session (cautions, stints, pit stops) is built here once per
+ * change of laps, telemetry or pit settings, and shared by the analysis panels.
  */
 
+/**
+ * Overlay colors, assigned in order to new lap references
+ */
+export const LAP_COLORS = [
+    '#3B82F6', '#F59E0B', '#10B981', '#EF4444', '#A855F7',
+    '#EC4899', '#14B8A6', '#F97316', '#84CC16', '#6366F1'
+];
+
+export interface LapRef {
+    vehicleId: string;
+    lap: number;
+    color: string;
+    visible: boolean;
+}
+
 interface TelemetryContextState {
     // Data
     telemetryData: Map<string, TelemetryFrame[]>; // vehicleId-lap -> frames
     lapData: Map<string, Lap[]>; // vehicleId -> laps
+    raceSession: RaceSession | null; // set by the session importer
+    trackLayout: TrackLayout | null; // corners and straights
+    trackBoundary: TrackBoundary | null; // track limits
+    trackExcursions: TrackExcursion[]; // frames outside the boundary, per excursion
+    fuelCorrection: FuelCorrectionOptions; // model for fuel-corrected lap times
+    pitLane: GeoPoint[]; // polygon around the pit lane (empty when not set)
+    pitSpeedLimitKmh: number; // speed limiter setting for pit detection
+    loadedSession: LoadedRaceSession | null; // session every analysis panel starts from
+    overtakes: Overtake[]; // passes between cars, in session-clock order
+    overtakeFilter: string | null; // vehicle whose passes are shown (null: all)
 
     // Selection state
+    lapRefs: LapRef[];
     selectedVehicleId: string | null;
     selectedLap: number | null;
     comparisonVehicleId: string | null;
@@ -33,10 +75,23 @@ interface TelemetryContextState {
     // Actions
     setTelemetryData: (vehicleId: string, lap: number, frames: TelemetryFrame[]) => void;
     setLapData: (vehicleId: string, laps: Lap[]) => void;
+    setRaceSession: (session: RaceSession | null) => void;
+    setTrackLayout: (layout: TrackLayout | null) => void;
+    setTrackBoundary: (boundary: TrackBoundary | null) => void;
+    setTrackExcursions: (excursions: TrackExcursion[]) => void;
+    setFuelCorrection: (options: FuelCorrectionOptions) => void;
+    setPitLane: (polygon: GeoPoint[]) => void;
+    setPitSpeedLimitKmh: (kmh: number) => void;
+    setOvertakes: (overtakes: Overtake[]) => void;
+    setOvertakeFilter: (vehicleId: string | null) => void;
     selectVehicleAndLap: (vehicleId: string, lap: number) => void;
     setComparisonLap: (vehicleId: string, lap: number) => void;
     clearComparison: () => void;
+    addLapRefs: (laps: { vehicleId: string; lap: number }[]) => void;
+    removeLapRef: (vehicleId: string, lap: number) => void;
+    toggleLapVisibility: (vehicleId: string, lap: number) => void;
     setLoading: (loading: boolean, progress?: number) => void;
+    clearTelemetryData: (vehicleId?: string) => void; // one vehicle's laps, or every lap
     clearAllData: () => void;
 }
 
@@ -50,13 +105,41 @@ export function TelemetryProvider({ children }: TelemetryProviderProps) {
     // State
     const [telemetryData, setTelemetryDataState] = useState<Map<string, TelemetryFrame[]>>(new Map());
     const [lapData, setLapDataState] = useState<Map<string, Lap[]>>(new Map());
-    const [selectedVehicleId, setSelectedVehicleId] = useState<string | null>(null);
-    const [selectedLap, setSelectedLap] = useState<number | null>(null);
-    const [comparisonVehicleId, setComparisonVehicleId] = useState<string | null>(null);
-    const [comparisonLap, setComparisonLap] = useState<number | null>(null);
+    const [raceSession, setRaceSession] = useState<RaceSession | null>(null);
+    const [trackLayout, setTrackLayout] = useState<TrackLayout | null>(null);
+    const [trackBoundary, setTrackBoundary] = useState<TrackBoundary | null>(null);
+    const [trackExcursions, setTrackExcursions] = useState<TrackExcursion[]>([]);
+    const [fuelCorrection, setFuelCorrection] = useState<FuelCorrectionOptions>(FuelCorrectionModel.DEFAULTS);
+    const [pitLane, setPitLane] = useState<GeoPoint[]>([]);
+    const [pitSpeedLimitKmh, setPitSpeedLimitKmh] = useState(60);
+    const [loadedSession, setLoadedSession] = useState<LoadedRaceSession | null>(null);
+    const [overtakes, setOvertakes] = useState<Overtake[]>([]);
+    const [overtakeFilter, setOvertakeFilter] = useState<string | null>(null);
+    const [lapRefs, setLapRefs] = useState<LapRef[]>([]);
     const [isLoading, setIsLoading] = useState(false);
     const [loadingProgress, setLoadingProgress] = useState(0);
 
+    // Load the session for the analysis panels; a newer load supersedes this one
+    useEffect(() => {
+        if (lapData.size === 0) return;
+
+        let superseded = false;
+        const load = async () => {
+            try {
+                const loaded = await new LoadRaceSession(RepositoryFactory.getLapRepository()).execute(
+                    SessionInputAdapter.fromRaceSession(raceSession),
+                    { pitDetection: { telemetry: telemetryData, pitLane, options: { pitSpeedLimitKmh } } }
+                );
+                if (!superseded) setLoadedSession(loaded);
+            } catch (error) {
+                console.warn('Session loading failed:', error);
+                if (!superseded) setLoadedSession(null);
+            }
+        };
+        load();
+        return () => { superseded = true; };
+    }, [lapData, raceSession, telemetryData, pitLane, pitSpeedLimitKmh]);
+
     // Actions
     const setTelemetryData = useCallback((vehicleId: string, lap: number, frames: TelemetryFrame[]) => {
         const key = `${vehicleId}-${lap}`;
@@ -76,18 +159,37 @@ export function TelemetryProvider({ children }: TelemetryProviderProps) {
     }, []);
 
     const selectVehicleAndLap = useCallback((vehicleId: string, lap: number) => {
-        setSelectedVehicleId(vehicleId);
-        setSelectedLap(lap);
+        setLapRefs(prev => placeLapRef(prev, 0, vehicleId, lap));
     }, []);
 
     const setComparisonLapHandler = useCallback((vehicleId: string, lap: number) => {
-        setComparisonVehicleId(vehicleId);
-        setComparisonLap(lap);
+        setLapRefs(prev => placeLapRef(prev, 1, vehicleId, lap));
     }, []);
 
     const clearComparison = useCallback(() => {
-        setComparisonVehicleId(null);
-        setComparisonLap(null);
+        setLapRefs(prev => prev.filter((_, i) => i !== 1));
+    }, []);
+
+    const addLapRefs = useCallback((laps: { vehicleId: string; lap: number }[]) => {
+        setLapRefs(prev => {
+            const next = [...prev];
+            for (const { vehicleId, lap } of laps) {
+                if (!next.some(ref => isSameLap(ref, vehicleId, lap))) {
+                    next.push({ vehicleId, lap, color: nextColor(next), visible: true });
+                }
+            }
+            return next;
+        });
+    }, []);
+
+    const removeLapRef = useCallback((vehicleId: string, lap: number) => {
+        setLapRefs(prev => prev.filter(ref => !isSameLap(ref, vehicleId, lap)));
+    }, []);
+
+    const toggleLapVisibility = useCallback((vehicleId: string, lap: number) => {
+        setLapRefs(prev => prev.map(ref =>
+            isSameLap(ref, vehicleId, lap) ? { ...ref, visible: !ref.visible } : ref
+        ));
     }, []);
 
     const setLoading = useCallback((loading: boolean, progress: number = 0) => {
@@ -95,31 +197,70 @@ export function TelemetryProvider({ children }: TelemetryProviderProps) {
         setLoadingProgress(progress);
     }, []);
 
+    const clearTelemetryData = useCallback((vehicleId?: string) => {
+        setTelemetryDataState(prev => {
+            if (vehicleId === undefined) return new Map();
+            return new Map(Array.from(prev.entries()).filter(([, frames]) => frames[0]?.vehicleId !== vehicleId));
+        });
+    }, []);
+
     const clearAllData = useCallback(() => {
         setTelemetryDataState(new Map());
         setLapDataState(new Map());
-        setSelectedVehicleId(null);
-        setSelectedLap(null);
-        setComparisonVehicleId(null);
-        setComparisonLap(null);
+        setLoadedSession(null);
+        setRaceSession(null);
+        setTrackLayout(null);
+        setTrackBoundary(null);
+        setTrackExcursions([]);
+        setOvertakes([]);
+        setOvertakeFilter(null);
+        setLapRefs([]);
         setLoadingProgress(0);
     }, []);
 
+    // Selected and comparison laps are the first two references
+    const selected = lapRefs[0] ?? null;
+    const comparison = lapRefs[1] ?? null;
+
     const value: TelemetryContextState = {
         telemetryData,
         lapData,
-        selectedVehicleId,
-        selectedLap,
-        comparisonVehicleId,
-        comparisonLap,
+        raceSession,
+        trackLayout,
+        trackBoundary,
+        trackExcursions,
+        fuelCorrection,
+        pitLane,
+        pitSpeedLimitKmh,
+        loadedSession,
+        overtakes,
+        overtakeFilter,
+        lapRefs,
+        selectedVehicleId: selected?.vehicleId ?? null,
+        selectedLap: selected?.lap ?? null,
+        comparisonVehicleId: comparison?.vehicleId ?? null,
+        comparisonLap: comparison?.lap ?? null,
         isLoading,
         loadingProgress,
         setTelemetryData,
         setLapData,
+        setRaceSession,
+        setTrackLayout,
+        setTrackBoundary,
+        setTrackExcursions,
+        setFuelCorrection,
+        setPitLane,
+        setPitSpeedLimitKmh,
+        setOvertakes,
+        setOvertakeFilter,
         selectVehicleAndLap,
         setComparisonLap: setComparisonLapHandler,
         clearComparison,
+        addLapRefs,
+        removeLapRef,
+        toggleLapVisibility,
         setLoading,
+        clearTelemetryData,
         clearAllData
     };
 
@@ -130,6 +271,36 @@ export function TelemetryProvider({ children }: TelemetryProviderProps) {
     );
 }
 
+function isSameLap(ref: LapRef, vehicleId: string, lap: number): boolean {
+    return ref.vehicleId === vehicleId && ref.lap === lap;
+}
+
+function nextColor(refs: LapRef[]): string {
+    const used = new Set(refs.map(ref => ref.color));
+    return LAP_COLORS.find(color => !used.has(color)) ?? LAP_COLORS[refs.length % LAP_COLORS.length];
+}
+
+/**
+ * Put a lap at a list position
+ * A lap already in the list swaps places with the current occupant; a new lap
+ * replaces the occupant (keeping its color) or is appended.
+ */
+function placeLapRef(refs: LapRef[], index: number, vehicleId: string, lap: number): LapRef[] {
+    const next = [...refs];
+    const existing = next.findIndex(ref => isSameLap(ref, vehicleId, lap));
+
+    if (existing >= 0) {
+        const target = Math.min(index, next.length - 1);
+        [next[existing], next[target]] = [next[target], { ...next[existing], visible: true }];
+    } else if (index < next.length) {
+        next[index] = { vehicleId, lap, color: next[index].color, visible: true };
+    } else {
+        next.push({ vehicleId, lap, color: nextColor(next), visible: true });
+    }
+
+    return next;
+}
+
 /**
  * Hook to access telemetry context
  * Throws error if used outside provider
@@ -1,7 +1,7 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { useTelemetryContext } from '@/presentation/contexts/TelemetryContext';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useTelemetryContext, LapRef } from '@/presentation/contexts/TelemetryContext';
 import { RepositoryFactory } from '@/infrastructure/factories/RepositoryFactory';
 import { GetVehicleTelemetry } from '@/application/use-cases/GetVehicleTelemetry';
 import { TelemetryFrame } from '@/domain/entities/TelemetryFrame';
@@ -78,10 +78,23 @@ export function useTelemetry() {
         return context.telemetryData.get(key) || [];
     }, [context.comparisonVehicleId, context.comparisonLap, context.telemetryData]);
 
+    /**
+     * Telemetry for every visible lap reference, in list order
+     * Memoized so consumers keep a stable reference between renders
+     */
+    const overlayTelemetry = useMemo((): LapOverlay[] => {
+        return context.lapRefs
+            .filter(ref => ref.visible)
+            .map(ref => ({ ref, frames: context.telemetryData.get(`${ref.vehicleId}-${ref.lap}`) || [] }))
+            .filter(overlay => overlay.frames.length > 0);
+    }, [context.lapRefs, context.telemetryData]);
+
     return {
         // Data
         selectedTelemetry: getSelectedTelemetry(),
         comparisonTelemetry: getComparisonTelemetry(),
+        overlayTelemetry,
+        lapRefs: context.lapRefs,
         allVehicleIds: Array.from(context.lapData.keys()),
 
         // State
@@ -98,6 +111,14 @@ export function useTelemetry() {
         selectVehicleAndLap: context.selectVehicleAndLap,
         setComparisonLap: context.setComparisonLap,
         clearComparison: context.clearComparison,
+        addLapRefs: context.addLapRefs,
+        removeLapRef: context.removeLapRef,
+        toggleLapVisibility: context.toggleLapVisibility,
         clearAllData: context.clearAllData
     };
 }
+
+export interface LapOverlay {
+    ref: LapRef;
+    frames: TelemetryFrame[];
+}
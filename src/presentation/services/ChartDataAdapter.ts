@@ -1,5 +1,6 @@
 import { TelemetryFrame } from '@/domain/entities/TelemetryFrame';
 import { Lap } from '@/domain/entities/Lap';
+import { LapDistanceCalculator } from '@/domain/services/LapDistanceCalculator';
 
 /**
  * Chart Data Adapter
@@ -15,10 +16,21 @@ import { Lap } from '@/domain/entities/Lap';
 export class ChartDataAdapter {
     /**
      * Convert telemetry frames to line chart data
+     * Frames are one lap in time order; distance falls back to integrated
+     * speed when the frames carry no lapDistance.
      */
     static toLineChartData(frames: TelemetryFrame[]): ChartDataPoint[] {
+        if (frames.length === 0) return [];
+
+        const startMs = frames[0].timestamp.getTime();
+        const distances = frames.every(f => f.lapDistance !== undefined)
+            ? frames.map(f => f.lapDistance!)
+            : new LapDistanceCalculator().fromSpeed(frames);
+
         return frames.map((frame, index) => ({
             index,
+            distance: distances[index],
+            elapsedMs: frame.timestamp.getTime() - startMs,
             timestamp: frame.timestamp.toISOString(),
             speed: frame.speed,
             throttle: frame.throttlePos,
@@ -91,6 +103,8 @@ export class ChartDataAdapter {
 // Type Definitions
 export interface ChartDataPoint {
     index: number;
+    distance: number; // metres from lap start
+    elapsedMs: number; // since the lap's first frame
     timestamp: string;
     speed: number;
     throttle: number;
@@ -0,0 +1,31 @@
+import { RaceSession } from '@/domain/entities/RaceSession';
+import { SessionInput } from '@/application/use-cases/AnalyzeRaceSession';
+
+/**
+ * Session Input Adapter
+ * Session details for the analysis use cases, taken from the imported race
+ * session; when only lap files were loaded, placeholders for a COTA session.
+ *
+ * Design Pattern: Adapter Pattern
+ * Purpose: One place for the fallback session every analysis panel uses
+ */
+export class SessionInputAdapter {
+    static fromRaceSession(raceSession: RaceSession | null): SessionInput {
+        if (!raceSession) {
+            return {
+                sessionId: 'loaded-laps',
+                sessionName: 'Loaded laps',
+                trackName: 'COTA',
+                trackLengthKm: 5.513,
+                sessionDate: new Date()
+            };
+        }
+        return {
+            sessionId: raceSession.sessionId,
+            sessionName: raceSession.sessionName,
+            trackName: raceSession.trackName,
+            trackLengthKm: raceSession.trackLengthKm,
+            sessionDate: raceSession.sessionDate
+        };
+    }
+}